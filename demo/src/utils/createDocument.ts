@@ -1,19 +1,19 @@
 import * as Cord from '@cord.network/sdk'
 
 /**
- * It creates a document from a schema, content, holder, issuer, authorization and registry
+ * It creates a document from a schema, content, holder, issuer and chain space
  * @param holder - The DID of the document holder.
  * @param issuer - The DID of the issuer of the document.
  * @param schema - The schema of the document.
- * @param authorization - The authorization id of the issuer.
- * @param registry - The registry where the document is linked.
+ * @param spaceUri - The URI of the chain space the document is anchored in.
+ * @param signCallback - The callback signing the document with the issuer DID.
  * @returns A document
  */
 export async function createDocument(
   holder: Cord.DidUri,
   issuer: Cord.DidUri,
   schema: Cord.ISchema,
-  chainSpace: Cord.SpaceId,
+  spaceUri: Cord.SpaceUri,
   signCallback: Cord.SignCallback
 ): Promise<Cord.IDocument> {
   const content = Cord.Content.fromSchemaAndContent(
@@ -35,12 +35,11 @@ export async function createDocument(
     holder,
     issuer
   )
-  console.log(content, chainSpace)
-  const document = Cord.Document.fromContent({
+  console.log(content, spaceUri)
+  const document = await Cord.Document.fromContent({
     content,
-    chainSpace,
+    spaceUri,
     signCallback,
-    options: {},
   })
   return document
 }
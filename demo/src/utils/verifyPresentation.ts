@@ -11,7 +11,7 @@ export async function verifyPresentation(
   presentation: Cord.IDocumentPresentation,
   {
     challenge,
-    trustedIssuerUris = [],
+    trustedIssuerUris,
   }: {
     challenge?: string
     trustedIssuerUris?: Cord.DidUri[]
@@ -25,7 +25,6 @@ export async function verifyPresentation(
 
     const { isValid, message } =
       await Cord.Document.verifyPresentationDocumentStatus(presentation, {
-        challenge,
         trustedIssuerUris,
       })
 
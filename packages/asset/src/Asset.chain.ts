@@ -21,8 +21,13 @@ import { Chain } from '@cord.network/network'
 import { ConfigService } from '@cord.network/config'
 import { SDKErrors } from '@cord.network/utils'
 
-/* TODO: Write method description, params, return types to all methods */
-
+/**
+ * Checks whether an asset is registered on the blockchain.
+ *
+ * @param assetUri - The URI of the asset.
+ * @returns A promise resolving to `true` if the asset exists, or `false` otherwise.
+ * @throws {SDKErrors.CordQueryError} - Thrown on error during the blockchain query.
+ */
 export async function isAssetStored(assetUri: AssetUri): Promise<boolean> {
   try {
     const api = ConfigService.get('api')
@@ -43,6 +48,16 @@ export async function isAssetStored(assetUri: AssetUri): Promise<boolean> {
   }
 }
 
+/**
+ * Prepares the extrinsic creating an asset for later dispatch to the blockchain.
+ *
+ * @param assetEntry - The asset entry, as built by `buildFromAssetProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the creator in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @returns The prepared extrinsic, authorized by the DID of the creator.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be built or authorized.
+ */
 export async function prepareCreateExtrinsic(
   assetEntry: IAssetEntry,
   authorAccount: CordKeyringPair,
@@ -76,21 +91,34 @@ export async function prepareCreateExtrinsic(
   }
 }
 
+/**
+ * Creates an asset on the blockchain, with the extrinsic of [[prepareCreateExtrinsic]].
+ *
+ * @param assetEntry - The asset entry, as built by `buildFromAssetProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the creator in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to the URI of the created asset.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be prepared or submitted.
+ */
 export async function dispatchCreateToChain(
   assetEntry: IAssetEntry,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<AssetUri> {
-  try {
-    
-    const extrinsic = await prepareCreateExtrinsic(
-      assetEntry,
-      authorAccount,
-      authorizationUri,
-      signCallback
-    )
+  const extrinsic = await prepareCreateExtrinsic(
+    assetEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
 
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return assetEntry.uri
@@ -103,24 +131,58 @@ export async function dispatchCreateToChain(
   }
 }
 
-export async function dispatchCreateVcToChain(
+/**
+ * Estimates the fee of [[dispatchCreateToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param assetEntry - The asset entry, as built by `buildFromAssetProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the creator in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateCreateFee(
+  assetEntry: IAssetEntry,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareCreateExtrinsic(
+    assetEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares the extrinsic creating an asset described by a verifiable credential, for later dispatch to the
+ * blockchain.
+ *
+ * @param assetQty - The quantity of the asset.
+ * @param digest - The digest of the verifiable credential describing the asset.
+ * @param creator - The DID URI of the creator of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the creator in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @returns The prepared extrinsic, authorized by the DID of the creator.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be built or authorized.
+ */
+export async function prepareCreateVcExtrinsic(
   assetQty: number,
   digest: string,
   creator: DidUri,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  assetEntryUri: AssetUri,
   signCallback: SignExtrinsicCallback
-): Promise<AssetUri> {
+): Promise<SubmittableExtrinsic> {
   try {
     const api = ConfigService.get('api')
     const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
 
-    const tx = api.tx.asset.vcCreate(
-      assetQty,
-      digest,
-      authorizationId
-    )
+    const tx = api.tx.asset.vcCreate(assetQty, digest, authorizationId)
 
     const extrinsic = await Did.authorizeTx(
       creator,
@@ -129,6 +191,53 @@ export async function dispatchCreateVcToChain(
       authorAccount.address
     )
 
+    return extrinsic
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${errorMessage}".`
+    )
+  }
+}
+
+/**
+ * Creates an asset described by a verifiable credential on the blockchain, with the extrinsic of
+ * [[prepareCreateVcExtrinsic]].
+ *
+ * @param assetQty - The quantity of the asset.
+ * @param digest - The digest of the verifiable credential describing the asset.
+ * @param creator - The DID URI of the creator of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the creator in the space of the asset.
+ * @param assetEntryUri - The URI of the asset, returned once it is created.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to `assetEntryUri`.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be prepared or submitted.
+ */
+export async function dispatchCreateVcToChain(
+  assetQty: number,
+  digest: string,
+  creator: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  assetEntryUri: AssetUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<AssetUri> {
+  const extrinsic = await prepareCreateVcExtrinsic(
+    assetQty,
+    digest,
+    creator,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return assetEntryUri
@@ -141,6 +250,48 @@ export async function dispatchCreateVcToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchCreateVcToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param assetQty - The quantity of the asset.
+ * @param digest - The digest of the verifiable credential describing the asset.
+ * @param creator - The DID URI of the creator of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the creator in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateCreateVcFee(
+  assetQty: number,
+  digest: string,
+  creator: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareCreateVcExtrinsic(
+    assetQty,
+    digest,
+    creator,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares the extrinsic issuing an instance of an asset for later dispatch to the blockchain.
+ *
+ * @param assetEntry - The issuance entry, as built by `buildFromIssueProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the issuer in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @returns The prepared extrinsic, authorized by the DID of the issuer.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be built or authorized.
+ */
 export async function prepareExtrinsic(
   assetEntry: IAssetIssuance,
   authorAccount: CordKeyringPair,
@@ -175,15 +326,34 @@ export async function prepareExtrinsic(
   }
 }
 
+/**
+ * Issues an instance of an asset on the blockchain, with the extrinsic of [[prepareExtrinsic]].
+ *
+ * @param assetEntry - The issuance entry, as built by `buildFromIssueProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the issuer in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to the URI of the issued asset instance.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be prepared or submitted.
+ */
 export async function dispatchIssueToChain(
   assetEntry: IAssetIssuance,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<AssetUri> {
-  try {
+  const extrinsic = await prepareExtrinsic(
+    assetEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
 
-    const extrinsic = await prepareExtrinsic(assetEntry, authorAccount, authorizationUri, signCallback) 
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return assetEntry.uri
@@ -196,6 +366,43 @@ export async function dispatchIssueToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchIssueToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param assetEntry - The issuance entry, as built by `buildFromIssueProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the issuer in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateIssueFee(
+  assetEntry: IAssetIssuance,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareExtrinsic(
+    assetEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares the extrinsic issuing an instance of an asset described by a verifiable credential, for later dispatch
+ * to the blockchain.
+ *
+ * @param assetEntry - The issuance entry, as built by `buildFromIssueProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the issuer in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @returns The prepared extrinsic, authorized by the DID of the issuer.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be built or authorized.
+ */
 export async function prepareVcExtrinsic(
   assetEntry: IAssetIssuance,
   authorAccount: CordKeyringPair,
@@ -230,15 +437,35 @@ export async function prepareVcExtrinsic(
   }
 }
 
+/**
+ * Issues an instance of an asset described by a verifiable credential on the blockchain, with the extrinsic of
+ * [[prepareVcExtrinsic]].
+ *
+ * @param assetEntry - The issuance entry, as built by `buildFromIssueProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the issuer in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to the URI of the issued asset instance.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be prepared or submitted.
+ */
 export async function dispatchIssueVcToChain(
   assetEntry: IAssetIssuance,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<AssetUri> {
-  try {
+  const extrinsic = await prepareVcExtrinsic(
+    assetEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
 
-    const extrinsic = await prepareVcExtrinsic(assetEntry, authorAccount, authorizationUri, signCallback) 
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return assetEntry.uri
@@ -251,11 +478,46 @@ export async function dispatchIssueVcToChain(
   }
 }
 
-export async function dispatchTransferToChain(
+/**
+ * Estimates the fee of [[dispatchIssueVcToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param assetEntry - The issuance entry, as built by `buildFromIssueProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the issuer in the space of the asset.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateIssueVcFee(
+  assetEntry: IAssetIssuance,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareVcExtrinsic(
+    assetEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares the extrinsic transferring an asset instance to a new owner, for later dispatch to the blockchain.
+ *
+ * @param assetEntry - The transfer entry, as built by `buildFromTransferProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @returns The prepared extrinsic, authorized by the DID of the current owner.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be built or authorized.
+ */
+export async function prepareTransferExtrinsic(
   assetEntry: IAssetTransfer,
   authorAccount: CordKeyringPair,
   signCallback: SignExtrinsicCallback
-): Promise<AssetUri> {
+): Promise<SubmittableExtrinsic> {
   try {
     const api = ConfigService.get('api')
 
@@ -268,6 +530,41 @@ export async function dispatchTransferToChain(
       authorAccount.address
     )
 
+    return extrinsic
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${errorMessage}".`
+    )
+  }
+}
+
+/**
+ * Transfers an asset instance to a new owner on the blockchain, with the extrinsic of [[prepareTransferExtrinsic]].
+ *
+ * @param assetEntry - The transfer entry, as built by `buildFromTransferProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to the URI of the transferred asset instance.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be prepared or submitted.
+ */
+export async function dispatchTransferToChain(
+  assetEntry: IAssetTransfer,
+  authorAccount: CordKeyringPair,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<AssetUri> {
+  const extrinsic = await prepareTransferExtrinsic(
+    assetEntry,
+    authorAccount,
+    signCallback
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return `${ASSET_PREFIX}${assetEntry.entry.assetId}:${assetEntry.entry.assetInstanceId}`
@@ -280,11 +577,44 @@ export async function dispatchTransferToChain(
   }
 }
 
-export async function dispatchTransferVcToChain(
+/**
+ * Estimates the fee of [[dispatchTransferToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param assetEntry - The transfer entry, as built by `buildFromTransferProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateTransferFee(
+  assetEntry: IAssetTransfer,
+  authorAccount: CordKeyringPair,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareTransferExtrinsic(
+    assetEntry,
+    authorAccount,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares the extrinsic transferring an instance of an asset described by a verifiable credential to a new owner,
+ * for later dispatch to the blockchain.
+ *
+ * @param assetEntry - The transfer entry, as built by `buildFromTransferProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @returns The prepared extrinsic, authorized by the DID of the current owner.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be built or authorized.
+ */
+export async function prepareTransferVcExtrinsic(
   assetEntry: IAssetTransfer,
   authorAccount: CordKeyringPair,
   signCallback: SignExtrinsicCallback
-): Promise<AssetUri> {
+): Promise<SubmittableExtrinsic> {
   try {
     const api = ConfigService.get('api')
 
@@ -297,6 +627,42 @@ export async function dispatchTransferVcToChain(
       authorAccount.address
     )
 
+    return extrinsic
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${errorMessage}".`
+    )
+  }
+}
+
+/**
+ * Transfers an instance of an asset described by a verifiable credential to a new owner on the blockchain, with the
+ * extrinsic of [[prepareTransferVcExtrinsic]].
+ *
+ * @param assetEntry - The transfer entry, as built by `buildFromTransferProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to the URI of the transferred asset instance.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be prepared or submitted.
+ */
+export async function dispatchTransferVcToChain(
+  assetEntry: IAssetTransfer,
+  authorAccount: CordKeyringPair,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<AssetUri> {
+  const extrinsic = await prepareTransferVcExtrinsic(
+    assetEntry,
+    authorAccount,
+    signCallback
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return `${ASSET_PREFIX}${assetEntry.entry.assetId}:${assetEntry.entry.assetInstanceId}`
@@ -309,14 +675,52 @@ export async function dispatchTransferVcToChain(
   }
 }
 
-export async function dispatchAssetStatusChangeToChain(
+/**
+ * Estimates the fee of [[dispatchTransferVcToChain]], building the same DID-authorized extrinsic without submitting
+ * it.
+ *
+ * @param assetEntry - The transfer entry, as built by `buildFromTransferProperties`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateTransferVcFee(
+  assetEntry: IAssetTransfer,
+  authorAccount: CordKeyringPair,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareTransferVcExtrinsic(
+    assetEntry,
+    authorAccount,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares the extrinsic changing the status of an asset or of one of its instances, for later dispatch to the
+ * blockchain. The asset or instance has to exist, be issued by the given DID and not be in the new status yet.
+ *
+ * @param assetUri - The URI of the asset.
+ * @param assetIssuerDidUri - The DID URI of the issuer of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param newStatus - The new status of the asset or asset instance.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param assetInstanceId - (Optional) The identifier or URI of the asset instance whose status changes. Without it,
+ * the status of the asset itself changes.
+ * @returns The prepared extrinsic, authorized by the DID of the issuer.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be built or authorized.
+ */
+export async function prepareAssetStatusChangeExtrinsic(
   assetUri: AssetUri,
   assetIssuerDidUri: DidUri,
   authorAccount: CordKeyringPair,
   newStatus: PalletAssetAssetStatusOf,
   signCallback: SignExtrinsicCallback,
   assetInstanceId?: string
-): Promise<void> {
+): Promise<SubmittableExtrinsic> {
   try {
     const api = ConfigService.get("api");
     let tx;
@@ -385,24 +789,118 @@ export async function dispatchAssetStatusChangeToChain(
       authorAccount.address
     );
 
-    await Chain.signAndSubmitTx(extrinsic, authorAccount);
+    return extrinsic;
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : JSON.stringify(error);
     throw new SDKErrors.CordDispatchError(
-      `Error dispatching to chain: "${errorMessage}".`
+      `Error preparing extrinsic: "${errorMessage}".`
     );
   }
 }
 
-export async function dispatchAssetStatusChangeVcToChain(
+/**
+ * Changes the status of an asset or of one of its instances on the blockchain, with the extrinsic of
+ * [[prepareAssetStatusChangeExtrinsic]].
+ *
+ * @param assetUri - The URI of the asset.
+ * @param assetIssuerDidUri - The DID URI of the issuer of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param newStatus - The new status of the asset or asset instance.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param assetInstanceId - (Optional) The identifier or URI of the asset instance whose status changes. Without it,
+ * the status of the asset itself changes.
+ * @param options - See `Chain.DispatchOptions`.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be prepared or submitted.
+ */
+export async function dispatchAssetStatusChangeToChain(
   assetUri: AssetUri,
   assetIssuerDidUri: DidUri,
   authorAccount: CordKeyringPair,
   newStatus: PalletAssetAssetStatusOf,
   signCallback: SignExtrinsicCallback,
-  assetInstanceId?: string
+  assetInstanceId?: string,
+  options: Chain.DispatchOptions = {}
 ): Promise<void> {
+  const extrinsic = await prepareAssetStatusChangeExtrinsic(
+    assetUri,
+    assetIssuerDidUri,
+    authorAccount,
+    newStatus,
+    signCallback,
+    assetInstanceId
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${errorMessage}".`
+    )
+  }
+}
+
+/**
+ * Estimates the fee of [[dispatchAssetStatusChangeToChain]], building the same DID-authorized extrinsic without
+ * submitting it.
+ *
+ * @param assetUri - The URI of the asset.
+ * @param assetIssuerDidUri - The DID URI of the issuer of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param newStatus - The new status of the asset or asset instance.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param assetInstanceId - (Optional) The identifier or URI of the asset instance whose status changes. Without it,
+ * the status of the asset itself changes.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateAssetStatusChangeFee(
+  assetUri: AssetUri,
+  assetIssuerDidUri: DidUri,
+  authorAccount: CordKeyringPair,
+  newStatus: PalletAssetAssetStatusOf,
+  signCallback: SignExtrinsicCallback,
+  assetInstanceId?: string,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareAssetStatusChangeExtrinsic(
+    assetUri,
+    assetIssuerDidUri,
+    authorAccount,
+    newStatus,
+    signCallback,
+    assetInstanceId
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares the extrinsic changing the status of an asset described by a verifiable credential or of one of its
+ * instances, for later dispatch to the blockchain. The asset or instance has to exist, be issued by the given DID and
+ * not be in the new status yet.
+ *
+ * @param assetUri - The URI of the asset.
+ * @param assetIssuerDidUri - The DID URI of the issuer of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param newStatus - The new status of the asset or asset instance.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param assetInstanceId - (Optional) The identifier or URI of the asset instance whose status changes. Without it,
+ * the status of the asset itself changes.
+ * @returns The prepared extrinsic, authorized by the DID of the issuer.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be built or authorized.
+ */
+export async function prepareAssetStatusChangeVcExtrinsic(
+  assetUri: AssetUri,
+  assetIssuerDidUri: DidUri,
+  authorAccount: CordKeyringPair,
+  newStatus: PalletAssetAssetStatusOf,
+  signCallback: SignExtrinsicCallback,
+  assetInstanceId?: string
+): Promise<SubmittableExtrinsic> {
   try {
     const api = ConfigService.get("api");
     let tx;
@@ -470,12 +968,91 @@ export async function dispatchAssetStatusChangeVcToChain(
       authorAccount.address
     );
 
-    await Chain.signAndSubmitTx(extrinsic, authorAccount);
+    return extrinsic;
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : JSON.stringify(error);
     throw new SDKErrors.CordDispatchError(
-      `Error dispatching to chain: "${errorMessage}".`
+      `Error preparing extrinsic: "${errorMessage}".`
     );
   }
 }
+
+/**
+ * Changes the status of an asset described by a verifiable credential or of one of its instances on the blockchain,
+ * with the extrinsic of [[prepareAssetStatusChangeVcExtrinsic]].
+ *
+ * @param assetUri - The URI of the asset.
+ * @param assetIssuerDidUri - The DID URI of the issuer of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param newStatus - The new status of the asset or asset instance.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param assetInstanceId - (Optional) The identifier or URI of the asset instance whose status changes. Without it,
+ * the status of the asset itself changes.
+ * @param options - See `Chain.DispatchOptions`.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be prepared or submitted.
+ */
+export async function dispatchAssetStatusChangeVcToChain(
+  assetUri: AssetUri,
+  assetIssuerDidUri: DidUri,
+  authorAccount: CordKeyringPair,
+  newStatus: PalletAssetAssetStatusOf,
+  signCallback: SignExtrinsicCallback,
+  assetInstanceId?: string,
+  options: Chain.DispatchOptions = {}
+): Promise<void> {
+  const extrinsic = await prepareAssetStatusChangeVcExtrinsic(
+    assetUri,
+    assetIssuerDidUri,
+    authorAccount,
+    newStatus,
+    signCallback,
+    assetInstanceId
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${errorMessage}".`
+    )
+  }
+}
+
+/**
+ * Estimates the fee of [[dispatchAssetStatusChangeVcToChain]], building the same DID-authorized extrinsic without
+ * submitting it.
+ *
+ * @param assetUri - The URI of the asset.
+ * @param assetIssuerDidUri - The DID URI of the issuer of the asset, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param newStatus - The new status of the asset or asset instance.
+ * @param signCallback - The callback function for signing the DID-authorized transaction.
+ * @param assetInstanceId - (Optional) The identifier or URI of the asset instance whose status changes. Without it,
+ * the status of the asset itself changes.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateAssetStatusChangeVcFee(
+  assetUri: AssetUri,
+  assetIssuerDidUri: DidUri,
+  authorAccount: CordKeyringPair,
+  newStatus: PalletAssetAssetStatusOf,
+  signCallback: SignExtrinsicCallback,
+  assetInstanceId?: string,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareAssetStatusChangeVcExtrinsic(
+    assetUri,
+    assetIssuerDidUri,
+    authorAccount,
+    newStatus,
+    signCallback,
+    assetInstanceId
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
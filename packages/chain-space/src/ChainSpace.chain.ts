@@ -13,6 +13,10 @@
  * - Querying the blockchain for the existence of Chain Spaces and authorizations.
  * - Generation of unique URIs for Chain Spaces and authorizations.
  * - Administration functions like sudo approvals for Chain Spaces.
+ * - Admin-authorized archiving and restoring of Chain Spaces and removal of delegates, with a local check of the
+ *   admin permission before submission.
+ * - Listing the delegates of a Chain Space and finding the authorization of a delegate.
+ * - Estimating the fee of every dispatch before submitting it (`estimateCreateFee`, `estimateArchiveFee`, ...).
  *
  * This module is essential for the structured management of Chain Spaces, offering robust and decentralized
  * control within the CORD ecosystem.
@@ -30,6 +34,7 @@ import type {
   ISpaceDetails,
   Option,
   ISpaceAuthorization,
+  ISpaceAuthorizationDetails,
   PermissionType,
   IChainSpace,
   CordKeyringPair,
@@ -134,6 +139,33 @@ export async function isAuthorizationStored(
   }
 }
 
+/**
+ * Generates the URI of the authorization a ChainSpace creator receives when the space is created.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param creatorUri - The DID URI of the creator of the ChainSpace.
+ * @returns The URI of the creator's authorization.
+ * @internal
+ */
+function getUriForCreatorAuthorization(
+  spaceUri: SpaceUri,
+  creatorUri: DidUri
+): AuthorizationUri {
+  const api = ConfigService.get('api')
+  const scaleEncodedAuthDigest = api
+    .createType<Bytes>('Bytes', uriToIdentifier(spaceUri))
+    .toU8a()
+  const scaleEncodedAuthDelegate = api
+    .createType<AccountId>('AccountId', Did.toChain(creatorUri))
+    .toU8a()
+
+  const authDigest = blake2AsHex(
+    Uint8Array.from([...scaleEncodedAuthDigest, ...scaleEncodedAuthDelegate])
+  )
+
+  return hashToUri(authDigest, AUTH_IDENT, AUTH_PREFIX) as AuthorizationUri
+}
+
 /**
  * Generates unique URIs for a ChainSpace and its associated authorization.
  *
@@ -172,23 +204,11 @@ export async function getUriForSpace(
   )
 
   const chainSpaceUri = hashToUri(digest, SPACE_IDENT, SPACE_PREFIX) as SpaceUri
-  const scaleEncodedAuthDigest = api
-    .createType<Bytes>('Bytes', uriToIdentifier(chainSpaceUri))
-    .toU8a()
-  const scaleEncodedAuthDelegate = api
-    .createType<AccountId>('AccountId', Did.toChain(creatorUri))
-    .toU8a()
-
-  const authDigest = blake2AsHex(
-    Uint8Array.from([...scaleEncodedAuthDigest, ...scaleEncodedAuthDelegate])
+  const authorizationUri = getUriForCreatorAuthorization(
+    chainSpaceUri,
+    creatorUri
   )
 
-  const authorizationUri = hashToUri(
-    authDigest,
-    AUTH_IDENT,
-    AUTH_PREFIX
-  ) as AuthorizationUri
-
   const chainSpaceDetails = {
     uri: chainSpaceUri,
     authorizationUri,
@@ -199,6 +219,7 @@ export async function getUriForSpace(
 
 /**
  * Prepares the creation of a chain space extrinsic for later dispatch to the blockchain.
+ *
  * @param chainSpace - The ChainSpace object containing necessary information for creating the ChainSpace on the blockchain.
  * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
  * @param signCallback - The callback function for signing the transaction.
@@ -260,6 +281,7 @@ export async function prepareCreateSpaceExtrinsic(
  * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
  * @param authorAccount - The blockchain account used for signing and submitting the transaction.
  * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.DispatchOptions`.
  * @returns A promise resolving to an object containing the ChainSpace URI and authorization ID.
  * @throws {SDKErrors.CordDispatchError} - Thrown when there's an error during the dispatch process.
  */
@@ -267,19 +289,30 @@ export async function dispatchToChain(
   chainSpace: IChainSpace,
   creatorUri: DidUri,
   authorAccount: CordKeyringPair,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<{ uri: SpaceUri; authorization: AuthorizationUri }> {
   const returnObject = {
     uri: chainSpace.uri,
     authorization: chainSpace.authorizationUri,
   }
 
+  const exists = await isChainSpaceStored(chainSpace.uri)
+  if (exists) {
+    return returnObject
+  }
+
+  const extrinsic = await prepareCreateSpaceExtrinsic(
+    chainSpace,
+    creatorUri,
+    signCallback,
+    authorAccount
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
   try {
-    const exists = await isChainSpaceStored(chainSpace.uri)
-    if (!exists) {
-        const extrinsic = await prepareCreateSpaceExtrinsic(chainSpace, creatorUri, signCallback, authorAccount)
-        await Chain.signAndSubmitTx(extrinsic, authorAccount)
-    }
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
     return returnObject
   } catch (error) {
     throw new SDKErrors.CordDispatchError(
@@ -288,13 +321,41 @@ export async function dispatchToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param chainSpace - The ChainSpace object containing necessary information for creating the ChainSpace on the blockchain.
+ * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateCreateFee(
+  chainSpace: IChainSpace,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareCreateSpaceExtrinsic(
+    chainSpace,
+    creatorUri,
+    signCallback,
+    authorAccount
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
 /**
  * Prepares the creation of a sub-space extrinsic for later dispatch to the blockchain.
+ *
  * @param chainSpace - The ChainSpace object containing necessary information for creating the ChainSpace on the blockchain.
  * @param authorAccount - The blockchain account used for signing and submitting the transaction.
- * @param parent - The chainspace under which the sub-space will be created.
  * @param count - The count of transactions permitted to be performed on the chain for the subspace.
+ * @param parent - The chainspace under which the sub-space will be created.
  * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
+ * @param signCallback - The callback function for signing the transaction.
  * @returns The prepared extrinsic ready for batch signing and submitting.
  */
 export async function prepareCreateSubSpaceExtrinsic(
@@ -342,7 +403,7 @@ export async function prepareCreateSubSpaceExtrinsic(
  * const signCallback: SignExtrinsicCallback = // ... implementation ...
  *
  * try {
- *   const result = await dispatchSubspaceCreateToChain(chainSpace, creatorUri, authorAccount, signCallback);
+ *   const result = await dispatchSubspaceCreateToChain(chainSpace, creatorUri, authorAccount, count, parent, signCallback);
  *   console.log('ChainSpace dispatched with URI:', result.uri);
  * } catch (error) {
  *   console.error('Error dispatching ChainSpace:', error);
@@ -352,7 +413,10 @@ export async function prepareCreateSubSpaceExtrinsic(
  * @param chainSpace - The ChainSpace object containing necessary information for creating the ChainSpace on the blockchain.
  * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
  * @param authorAccount - The blockchain account used for signing and submitting the transaction.
+ * @param count - The count of transactions permitted to be performed on the chain for the subspace.
+ * @param parent - The chainspace under which the sub-space will be created.
  * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.DispatchOptions`.
  * @returns A promise resolving to an object containing the ChainSpace URI and authorization ID.
  * @throws {SDKErrors.CordDispatchError} - Thrown when there's an error during the dispatch process.
  */
@@ -362,23 +426,26 @@ export async function dispatchSubspaceCreateToChain(
   authorAccount: CordKeyringPair,
   count: number,
   parent: SpaceUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<{ uri: SpaceUri; authorization: AuthorizationUri }> {
   const returnObject = {
     uri: chainSpace.uri,
     authorization: chainSpace.authorizationUri,
   }
 
+  const extrinsic = await prepareCreateSubSpaceExtrinsic(
+    chainSpace,
+    authorAccount,
+    count,
+    parent,
+    creatorUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
   try {
-    
-    const extrinsic = await prepareCreateSubSpaceExtrinsic(
-      chainSpace,
-      authorAccount,
-      count,
-      parent,
-      creatorUri,
-      signCallback
-    )
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return returnObject;
@@ -389,6 +456,39 @@ export async function dispatchSubspaceCreateToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchSubspaceCreateToChain]], building the same DID-authorized extrinsic
+ * without submitting it.
+ *
+ * @param chainSpace - The ChainSpace object containing necessary information for creating the ChainSpace on the blockchain.
+ * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param count - The count of transactions permitted to be performed on the chain for the subspace.
+ * @param parent - The chainspace under which the sub-space will be created.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateSubspaceCreateFee(
+  chainSpace: IChainSpace,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  count: number,
+  parent: SpaceUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareCreateSubSpaceExtrinsic(
+    chainSpace,
+    authorAccount,
+    count,
+    parent,
+    creatorUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
 
 
 /**
@@ -532,6 +632,46 @@ function dispatchDelegateAuthorizationTx(
   }
 }
 
+/**
+ * Prepares the delegate authorization extrinsic for later dispatch to the blockchain.
+ *
+ * @param request - The space authorization request containing necessary information for dispatching the authorization.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for delegating permissions.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @returns The prepared extrinsic, authorized by the DID of the delegator.
+ */
+export async function prepareDelegateAuthorizationExtrinsic(
+  request: ISpaceAuthorization,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  try {
+    const spaceId = uriToIdentifier(request.uri)
+    const delegateId = Did.toChain(request.delegateUri)
+    const delegatorAuthId = uriToIdentifier(authorizationUri)
+
+    const tx = dispatchDelegateAuthorizationTx(
+      request.permission,
+      spaceId,
+      delegateId,
+      delegatorAuthId
+    )
+    const extrinsic = await Did.authorizeTx(
+      request.delegatorUri as DidUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+    return extrinsic
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${error}".`
+    )
+  }
+}
+
 /**
  * Dispatches a delegate authorization transaction to the CORD blockchain.
  *
@@ -567,6 +707,7 @@ function dispatchDelegateAuthorizationTx(
  * @param authorAccount - The blockchain account used to sign and submit the transaction.
  * @param authorizationUri - The URI of the authorization used for delegating permissions.
  * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.DispatchOptions`.
  * @returns A promise resolving to the authorization ID after successful processing by the blockchain.
  * @throws {SDKErrors.CordDispatchError} - Thrown on error during the dispatch process.
  */
@@ -574,26 +715,19 @@ export async function dispatchDelegateAuthorization(
   request: ISpaceAuthorization,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<AuthorizationId> {
-  try {
-    const spaceId = uriToIdentifier(request.uri)
-    const delegateId = Did.toChain(request.delegateUri)
-    const delegatorAuthId = uriToIdentifier(authorizationUri)
+  const extrinsic = await prepareDelegateAuthorizationExtrinsic(
+    request,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
 
-    const tx = dispatchDelegateAuthorizationTx(
-      request.permission,
-      spaceId,
-      delegateId,
-      delegatorAuthId
-    )
-    const extrinsic = await Did.authorizeTx(
-      request.delegatorUri as DidUri,
-      tx,
-      signCallback,
-      authorAccount.address
-    )
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
 
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return request.authorizationUri
@@ -604,6 +738,33 @@ export async function dispatchDelegateAuthorization(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchDelegateAuthorization]], building the same DID-authorized extrinsic
+ * without submitting it.
+ *
+ * @param request - The space authorization request.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for delegating permissions.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateDelegateAuthorizationFee(
+  request: ISpaceAuthorization,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareDelegateAuthorizationExtrinsic(
+    request,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
 /**
  * Decodes the details of a space from its blockchain-encoded representation.
  *
@@ -645,12 +806,13 @@ function decodeSpaceDetailsfromChain(
  *
  * @remarks
  * This function queries the CORD blockchain to retrieve details about a specific space, identified by the `spaceUri`.
- * It decodes the blockchain data into a more accessible format. If the space details are not found or cannot be decoded,
- * the function throws an error.
+ * It decodes the blockchain data into a more accessible format. The `approved` and `archive` flags reflect the
+ * current state of the space, as changed by `sudoApproveChainSpace`, `sudoApprovalRevokeChainSpace`,
+ * `sudoApprovalRestoreChainSpace`, `dispatchArchiveToChain` and `dispatchRestoreToChain`.
  *
  * @param spaceUri - The unique identifier (URI) of the space to be fetched.
  *
- * @returns A promise that resolves to the space details if found. The details include information such as
+ * @returns A promise that resolves to the space details. The details include information such as
  *          the space URI, creator DID, transaction capacity, and other relevant data.
  *
  * @throws {SDKErrors.ChainSpaceMissingError} - Thrown when no space is found with the provided URI.
@@ -674,26 +836,26 @@ function decodeSpaceDetailsfromChain(
  */
 export async function fetchFromChain(
   spaceUri: SpaceUri
-): Promise<ISpaceDetails | null> {
+): Promise<ISpaceDetails> {
+  let spaceEntry: Option<PalletChainSpaceSpaceDetails>
   try {
     const api = ConfigService.get('api')
     const spaceId = uriToIdentifier(spaceUri)
 
-    const spaceEntry = await api.query.chainSpace.spaces(spaceId)
-    const spaceDetails = decodeSpaceDetailsfromChain(spaceEntry, spaceUri)
-
-    if (spaceDetails === null) {
-      throw new SDKErrors.ChainSpaceMissingError(
-        `There is no chain space with the provided ID "${spaceUri}" present on the chain.`
-      )
-    }
-
-    return spaceDetails
+    spaceEntry = await api.query.chainSpace.spaces(spaceId)
   } catch (error) {
-    throw new SDKErrors.CordDispatchError(
+    throw new SDKErrors.CordFetchError(
       `Error occurred while fetching from the chain: ${error}`
     )
   }
+
+  if (spaceEntry.isNone) {
+    throw new SDKErrors.ChainSpaceMissingError(
+      `There is no chain space with the provided ID "${spaceUri}" present on the chain.`
+    )
+  }
+
+  return decodeSpaceDetailsfromChain(spaceEntry, spaceUri)
 }
 
 /**
@@ -842,6 +1004,7 @@ export async function fetchAuthorizationFromChain(
 
 /**
  * Prepares an update transaction capacity extrinsic for later dispatch to the blockchain.
+ *
  * @param spaceUri - The URI of the space to update transaction capacity.
  * @param new_capacity - The new capacity to be updated.
  * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
@@ -849,7 +1012,6 @@ export async function fetchAuthorizationFromChain(
  * @param authorAccount - The blockchain account used for signing and submitting the transaction.
  * @returns The prepared extrinsic ready for batch signing and submitting.
  */
-
 export async function prepareUpdateTxCapacityExtrinsic(
   spaceUri: SpaceUri,
   new_capacity: number,
@@ -878,35 +1040,33 @@ export async function prepareUpdateTxCapacityExtrinsic(
 }
 
 /**
- * Dispatches a Sub-ChainSpace creation transaction to the CORD blockchain.
+ * Dispatches a transaction updating the transaction capacity of a sub-space to the CORD blockchain.
  *
  * @remarks
- * Responsible for creating a new ChainSpace on the blockchain. It first checks if the ChainSpace with the
- * given URI already exists to avoid duplicates. If not, it constructs and submits a transaction to create
- * the ChainSpace. The transaction requires authorization from the creator and is signed by the specified author account.
+ * The update is authorized by the DID of the creator and signed by the specified author account.
  *
  * @example
  * ```typescript
- * const chainSpace: IChainSpace = {
- *   // ... initialization of chainSpace properties ...
- * };
+ * const space: SpaceUri = 'space:cord:example_uri';
  * const creatorUri: DidUri = 'did:cord:creator_uri';
  * const authorAccount: CordKeyringPair = // ... initialization ...
  * const signCallback: SignExtrinsicCallback = // ... implementation ...
  *
  * try {
- *   const result = await dispatchSubspaceCreateToChain(chainSpace, creatorUri, authorAccount, signCallback);
- *   console.log('ChainSpace dispatched with URI:', result.uri);
+ *   const result = await dispatchUpdateTxCapacityToChain(space, creatorUri, authorAccount, 1000, signCallback);
+ *   console.log('Capacity updated for ChainSpace:', result.uri);
  * } catch (error) {
- *   console.error('Error dispatching ChainSpace:', error);
+ *   console.error('Error updating the capacity:', error);
  * }
  * ```
  *
- * @param chainSpace - The ChainSpace object containing necessary information for creating the ChainSpace on the blockchain.
+ * @param space - The URI of the sub-space.
  * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
  * @param authorAccount - The blockchain account used for signing and submitting the transaction.
+ * @param new_capacity - The new transaction capacity of the sub-space.
  * @param signCallback - The callback function for signing the transaction.
- * @returns A promise resolving to an object containing the ChainSpace URI and authorization ID.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to an object containing the ChainSpace URI.
  * @throws {SDKErrors.CordDispatchError} - Thrown when there's an error during the dispatch process.
  */
 export async function dispatchUpdateTxCapacityToChain(
@@ -914,14 +1074,18 @@ export async function dispatchUpdateTxCapacityToChain(
   creatorUri: DidUri,
   authorAccount: CordKeyringPair,
   new_capacity: number,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<{ uri: SpaceUri; }> {
   const returnObject = {
     uri: space
   }
 
+  const extrinsic = await prepareUpdateTxCapacityExtrinsic(space, new_capacity, creatorUri, signCallback, authorAccount)
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
   try {
-    const extrinsic = await prepareUpdateTxCapacityExtrinsic(space, new_capacity, creatorUri, signCallback, authorAccount)
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return returnObject;
@@ -932,3 +1096,837 @@ export async function dispatchUpdateTxCapacityToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchUpdateTxCapacityToChain]], building the same DID-authorized extrinsic
+ * without submitting it.
+ *
+ * @param space - The URI of the ChainSpace.
+ * @param creatorUri - The DID URI of the creator, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param newCapacity - The new transaction capacity of the ChainSpace.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateUpdateTxCapacityFee(
+  space: SpaceUri,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  newCapacity: number,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareUpdateTxCapacityExtrinsic(
+    space,
+    newCapacity,
+    creatorUri,
+    signCallback,
+    authorAccount
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+
+/**
+ * Checks that an authorization grants a DID admin rights over a ChainSpace.
+ *
+ * @remarks
+ * The authorization is fetched from the blockchain and must belong to the space, be delegated to `adminUri` and
+ * include the `Permission.ADMIN` bit, mirroring the checks the runtime performs for admin-only calls. Running them
+ * locally avoids paying for a transaction that would be rejected.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param adminUri - The DID URI expected to hold the admin authorization.
+ * @param authorizationUri - The URI of the authorization to check.
+ * @throws {SDKErrors.UnauthorizedError} - Thrown when the authorization belongs to another space or delegate.
+ * @throws {SDKErrors.InvalidPermissionError} - Thrown when the authorization does not include `Permission.ADMIN`.
+ *
+ * @internal
+ */
+async function checkAdminAuthorization(
+  spaceUri: SpaceUri,
+  adminUri: DidUri,
+  authorizationUri: AuthorizationUri
+): Promise<void> {
+  const authorization = await fetchAuthorizationFromChain(authorizationUri)
+  if (
+    authorization === null ||
+    authorization.uri !== spaceUri ||
+    authorization.delegateUri !== adminUri
+  ) {
+    throw new SDKErrors.UnauthorizedError(
+      `Authorization "${authorizationUri}" does not authorize "${adminUri}" on "${spaceUri}".`
+    )
+  }
+  if ((authorization.permission & Permission.ADMIN) === 0) {
+    throw new SDKErrors.InvalidPermissionError(
+      `Authorization "${authorizationUri}" does not grant the admin permission.`
+    )
+  }
+}
+
+/**
+ * Prepares an extrinsic archiving a ChainSpace for later dispatch to the blockchain.
+ *
+ * @remarks
+ * Statements can no longer be anchored in an archived space until it is restored. The admin permission of
+ * `adminUri` is checked locally before the extrinsic is built.
+ *
+ * @param spaceUri - The URI of the ChainSpace to archive.
+ * @param adminUri - The DID URI of the space admin, used to authorize the transaction.
+ * @param authorizationUri - The URI of the admin authorization of `adminUri` on the space.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param authorAccount - The blockchain account used for signing and submitting the transaction.
+ * @returns The prepared extrinsic ready for batch signing and submitting.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the admin check or the preparation fails.
+ */
+export async function prepareArchiveExtrinsic(
+  spaceUri: SpaceUri,
+  adminUri: DidUri,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  authorAccount: CordKeyringPair
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    await checkAdminAuthorization(spaceUri, adminUri, authorizationUri)
+
+    const tx = api.tx.chainSpace.archive(
+      uriToIdentifier(spaceUri),
+      uriToIdentifier(authorizationUri)
+    )
+    return await Did.authorizeTx(
+      adminUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${error}".`
+    )
+  }
+}
+
+/**
+ * Dispatches a transaction archiving a ChainSpace to the CORD blockchain.
+ *
+ * @example
+ * ```typescript
+ * await dispatchArchiveToChain(
+ *   'space:cord:example_uri',
+ *   'did:cord:admin_uri',
+ *   authorAccount,
+ *   'auth:cord:admin_authorization_uri',
+ *   adminKeys.signCallback
+ * );
+ * const { archive } = await fetchFromChain('space:cord:example_uri');
+ * console.log(archive); // true
+ * ```
+ *
+ * @param spaceUri - The URI of the ChainSpace to archive.
+ * @param adminUri - The DID URI of the space admin, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used for signing and submitting the transaction.
+ * @param authorizationUri - The URI of the admin authorization of `adminUri` on the space.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to an object containing the ChainSpace URI.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the admin check or the dispatch fails.
+ */
+export async function dispatchArchiveToChain(
+  spaceUri: SpaceUri,
+  adminUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<{ uri: SpaceUri }> {
+  const extrinsic = await prepareArchiveExtrinsic(
+    spaceUri,
+    adminUri,
+    authorizationUri,
+    signCallback,
+    authorAccount
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+
+    return { uri: spaceUri }
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+}
+
+/**
+ * Estimates the fee of [[dispatchArchiveToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param adminUri - The DID URI of the admin, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the admin.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateArchiveFee(
+  spaceUri: SpaceUri,
+  adminUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareArchiveExtrinsic(
+    spaceUri,
+    adminUri,
+    authorizationUri,
+    signCallback,
+    authorAccount
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares an extrinsic restoring an archived ChainSpace for later dispatch to the blockchain.
+ *
+ * @remarks
+ * The admin permission of `adminUri` is checked locally before the extrinsic is built.
+ *
+ * @param spaceUri - The URI of the archived ChainSpace to restore.
+ * @param adminUri - The DID URI of the space admin, used to authorize the transaction.
+ * @param authorizationUri - The URI of the admin authorization of `adminUri` on the space.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param authorAccount - The blockchain account used for signing and submitting the transaction.
+ * @returns The prepared extrinsic ready for batch signing and submitting.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the admin check or the preparation fails.
+ */
+export async function prepareRestoreExtrinsic(
+  spaceUri: SpaceUri,
+  adminUri: DidUri,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  authorAccount: CordKeyringPair
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    await checkAdminAuthorization(spaceUri, adminUri, authorizationUri)
+
+    const tx = api.tx.chainSpace.restore(
+      uriToIdentifier(spaceUri),
+      uriToIdentifier(authorizationUri)
+    )
+    return await Did.authorizeTx(
+      adminUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${error}".`
+    )
+  }
+}
+
+/**
+ * Dispatches a transaction restoring an archived ChainSpace to the CORD blockchain.
+ *
+ * @example
+ * ```typescript
+ * await dispatchRestoreToChain(
+ *   'space:cord:example_uri',
+ *   'did:cord:admin_uri',
+ *   authorAccount,
+ *   'auth:cord:admin_authorization_uri',
+ *   adminKeys.signCallback
+ * );
+ * ```
+ *
+ * @param spaceUri - The URI of the archived ChainSpace to restore.
+ * @param adminUri - The DID URI of the space admin, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used for signing and submitting the transaction.
+ * @param authorizationUri - The URI of the admin authorization of `adminUri` on the space.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to an object containing the ChainSpace URI.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the admin check or the dispatch fails.
+ */
+export async function dispatchRestoreToChain(
+  spaceUri: SpaceUri,
+  adminUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<{ uri: SpaceUri }> {
+  const extrinsic = await prepareRestoreExtrinsic(
+    spaceUri,
+    adminUri,
+    authorizationUri,
+    signCallback,
+    authorAccount
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+
+    return { uri: spaceUri }
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+}
+
+/**
+ * Estimates the fee of [[dispatchRestoreToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param adminUri - The DID URI of the admin, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the admin.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateRestoreFee(
+  spaceUri: SpaceUri,
+  adminUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareRestoreExtrinsic(
+    spaceUri,
+    adminUri,
+    authorizationUri,
+    signCallback,
+    authorAccount
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares an extrinsic removing a delegate authorization from a ChainSpace for later dispatch to the blockchain.
+ *
+ * @remarks
+ * The admin permission of `adminUri` is checked locally before the extrinsic is built.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param removeAuthorizationUri - The URI of the delegate authorization to remove.
+ * @param adminUri - The DID URI of the space admin, used to authorize the transaction.
+ * @param authorizationUri - The URI of the admin authorization of `adminUri` on the space.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param authorAccount - The blockchain account used for signing and submitting the transaction.
+ * @returns The prepared extrinsic ready for batch signing and submitting.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the admin check or the preparation fails.
+ */
+export async function prepareRemoveDelegateExtrinsic(
+  spaceUri: SpaceUri,
+  removeAuthorizationUri: AuthorizationUri,
+  adminUri: DidUri,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  authorAccount: CordKeyringPair
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    await checkAdminAuthorization(spaceUri, adminUri, authorizationUri)
+
+    const tx = api.tx.chainSpace.removeDelegate(
+      uriToIdentifier(spaceUri),
+      uriToIdentifier(removeAuthorizationUri),
+      uriToIdentifier(authorizationUri)
+    )
+    return await Did.authorizeTx(
+      adminUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${error}".`
+    )
+  }
+}
+
+/**
+ * Dispatches a transaction removing a delegate authorization from a ChainSpace to the CORD blockchain.
+ *
+ * @example
+ * ```typescript
+ * await dispatchRemoveDelegateToChain(
+ *   'space:cord:example_uri',
+ *   'auth:cord:delegate_authorization_uri',
+ *   'did:cord:admin_uri',
+ *   authorAccount,
+ *   'auth:cord:admin_authorization_uri',
+ *   adminKeys.signCallback
+ * );
+ * ```
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param removeAuthorizationUri - The URI of the delegate authorization to remove.
+ * @param adminUri - The DID URI of the space admin, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used for signing and submitting the transaction.
+ * @param authorizationUri - The URI of the admin authorization of `adminUri` on the space.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to the URI of the removed authorization.
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the admin check or the dispatch fails.
+ */
+export async function dispatchRemoveDelegateToChain(
+  spaceUri: SpaceUri,
+  removeAuthorizationUri: AuthorizationUri,
+  adminUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<AuthorizationUri> {
+  const extrinsic = await prepareRemoveDelegateExtrinsic(
+    spaceUri,
+    removeAuthorizationUri,
+    adminUri,
+    authorizationUri,
+    signCallback,
+    authorAccount
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+
+    return removeAuthorizationUri
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+}
+
+/**
+ * Estimates the fee of [[dispatchRemoveDelegateToChain]], building the same DID-authorized extrinsic
+ * without submitting it.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param removeAuthorizationUri - The URI of the authorization to be removed.
+ * @param adminUri - The DID URI of the admin, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization of the admin.
+ * @param signCallback - The callback function for signing the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateRemoveDelegateFee(
+  spaceUri: SpaceUri,
+  removeAuthorizationUri: AuthorizationUri,
+  adminUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareRemoveDelegateExtrinsic(
+    spaceUri,
+    removeAuthorizationUri,
+    adminUri,
+    authorizationUri,
+    signCallback,
+    authorAccount
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares a sudo extrinsic revoking the approval of a ChainSpace.
+ *
+ * @remarks
+ * Approval changes and transaction count resets are restricted to the chain space origin of the runtime (sudo),
+ * like `sudoApproveChainSpace`, so no space authorization is involved. A space that is no longer approved cannot
+ * be used until its approval is restored.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @returns The sudo extrinsic, to be signed by the sudo key.
+ * @throws {SDKErrors.CordDispatchError} - Thrown on error during the preparation.
+ */
+export function prepareApprovalRevokeExtrinsic(
+  spaceUri: SpaceUri
+): SubmittableExtrinsic {
+  try {
+    const api = ConfigService.get('api')
+    const tx = api.tx.chainSpace.approvalRevoke(uriToIdentifier(spaceUri))
+    return api.tx.sudo.sudo(tx)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${error}".`
+    )
+  }
+}
+
+/**
+ * Revokes the approval of a ChainSpace on the CORD blockchain using sudo privileges.
+ *
+ * @example
+ * ```typescript
+ * await sudoApprovalRevokeChainSpace(authority, 'space:cord:example_uri');
+ * const { approved } = await fetchFromChain('space:cord:example_uri');
+ * console.log(approved); // false
+ * ```
+ *
+ * @param authority - The account with sudo privileges.
+ * @param spaceUri - The URI of the ChainSpace.
+ * @throws {SDKErrors.CordDispatchError} - Thrown on error during the dispatch process.
+ */
+export async function sudoApprovalRevokeChainSpace(
+  authority: CordKeyringPair,
+  spaceUri: SpaceUri
+): Promise<void> {
+  try {
+    const sudoExtrinsic = prepareApprovalRevokeExtrinsic(spaceUri)
+    await Chain.signAndSubmitTx(sudoExtrinsic, authority)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain:"${error}".`
+    )
+  }
+}
+
+/**
+ * Prepares a sudo extrinsic restoring the approval of a ChainSpace whose approval was revoked.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @returns The sudo extrinsic, to be signed by the sudo key.
+ * @throws {SDKErrors.CordDispatchError} - Thrown on error during the preparation.
+ */
+export function prepareApprovalRestoreExtrinsic(
+  spaceUri: SpaceUri
+): SubmittableExtrinsic {
+  try {
+    const api = ConfigService.get('api')
+    const tx = api.tx.chainSpace.approvalRestore(uriToIdentifier(spaceUri))
+    return api.tx.sudo.sudo(tx)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${error}".`
+    )
+  }
+}
+
+/**
+ * Restores the approval of a ChainSpace on the CORD blockchain using sudo privileges.
+ *
+ * @example
+ * ```typescript
+ * await sudoApprovalRestoreChainSpace(authority, 'space:cord:example_uri');
+ * ```
+ *
+ * @param authority - The account with sudo privileges.
+ * @param spaceUri - The URI of the ChainSpace.
+ * @throws {SDKErrors.CordDispatchError} - Thrown on error during the dispatch process.
+ */
+export async function sudoApprovalRestoreChainSpace(
+  authority: CordKeyringPair,
+  spaceUri: SpaceUri
+): Promise<void> {
+  try {
+    const sudoExtrinsic = prepareApprovalRestoreExtrinsic(spaceUri)
+    await Chain.signAndSubmitTx(sudoExtrinsic, authority)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain:"${error}".`
+    )
+  }
+}
+
+/**
+ * Prepares a sudo extrinsic resetting the transaction count of a ChainSpace to zero.
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @returns The sudo extrinsic, to be signed by the sudo key.
+ * @throws {SDKErrors.CordDispatchError} - Thrown on error during the preparation.
+ */
+export function prepareResetTransactionCountExtrinsic(
+  spaceUri: SpaceUri
+): SubmittableExtrinsic {
+  try {
+    const api = ConfigService.get('api')
+    const tx = api.tx.chainSpace.resetTransactionCount(
+      uriToIdentifier(spaceUri)
+    )
+    return api.tx.sudo.sudo(tx)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${error}".`
+    )
+  }
+}
+
+/**
+ * Resets the transaction count of a ChainSpace on the CORD blockchain using sudo privileges.
+ *
+ * @example
+ * ```typescript
+ * await sudoResetTransactionCount(authority, 'space:cord:example_uri');
+ * const { txnUsage } = await fetchFromChain('space:cord:example_uri');
+ * console.log(txnUsage); // 0
+ * ```
+ *
+ * @param authority - The account with sudo privileges.
+ * @param spaceUri - The URI of the ChainSpace.
+ * @throws {SDKErrors.CordDispatchError} - Thrown on error during the dispatch process.
+ */
+export async function sudoResetTransactionCount(
+  authority: CordKeyringPair,
+  spaceUri: SpaceUri
+): Promise<void> {
+  try {
+    const sudoExtrinsic = prepareResetTransactionCountExtrinsic(spaceUri)
+    await Chain.signAndSubmitTx(sudoExtrinsic, authority)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain:"${error}".`
+    )
+  }
+}
+
+/**
+ * Splits an aggregated permission value into the individual permissions it contains.
+ *
+ * @param permission - The aggregated permission, as decoded by `authorizationPermissionsFromChain`.
+ * @returns The permissions set in `permission`, in the order `ASSERT`, `DELEGATE`, `ADMIN`.
+ *
+ * @internal
+ */
+function permissionListFromPermission(
+  permission: PermissionType
+): PermissionType[] {
+  return Object.values(Permission).filter((flag) => (permission & flag) !== 0)
+}
+
+/**
+ * Converts decoded authorization details into the form returned by [[listDelegates]], with the permissions split up.
+ *
+ * @param authorization - The decoded authorization details.
+ * @returns The authorization details with a list of permissions.
+ *
+ * @internal
+ */
+function toAuthorizationDetails(
+  authorization: ISpaceAuthorization
+): ISpaceAuthorizationDetails {
+  return {
+    uri: authorization.uri,
+    delegateUri: authorization.delegateUri,
+    permission: permissionListFromPermission(authorization.permission),
+    authorizationUri: authorization.authorizationUri,
+    delegatorUri: authorization.delegatorUri,
+  }
+}
+
+/**
+ * Looks up the authorizations of delegates of a ChainSpace.
+ *
+ * @remarks
+ * Authorization identifiers are derived from the space, the delegate and the DID that added the delegate, and
+ * the runtime does not index them by delegate. The delegates are read from the `delegates` storage of the space,
+ * and as only the space creator and its delegates can add delegates, the identifiers derived for every one of them
+ * as delegator are looked up in a single `authorizations.multi` query; the creator's own authorization is derived
+ * from the space and the creator alone. For a space with `n` delegates this queries `n * (n + 1)` identifiers per
+ * looked up delegate at most. Authorizations added by a DID that is neither the creator nor a delegate anymore are
+ * not found; see [[scanSpaceAuthorizations]].
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param delegateUris - (Optional) The DID URIs of the delegates to look up. Defaults to all delegates of the space.
+ * @returns A promise resolving to every authorization found, grouped by delegate in the order of `delegateUris`.
+ * @throws {SDKErrors.ChainSpaceMissingError} - Thrown when no space is found with the provided URI.
+ * @throws {SDKErrors.CordFetchError} - Thrown when an error occurs during the fetching process.
+ *
+ * @internal
+ */
+async function fetchDelegateAuthorizations(
+  spaceUri: SpaceUri,
+  delegateUris?: DidUri[]
+): Promise<ISpaceAuthorizationDetails[]> {
+  const { creatorUri } = await fetchFromChain(spaceUri)
+
+  try {
+    const api = ConfigService.get('api')
+    const spaceId = uriToIdentifier(spaceUri)
+    const delegates = (await api.query.chainSpace.delegates(spaceId)).map(
+      (delegate) => Did.fromChain(delegate)
+    )
+    const delegatorUris = [...new Set([creatorUri, ...delegates])]
+    const lookupUris = delegateUris ?? delegates
+
+    const candidates = (
+      await Promise.all(
+        lookupUris.map(async (delegateUri) => [
+          ...(delegateUri === creatorUri
+            ? [getUriForCreatorAuthorization(spaceUri, creatorUri)]
+            : []),
+          ...(await Promise.all(
+            delegatorUris.map((delegatorUri) =>
+              getUriForAuthorization(spaceUri, delegateUri, delegatorUri)
+            )
+          )),
+        ])
+      )
+    ).flat()
+    const uniqueCandidates = [...new Set(candidates)]
+
+    const entries = await api.query.chainSpace.authorizations.multi(
+      uniqueCandidates.map((authorizationUri) =>
+        uriToIdentifier(authorizationUri)
+      )
+    )
+
+    return entries.flatMap((entry, index) => {
+      if (entry.isNone) {
+        return []
+      }
+      const authorization = decodeAuthorizationDetailsfromChain(
+        entry,
+        uniqueCandidates[index]
+      )
+      return authorization.uri === spaceUri
+        ? [toAuthorizationDetails(authorization)]
+        : []
+    })
+  } catch (error) {
+    throw new SDKErrors.CordFetchError(
+      `Error occurred while fetching authorizations: ${error}`
+    )
+  }
+}
+
+/**
+ * Lists the delegates of a ChainSpace with their permissions and authorizations.
+ *
+ * @remarks
+ * The delegates are read from the `delegates` storage of the space, and their authorizations are looked up without
+ * the authorization URIs having to be known. A delegate added by several DIDs appears once for each of them, with
+ * the permissions of that authorization. A delegate added by a DID that is no longer the creator or a delegate of the
+ * space cannot be matched to its authorization and is left out; [[scanSpaceAuthorizations]] finds those as well.
+ *
+ * @example
+ * ```typescript
+ * const delegates = await listDelegates('space:cord:example_uri');
+ * delegates.forEach(({ delegateUri, permission, authorizationUri }) => {
+ *   console.log(delegateUri, permission, authorizationUri);
+ * });
+ * ```
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @returns A promise resolving to the details of every authorization found for the delegates of the space.
+ * @throws {SDKErrors.ChainSpaceMissingError} - Thrown when no space is found with the provided URI.
+ * @throws {SDKErrors.CordFetchError} - Thrown when an error occurs during the fetching process.
+ */
+export async function listDelegates(
+  spaceUri: SpaceUri
+): Promise<ISpaceAuthorizationDetails[]> {
+  return fetchDelegateAuthorizations(spaceUri)
+}
+
+/**
+ * Finds the authorizations of a delegate on a ChainSpace.
+ *
+ * @remarks
+ * Lets a delegate recover its authorization URI, needed to anchor statements in the space or to manage it,
+ * without having stored it. A delegate added by several DIDs holds one authorization for each of them, and any of
+ * them can be used within its permissions. The lookup is the one of [[listDelegates]], limited to the delegate.
+ *
+ * @example
+ * ```typescript
+ * const authorizations = await findAuthorizations('space:cord:example_uri', 'did:cord:delegate_uri');
+ * const assertion = authorizations.find(({ permission }) => permission.includes(Permission.ASSERT));
+ * if (assertion) {
+ *   console.log(assertion.authorizationUri);
+ * }
+ * ```
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param delegateUri - The DID URI of the delegate.
+ * @returns A promise resolving to the details of every authorization found for the delegate, empty if it is not a
+ *          delegate of the space.
+ * @throws {SDKErrors.ChainSpaceMissingError} - Thrown when no space is found with the provided URI.
+ * @throws {SDKErrors.CordFetchError} - Thrown when an error occurs during the fetching process.
+ */
+export async function findAuthorizations(
+  spaceUri: SpaceUri,
+  delegateUri: DidUri
+): Promise<ISpaceAuthorizationDetails[]> {
+  return fetchDelegateAuthorizations(spaceUri, [delegateUri])
+}
+
+/**
+ * Scans the whole `authorizations` storage of the chain for the authorizations granted on a ChainSpace.
+ *
+ * @remarks
+ * Unlike [[listDelegates]], this also finds authorizations added by DIDs that are no longer the creator or a
+ * delegate of the space. The runtime keeps no index of authorizations by space, so every authorization on the chain
+ * is read, one page of `pageSize` entries per query. Use it for audits rather than for routine lookups.
+ *
+ * @example
+ * ```typescript
+ * const authorizations = await scanSpaceAuthorizations('space:cord:example_uri');
+ * ```
+ *
+ * @param spaceUri - The URI of the ChainSpace.
+ * @param options - The object with named parameters.
+ * @param options.pageSize - (Optional) The number of storage entries read per query. Defaults to 1000.
+ * @returns A promise resolving to the details of every authorization granted on the space.
+ * @throws {SDKErrors.CordFetchError} - Thrown when an error occurs during the fetching process.
+ */
+export async function scanSpaceAuthorizations(
+  spaceUri: SpaceUri,
+  { pageSize = 1000 }: { pageSize?: number } = {}
+): Promise<ISpaceAuthorizationDetails[]> {
+  const api = ConfigService.get('api')
+
+  async function scanFrom(
+    startKey?: string
+  ): Promise<ISpaceAuthorizationDetails[]> {
+    const page = await api.query.chainSpace.authorizations.entriesPaged({
+      args: [],
+      pageSize,
+      startKey,
+    })
+    const found = page.flatMap(([key, entry]) => {
+      if (entry.isNone) {
+        return []
+      }
+      const authorization = decodeAuthorizationDetailsfromChain(
+        entry,
+        identifierToUri(
+          DecoderUtils.hexToString(key.args[0].toString())
+        ) as AuthorizationUri
+      )
+      return authorization.uri === spaceUri
+        ? [toAuthorizationDetails(authorization)]
+        : []
+    })
+    if (page.length < pageSize) {
+      return found
+    }
+    return [...found, ...(await scanFrom(page[page.length - 1][0].toHex()))]
+  }
+
+  try {
+    return await scanFrom()
+  } catch (error) {
+    throw new SDKErrors.CordFetchError(
+      `Error occurred while scanning authorizations: ${error}`
+    )
+  }
+}
@@ -22,6 +22,8 @@ import type {
   UriFragment,
   VerificationKeyRelationship,
   CordKeyringPair,
+  DidKeyLayout,
+  ICordKeyPair,
 } from '@cord.network/types'
 import { verificationKeyTypes } from '@cord.network/types'
 import { Crypto, SDKErrors, ss58Format, Keys, } from '@cord.network/utils'
@@ -486,6 +488,7 @@ export function didSignatureToChain(
 
 /**
  * This function fetches the DID document linked to a mnemonic.
+ * Only DIDs created with ed25519 keys at the default derivation paths are found; use [[recoverFromMnemonic]] for other key layouts.
  * @param mnemonic The secret phrase used to fetch the DID.
  * @returns  A Full DidDocument.
  */
@@ -507,7 +510,8 @@ export async function fetchFromMnemonic(mnemonic: string): Promise<DidDocument>
 }
 
 /**
- * It creates a DID on chain, and returns the mnemonic and DID document
+ * It creates a DID on chain, and returns the mnemonic and DID document.
+ * All keys are ed25519 keys and a placeholder service is added when none is given; use [[createDidFromMnemonic]] to choose the key types, derivation paths and services.
  * @param submitterAccount - The account that will be used to pay for the transaction.
  * @param mnemonic - The secret phrase 
  * @param didServiceEndpoint - The service endponits
@@ -561,7 +565,148 @@ export async function createDid(
   if (!document) {
     throw new Error('DID was not successfully created.')
   }
-  console.log(document)
 
   return { mnemonic, document: document }
-}
\ No newline at end of file
+}
+
+/**
+ * Creates a DID on chain from the given keys, signing the creation operation with a sign callback instead of raw
+ * keypairs.
+ *
+ * @param input The DID keys and services to store; no service is added if `service` is omitted or empty.
+ * @param submitterAccount The account that submits the creation operation and pays the fees.
+ * @param sign The sign callback; it is called with the `authentication` key relationship.
+ * @returns The DID document as stored on chain.
+ */
+export async function createDidFromKeys(
+  input: GetStoreTxInput,
+  submitterAccount: CordKeyringPair,
+  sign: SignExtrinsicCallback
+): Promise<DidDocument> {
+  const api = ConfigService.get('api')
+  const did = getDidUriFromKey(input.authentication[0])
+
+  const didCreationTx = await getStoreTx(
+    input,
+    submitterAccount.address,
+    async ({ data, keyRelationship }) => sign({ data, keyRelationship, did })
+  )
+  await Chain.signAndSubmitTx(didCreationTx, submitterAccount)
+
+  const encodedDid = await api.call.didApi.query(toChain(did))
+  if (encodedDid.isNone) {
+    throw new SDKErrors.DidNotFoundError(`DID "${did}" was not created`)
+  }
+  return linkedInfoFromChain(encodedDid).document
+}
+
+/**
+ * Creates a sign callback signing with the verification keypairs of a DID.
+ *
+ * @param keypairs The DID keypairs, as returned by `Keys.generateKeypairsFromLayout`.
+ * @returns The sign callback, choosing the keypair by the requested key relationship.
+ */
+export function getSignCallbackFromKeypairs(
+  keypairs: ICordKeyPair
+): SignExtrinsicCallback {
+  return async ({ data, keyRelationship }) => {
+    const keypair = keypairs[keyRelationship]
+    return {
+      signature: keypair.sign(data),
+      keyType: keypair.type,
+    }
+  }
+}
+
+/**
+ * Creates a DID on chain with keys derived from a mnemonic.
+ *
+ * @param submitterAccount The account that submits the creation operation and pays the fees.
+ * @param options The optional creation options.
+ * @param options.mnemonic The mnemonic to derive the keys from. A 24 word mnemonic is generated if omitted.
+ * @param options.layout The key type and derivation path per key relationship. Relationships that are omitted use
+ * ed25519 keys at the default paths of `Keys.getDefaultKeyLayout`.
+ * @param options.service The service endpoints of the DID. No service is added if omitted or empty.
+ * @returns The mnemonic, the DID document as stored on chain, and a sign callback for later DID operations.
+ */
+export async function createDidFromMnemonic(
+  submitterAccount: CordKeyringPair,
+  {
+    mnemonic = mnemonicGenerate(24),
+    layout = {},
+    service = [],
+  }: {
+    mnemonic?: string
+    layout?: Partial<DidKeyLayout>
+    service?: DidServiceEndpoint[]
+  } = {}
+): Promise<{
+  mnemonic: string
+  document: DidDocument
+  signCallback: SignExtrinsicCallback
+}> {
+  const keypairs = Keys.generateKeypairsFromLayout(mnemonic, {
+    ...Keys.getDefaultKeyLayout(),
+    ...layout,
+  })
+  const signCallback = getSignCallbackFromKeypairs(keypairs)
+
+  const document = await createDidFromKeys(
+    {
+      authentication: [keypairs.authentication],
+      assertionMethod: [keypairs.assertionMethod],
+      capabilityDelegation: [keypairs.capabilityDelegation],
+      keyAgreement: [keypairs.keyAgreement],
+      service,
+    },
+    submitterAccount,
+    signCallback
+  )
+
+  return { mnemonic, document, signCallback }
+}
+
+/**
+ * Finds the DID created from a mnemonic, trying each of the given key layouts in turn.
+ *
+ * @param mnemonic The mnemonic the DID keys were derived from.
+ * @param layouts The key layouts to try. Defaults to the layouts of `Keys.generateKeypairs`, which uses the default
+ * derivation paths with only ed25519, sr25519 or ecdsa keys.
+ * @returns The DID document, the layout its authentication key was found with, and a sign callback for DID
+ * operations.
+ */
+export async function recoverFromMnemonic(
+  mnemonic: string,
+  layouts: DidKeyLayout[] = [
+    Keys.getDefaultKeyLayout('ed25519'),
+    Keys.getDefaultKeyLayout('sr25519'),
+    Keys.getDefaultKeyLayout('ecdsa'),
+  ]
+): Promise<{
+  document: DidDocument
+  layout: DidKeyLayout
+  signCallback: SignExtrinsicCallback
+}> {
+  const api = ConfigService.get('api')
+
+  const candidates = layouts.map((layout) => {
+    const keypairs = Keys.generateKeypairsFromLayout(mnemonic, layout)
+    return { layout, keypairs, did: getDidUriFromKey(keypairs.authentication) }
+  })
+  const encodedDids = await Promise.all(
+    candidates.map(({ did }) => api.call.didApi.query(toChain(did)))
+  )
+
+  const index = encodedDids.findIndex((encodedDid) => encodedDid.isSome)
+  if (index === -1) {
+    throw new SDKErrors.DidNotFoundError(
+      'No DID is associated with the provided mnemonic'
+    )
+  }
+  const { layout, keypairs } = candidates[index]
+  return {
+    document: linkedInfoFromChain(encodedDids[index]).document,
+    layout,
+    signCallback: getSignCallbackFromKeypairs(keypairs),
+  }
+}
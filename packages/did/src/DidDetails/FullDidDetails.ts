@@ -1,10 +1,12 @@
 import type { Extrinsic } from '@polkadot/types/interfaces'
 import type { SubmittableExtrinsicFunction } from '@polkadot/api/types'
-import { BN } from '@polkadot/util'
+import type { Enum } from '@polkadot/types'
+import { BN, u8aConcat, u8aToHex } from '@polkadot/util'
 
 import type {
   DidUri,
   CordAddress,
+  OfflineTxPayload,
   SignExtrinsicCallback,
   SubmittableExtrinsic,
   VerificationKeyRelationship,
@@ -12,6 +14,8 @@ import type {
 
 import { SDKErrors } from '@cord.network/utils'
 import { ConfigService } from '@cord.network/config'
+import { Offline } from '@cord.network/network'
+import type { PalletDidDidDetailsDidAuthorizedCallOperation } from '@cord.network/augment-api'
 
 import {
   documentFromChain,
@@ -80,7 +84,14 @@ export function getKeyRelationshipForTx(
 // Max nonce value is (2^64) - 1
 const maxNonceValue = new BN(2).pow(new BN(64)).subn(1)
 
-function increaseNonce(currentNonce: BN, increment = 1): BN {
+/**
+ * Increases a DID nonce, wrapping around the max u64 value when reached.
+ *
+ * @param currentNonce The nonce to increase.
+ * @param increment The amount to increase the nonce by.
+ * @returns The increased nonce.
+ */
+export function increaseNonce(currentNonce: BN, increment = 1): BN {
   // Wrap around the max u64 value when reached.
   // FIXME: can we do better than this? Maybe we could expose an RPC function for this, to keep it consistent over time.
   return currentNonce.eq(maxNonceValue)
@@ -90,7 +101,7 @@ function increaseNonce(currentNonce: BN, increment = 1): BN {
 
 /**
  * Returns the next nonce to use to sign a DID operation.
- * Normally, this function should not be called directly by SDK users. Nevertheless, in advanced cases where there might be race conditions, this function can be used as the basis on which to build parallel operation queues.
+ * Normally, this function should not be called directly by SDK users. Nevertheless, in advanced cases where there might be race conditions, this function can be used as the basis on which to build parallel operation queues, like the one created by `createDidOperationQueue`.
  *
  * @param did The DID data.
  * @returns The next valid nonce, i.e., the nonce currently stored on the blockchain + 1, wrapping around the max value when reached.
@@ -244,3 +255,89 @@ export async function authorizeBatch({
 
   return batches.length === 1 ? batches[0] : batchFunction(batches)
 }
+
+/**
+ * Builds the payload for DID-authorizing an extrinsic and signing it with the submitter account on an offline
+ * machine, with `Offline.signOfflineTx` and the `sign` callback of the DID.
+ *
+ * @remarks
+ * The DID authorization refers to the latest block, and the chain only accepts it for `did.maxBlocksTxValidity`
+ * blocks after that, which is taken into account by the `validUntil` block of the payload.
+ *
+ * @param did The DID data.
+ * @param extrinsic The unsigned extrinsic to authorize.
+ * @param submitterAccount The account to bind the DID operation to, which signs and submits the transaction.
+ * @param options The signing options.
+ * @param options.txCounter The optional DID nonce to include in the operation signature. By default, it uses the next value of the nonce stored on chain.
+ * @param options.nonce The optional account nonce, see `Offline.prepareOfflineTx`.
+ * @param options.tip The optional tip, see `Offline.prepareOfflineTx`.
+ * @param options.mortality The optional number of blocks the transaction is valid for, see `Offline.prepareOfflineTx`.
+ * @returns The payload to sign offline.
+ */
+export async function prepareOfflineDidTx(
+  did: DidUri,
+  extrinsic: Extrinsic,
+  submitterAccount: CordAddress,
+  {
+    txCounter,
+    ...txOptions
+  }: {
+    txCounter?: BN
+  } & Parameters<typeof Offline.prepareOfflineTx>[2] = {}
+): Promise<OfflineTxPayload> {
+  const keyRelationship = getKeyRelationshipForTx(extrinsic)
+  if (keyRelationship === undefined) {
+    throw new SDKErrors.SDKError('No key relationship found for extrinsic')
+  }
+
+  const api = ConfigService.get('api')
+  const counter = txCounter || (await getNextNonce(did))
+  const blockNumber = await api.query.system.number()
+  const operation =
+    api.registry.createType<PalletDidDidDetailsDidAuthorizedCallOperation>(
+      api.tx.did.submitDidCall.meta.args[0].type.toString(),
+      {
+        txCounter: counter,
+        did: toChain(did),
+        call: extrinsic,
+        submitter: submitterAccount,
+        blockNumber,
+      }
+    )
+
+  const { defKeys, defIndexes } = api.registry.createType<Enum>(
+    api.tx.did.submitDidCall.meta.args[1].type.toString()
+  )
+  const signatureIndexes = Object.fromEntries(
+    defKeys.map((key, index) => [key.toLowerCase(), defIndexes[index]])
+  )
+
+  // the signature is replaced once the DID key has signed the operation
+  const placeholder = api.tx.did.submitDidCall(operation, {
+    sr25519: new Uint8Array(64),
+  })
+  const payload = await Offline.prepareOfflineTx(
+    placeholder,
+    submitterAccount,
+    txOptions
+  )
+
+  return {
+    ...payload,
+    validUntil: Math.min(
+      payload.validUntil,
+      blockNumber.toNumber() + api.consts.did.maxBlocksTxValidity.toNumber()
+    ),
+    didAuthorization: {
+      did,
+      keyRelationship,
+      txCounter: counter.toString(),
+      blockNumber: blockNumber.toNumber(),
+      operation: operation.toHex(),
+      callPrefix: u8aToHex(
+        u8aConcat(api.tx.did.submitDidCall.callIndex, operation.toU8a())
+      ),
+      signatureIndexes,
+    },
+  }
+}
@@ -22,6 +22,17 @@ export const W3C_DID_CONTEXT_URL = 'https://www.w3.org/ns/did/v1'
  * This document is extended by the context file available under the [[CORD_DID_CONTEXT_URL]].
  */
 export const W3C_SECURITY_CONTEXT_URL = securityContexts.SECURITY_CONTEXT_V2_URL
+/**
+ * URL identifying the JSON-LD context file defining the `JsonWebKey2020` verification method type and `publicKeyJwk`.
+ * Added to the JSON-LD representation of a DID document exported with the `jwk` key format.
+ */
+export const W3C_JWS_2020_CONTEXT_URL =
+  'https://w3id.org/security/suites/jws-2020/v1'
+/**
+ * URL identifying the JSON-LD context file defining the `Multikey` verification method type and `publicKeyMultibase`.
+ * Added to the JSON-LD representation of a DID document exported with the `multibase` key format.
+ */
+export const W3C_MULTIKEY_CONTEXT_URL = 'https://w3id.org/security/multikey/v1'
 /**
  * An object containing static copies of JSON-LD context files relevant to DID documents, of the form <context URL> -> context.
  * These context definitions are not supposed to change; therefore, a cached version can (and should) be used to avoid unexpected changes in definitions.
@@ -0,0 +1,181 @@
+/**
+ * @group unit/did
+ */
+
+import { u8aConcat } from '@polkadot/util'
+import { cryptoWaitReady, secp256k1Expand } from '@polkadot/util-crypto'
+
+import type {
+  DidDocument,
+  DidKeyFormat,
+  DidResourceUri,
+} from '@cord.network/types'
+import { Crypto, SDKErrors } from '@cord.network/utils'
+
+import { getDidUriFromKey } from '../Did.utils.js'
+import {
+  exportToCborDidDocument,
+  exportToDidDocument,
+  importFromCborDidDocument,
+  importFromDidDocument,
+} from './DidDocumentExporter'
+
+const keyFormats: DidKeyFormat[] = ['base58', 'multibase', 'jwk']
+
+function seed(byte: number): Uint8Array {
+  return new Uint8Array(32).fill(byte)
+}
+
+/*
+ * A document with a key of every relationship: an ed25519 authentication key, an ecdsa assertion key, a second
+ * ed25519 key for delegations and two x25519 key agreement keys.
+ */
+function makeDocument(): DidDocument {
+  const authentication = Crypto.makeKeypairFromSeed(seed(1), 'ed25519')
+  return {
+    uri: getDidUriFromKey(authentication),
+    authentication: [
+      {
+        id: '#authentication',
+        type: 'ed25519',
+        publicKey: authentication.publicKey,
+      },
+    ],
+    assertionMethod: [
+      {
+        id: '#assertion',
+        type: 'ecdsa',
+        publicKey: Crypto.makeKeypairFromSeed(seed(2), 'ecdsa').publicKey,
+      },
+    ],
+    capabilityDelegation: [
+      {
+        id: '#delegation',
+        type: 'ed25519',
+        publicKey: Crypto.makeKeypairFromSeed(seed(3), 'ed25519').publicKey,
+      },
+    ],
+    keyAgreement: [4, 5].map((byte) => ({
+      id: `#encryption-${byte}` as const,
+      type: 'x25519' as const,
+      publicKey: Crypto.makeEncryptionKeypairFromSeed(seed(byte)).publicKey,
+    })),
+    service: [
+      {
+        id: '#linked-domain',
+        type: ['LinkedDomains'],
+        serviceEndpoint: ['https://example.com'],
+      },
+    ],
+  }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+})
+
+describe('DidDocumentExporter', () => {
+  describe.each(keyFormats)('with %s keys', (keyFormat) => {
+    it.each(['application/json', 'application/ld+json'] as const)(
+      'imports the %s export of a document',
+      (mimeType) => {
+        const document = makeDocument()
+        const exported = exportToDidDocument(document, mimeType, {
+          keyFormat,
+        })
+        expect(importFromDidDocument(exported)).toEqual(document)
+      }
+    )
+
+    it('imports the CBOR export of a document', () => {
+      const document = makeDocument()
+      const encoded = exportToCborDidDocument(document, { keyFormat })
+      expect(importFromCborDidDocument(encoded)).toEqual(document)
+    })
+  })
+
+  it('encodes multibase keys with the multicodec prefix of their type', () => {
+    const exported = exportToDidDocument(makeDocument(), 'application/json', {
+      keyFormat: 'multibase',
+    })
+    // the prefixes shared by all keys of a type, as listed for did:key
+    expect(
+      exported.verificationMethod.map(({ type, publicKeyMultibase }) => [
+        type,
+        publicKeyMultibase?.slice(0, 4),
+      ])
+    ).toEqual([
+      ['Multikey', 'z6Mk'],
+      ['Multikey', 'zQ3s'],
+      ['Multikey', 'z6Mk'],
+      ['Multikey', 'z6LS'],
+      ['Multikey', 'z6LS'],
+    ])
+  })
+
+  it('encodes ecdsa keys as uncompressed secp256k1 JSON Web Keys', () => {
+    const document = makeDocument()
+    const exported = exportToDidDocument(document, 'application/json', {
+      keyFormat: 'jwk',
+    })
+    const { publicKeyJwk } = exported.verificationMethod[1]
+    expect(publicKeyJwk).toMatchObject({ kty: 'EC', crv: 'secp256k1' })
+    const { x, y } = publicKeyJwk as { x: string; y: string }
+    expect(
+      u8aConcat(Crypto.base64UrlDecode(x), Crypto.base64UrlDecode(y))
+    ).toEqual(
+      secp256k1Expand(
+        document.assertionMethod?.[0].publicKey ?? new Uint8Array()
+      )
+    )
+  })
+
+  it('exports sr25519 keys as multibase but not as JSON Web Keys', () => {
+    const authentication = Crypto.makeKeypairFromSeed(seed(6), 'sr25519')
+    const document: DidDocument = {
+      uri: getDidUriFromKey(authentication),
+      authentication: [
+        {
+          id: '#authentication',
+          type: 'sr25519',
+          publicKey: authentication.publicKey,
+        },
+      ],
+    }
+    expect(
+      importFromDidDocument(
+        exportToDidDocument(document, 'application/json', {
+          keyFormat: 'multibase',
+        })
+      )
+    ).toEqual(document)
+    expect(() =>
+      exportToDidDocument(document, 'application/json', { keyFormat: 'jwk' })
+    ).toThrow(SDKErrors.DidExporterError)
+  })
+
+  it('rejects a verification method controlled by another DID', () => {
+    const document = makeDocument()
+    const exported = exportToDidDocument(document, 'application/json')
+    const other = getDidUriFromKey(
+      Crypto.makeKeypairFromSeed(seed(7), 'ed25519')
+    )
+    const [authentication, ...rest] = exported.verificationMethod
+    expect(() =>
+      importFromDidDocument({
+        ...exported,
+        verificationMethod: [{ ...authentication, controller: other }, ...rest],
+      })
+    ).toThrow(SDKErrors.DidExporterError)
+  })
+
+  it('rejects a key agreement key used for authentication', () => {
+    const exported = exportToDidDocument(makeDocument(), 'application/json')
+    expect(() =>
+      importFromDidDocument({
+        ...exported,
+        authentication: [exported.keyAgreement?.[0] as DidResourceUri],
+      })
+    ).toThrow(SDKErrors.DidExporterError)
+  })
+})
@@ -1,20 +1,137 @@
-import { base58Encode } from '@polkadot/util-crypto'
+import { u8aConcat, u8aEq } from '@polkadot/util'
+import {
+  base58Decode,
+  base58Encode,
+  secp256k1Compress,
+  secp256k1Expand,
+} from '@polkadot/util-crypto'
 
 import type {
   DidDocument,
   ConformingDidDocument,
+  ConformingDidKey,
+  DidEncryptionKey,
+  DidKey,
+  DidKeyFormat,
+  DidPublicKeyJwk,
   DidResourceUri,
+  DidServiceEndpoint,
+  DidVerificationKey,
   JsonLDDidDocument,
   UriFragment,
 } from '@cord.network/types'
 import {
+  encryptionKeyTypes,
   encryptionKeyTypesMap,
+  verificationKeyTypes,
   verificationKeyTypesMap,
 } from '@cord.network/types'
-import { SDKErrors } from '@cord.network/utils'
-import { CORD_DID_CONTEXT_URL, W3C_DID_CONTEXT_URL } from './DidContexts.js'
+import { Cbor, Crypto, SDKErrors } from '@cord.network/utils'
+import { parse, validateUri } from '../Did.utils.js'
+import {
+  CORD_DID_CONTEXT_URL,
+  W3C_DID_CONTEXT_URL,
+  W3C_JWS_2020_CONTEXT_URL,
+  W3C_MULTIKEY_CONTEXT_URL,
+} from './DidContexts.js'
+
+/**
+ * Multicodec identifiers of the key types, as unsigned varints.
+ * See https://github.com/multiformats/multicodec/blob/master/table.csv.
+ */
+const multicodecPrefixes: Record<DidKey['type'], Uint8Array> = {
+  ed25519: new Uint8Array([0xed, 0x01]),
+  sr25519: new Uint8Array([0xef, 0x01]),
+  ecdsa: new Uint8Array([0xe7, 0x01]),
+  x25519: new Uint8Array([0xec, 0x01]),
+}
+
+function publicKeyToJwk({
+  type,
+  publicKey,
+}: Pick<DidKey, 'type' | 'publicKey'>): DidPublicKeyJwk {
+  switch (type) {
+    case 'ed25519':
+      return {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Crypto.base64UrlEncode(publicKey),
+      }
+    case 'x25519':
+      return { kty: 'OKP', crv: 'X25519', x: Crypto.base64UrlEncode(publicKey) }
+    case 'ecdsa': {
+      const expanded = secp256k1Expand(publicKey)
+      return {
+        kty: 'EC',
+        crv: 'secp256k1',
+        x: Crypto.base64UrlEncode(expanded.subarray(0, 32)),
+        y: Crypto.base64UrlEncode(expanded.subarray(32)),
+      }
+    }
+    default:
+      throw new SDKErrors.DidExporterError(
+        `Keys of type "${type}" have no JSON Web Key representation, use the "multibase" or "base58" key format`
+      )
+  }
+}
+
+function publicKeyFromJwk(
+  jwk: DidPublicKeyJwk
+): Pick<DidKey, 'type' | 'publicKey'> {
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return { type: 'ed25519', publicKey: Crypto.base64UrlDecode(jwk.x) }
+  }
+  if (jwk.kty === 'OKP' && jwk.crv === 'X25519') {
+    return { type: 'x25519', publicKey: Crypto.base64UrlDecode(jwk.x) }
+  }
+  if (jwk.kty === 'EC' && jwk.crv === 'secp256k1') {
+    const uncompressed = u8aConcat(
+      [0x04],
+      Crypto.base64UrlDecode(jwk.x),
+      Crypto.base64UrlDecode(jwk.y)
+    )
+    return { type: 'ecdsa', publicKey: secp256k1Compress(uncompressed) }
+  }
+  throw new SDKErrors.DidExporterError(
+    `Unsupported JSON Web Key "${JSON.stringify(jwk)}"`
+  )
+}
+
+function publicKeyToMultibase({
+  type,
+  publicKey,
+}: Pick<DidKey, 'type' | 'publicKey'>): string {
+  return `z${base58Encode(u8aConcat(multicodecPrefixes[type], publicKey))}`
+}
+
+function publicKeyFromMultibase(
+  multibase: string
+): Pick<DidKey, 'type' | 'publicKey'> {
+  if (!multibase.startsWith('z')) {
+    throw new SDKErrors.DidExporterError(
+      `Public key "${multibase}" is not base58btc multibase encoded`
+    )
+  }
+  const decoded = base58Decode(multibase.slice(1))
+  const entry = Object.entries(multicodecPrefixes).find(([, prefix]) =>
+    u8aEq(decoded.subarray(0, prefix.length), prefix)
+  )
+  if (!entry) {
+    throw new SDKErrors.DidExporterError(
+      `Public key "${multibase}" has an unsupported multicodec type`
+    )
+  }
+  const [type, prefix] = entry
+  return {
+    type: type as DidKey['type'],
+    publicKey: decoded.subarray(prefix.length),
+  }
+}
 
-function exportToJsonDidDocument(did: DidDocument): ConformingDidDocument {
+function exportToJsonDidDocument(
+  did: DidDocument,
+  keyFormat: DidKeyFormat
+): ConformingDidDocument {
   const {
     uri: controller,
     authentication,
@@ -31,24 +148,43 @@ function exportToJsonDidDocument(did: DidDocument): ConformingDidDocument {
     return `${controller}${keyId}`
   }
 
+  function toVerificationMethod(key: DidKey): ConformingDidKey {
+    const id = toAbsoluteUri(key.id)
+    switch (keyFormat) {
+      case 'jwk':
+        return {
+          id,
+          controller,
+          type: 'JsonWebKey2020',
+          publicKeyJwk: publicKeyToJwk(key),
+        }
+      case 'multibase':
+        return {
+          id,
+          controller,
+          type: 'Multikey',
+          publicKeyMultibase: publicKeyToMultibase(key),
+        }
+      default:
+        return {
+          id,
+          controller,
+          type:
+            key.type === 'x25519'
+              ? encryptionKeyTypesMap[key.type]
+              : verificationKeyTypesMap[key.type],
+          publicKeyBase58: base58Encode(key.publicKey),
+        }
+    }
+  }
+
   const verificationMethod: ConformingDidDocument['verificationMethod'] = [
     ...authentication,
     ...assertionMethod,
     ...capabilityDelegation,
+    ...keyAgreement,
   ]
-    .map((key) => ({ ...key, type: verificationKeyTypesMap[key.type] }))
-    .concat(
-      keyAgreement.map((key) => ({
-        ...key,
-        type: encryptionKeyTypesMap[key.type],
-      }))
-    )
-    .map(({ id, type, publicKey }) => ({
-      id: toAbsoluteUri(id),
-      controller,
-      type,
-      publicKeyBase58: base58Encode(publicKey),
-    }))
+    .map(toVerificationMethod)
     .filter(
       // remove duplicates
       ({ id }, index, array) =>
@@ -66,7 +202,7 @@ function exportToJsonDidDocument(did: DidDocument): ConformingDidDocument {
       capabilityDelegation: [toAbsoluteUri(capabilityDelegation[0].id)],
     }),
     ...(keyAgreement.length > 0 && {
-      keyAgreement: [toAbsoluteUri(keyAgreement[0].id)],
+      keyAgreement: keyAgreement.map(({ id }) => toAbsoluteUri(id)),
     }),
     ...(service.length > 0 && {
       service: service.map((endpoint) => ({
@@ -77,11 +213,20 @@ function exportToJsonDidDocument(did: DidDocument): ConformingDidDocument {
   }
 }
 
-function exportToJsonLdDidDocument(did: DidDocument): JsonLDDidDocument {
-  const conformingDocument = exportToJsonDidDocument(did)
+function exportToJsonLdDidDocument(
+  did: DidDocument,
+  keyFormat: DidKeyFormat
+): JsonLDDidDocument {
+  const conformingDocument = exportToJsonDidDocument(did, keyFormat)
+  const context = [W3C_DID_CONTEXT_URL, CORD_DID_CONTEXT_URL]
+  if (keyFormat === 'jwk') {
+    context.push(W3C_JWS_2020_CONTEXT_URL)
+  } else if (keyFormat === 'multibase') {
+    context.push(W3C_MULTIKEY_CONTEXT_URL)
+  }
   const jsonLdDocument: JsonLDDidDocument = {
     ...conformingDocument,
-    '@context': [W3C_DID_CONTEXT_URL, CORD_DID_CONTEXT_URL],
+    '@context': context,
   }
   return jsonLdDocument
 }
@@ -91,20 +236,181 @@ function exportToJsonLdDidDocument(did: DidDocument): JsonLDDidDocument {
  *
  * @param did The [[DidDocument]].
  * @param mimeType The format for the output DID Document. Accepted values are `application/json` and `application/ld+json`.
+ * @param options Optional export options.
+ * @param options.keyFormat The encoding of the public keys: `base58` (default), `multibase` or `jwk`. Sr25519 keys cannot be exported as `jwk`.
  * @returns The DID Document formatted according to the mime type provided, or an error if the format specified is not supported.
  */
 export function exportToDidDocument(
   did: DidDocument,
-  mimeType: 'application/json' | 'application/ld+json'
+  mimeType: 'application/json' | 'application/ld+json',
+  { keyFormat = 'base58' }: { keyFormat?: DidKeyFormat } = {}
 ): ConformingDidDocument {
   switch (mimeType) {
     case 'application/json':
-      return exportToJsonDidDocument(did)
+      return exportToJsonDidDocument(did, keyFormat)
     case 'application/ld+json':
-      return exportToJsonLdDidDocument(did)
+      return exportToJsonLdDidDocument(did, keyFormat)
     default:
       throw new SDKErrors.DidExporterError(
         `The MIME type "${mimeType}" not supported by any of the available exporters`
       )
   }
 }
+
+/**
+ * Export a [[DidDocument]] to the `application/did+cbor` representation of a W3C-spec conforming DID Document, the
+ * CBOR encoding of the `application/json` representation.
+ *
+ * @param did The [[DidDocument]].
+ * @param options Optional export options.
+ * @param options.keyFormat The encoding of the public keys: `base58` (default), `multibase` or `jwk`.
+ * @returns The CBOR-encoded DID Document.
+ */
+export function exportToCborDidDocument(
+  did: DidDocument,
+  options: { keyFormat?: DidKeyFormat } = {}
+): Uint8Array {
+  const encoder = new Cbor.Encoder({ useRecords: false })
+  return encoder.encode(exportToDidDocument(did, 'application/json', options))
+}
+
+/**
+ * Import a W3C-spec conforming DID Document, in any of the key formats produced by [[exportToDidDocument]], into a
+ * [[DidDocument]].
+ *
+ * Only the verification methods referenced by a verification relationship are imported. The `includedAt` block
+ * numbers of the keys are not part of a conforming DID Document, so they are not set.
+ *
+ * @param document The conforming DID Document, in `application/json` or `application/ld+json` representation.
+ * @returns The [[DidDocument]].
+ */
+export function importFromDidDocument(
+  document: ConformingDidDocument | JsonLDDidDocument
+): DidDocument {
+  const { id: uri, verificationMethod = [] } = document
+  validateUri(uri, 'Did')
+
+  function toFragment(id: string): UriFragment {
+    if (id.startsWith('#')) {
+      return id as UriFragment
+    }
+    const { did, fragment } = parse(id as DidResourceUri)
+    if (did !== uri || !fragment) {
+      throw new SDKErrors.DidExporterError(
+        `"${id}" is not a resource of the DID "${uri}"`
+      )
+    }
+    return fragment
+  }
+
+  const keys = new Map<UriFragment, DidKey>()
+  verificationMethod.forEach((method) => {
+    if (method.controller !== uri) {
+      throw new SDKErrors.DidExporterError(
+        `Verification method "${method.id}" is not controlled by "${uri}"`
+      )
+    }
+    let key: Pick<DidKey, 'type' | 'publicKey'>
+    if (method.publicKeyJwk) {
+      key = publicKeyFromJwk(method.publicKeyJwk)
+    } else if (method.publicKeyMultibase) {
+      key = publicKeyFromMultibase(method.publicKeyMultibase)
+    } else if (method.publicKeyBase58) {
+      const [type] = Object.entries({
+        ...verificationKeyTypesMap,
+        ...encryptionKeyTypesMap,
+      }).find(([, conformingType]) => conformingType === method.type) ?? [
+        undefined,
+      ]
+      if (!type) {
+        throw new SDKErrors.DidExporterError(
+          `Unsupported verification method type "${method.type}"`
+        )
+      }
+      key = {
+        type: type as DidKey['type'],
+        publicKey: base58Decode(method.publicKeyBase58),
+      }
+    } else {
+      throw new SDKErrors.DidExporterError(
+        `Verification method "${method.id}" has no public key`
+      )
+    }
+    const id = toFragment(method.id)
+    keys.set(id, { ...key, id } as DidKey)
+  })
+
+  function getKeys<T extends DidKey>(
+    ids: string[] | undefined,
+    allowedTypes: string[]
+  ): T[] {
+    return (ids ?? []).map((id) => {
+      const key = keys.get(toFragment(id))
+      if (!key) {
+        throw new SDKErrors.DidExporterError(
+          `Verification method "${id}" is not part of the DID Document`
+        )
+      }
+      if (!allowedTypes.includes(key.type)) {
+        throw new SDKErrors.DidExporterError(
+          `Key "${id}" of type "${key.type}" cannot be used for this verification relationship`
+        )
+      }
+      return key as T
+    })
+  }
+
+  const authentication = getKeys<DidVerificationKey>(
+    document.authentication,
+    verificationKeyTypes
+  )
+  if (authentication.length !== 1) {
+    throw new SDKErrors.DidExporterError(
+      'A DID Document must have exactly one authentication key'
+    )
+  }
+  const assertionMethod = getKeys<DidVerificationKey>(
+    document.assertionMethod,
+    verificationKeyTypes
+  )
+  const capabilityDelegation = getKeys<DidVerificationKey>(
+    document.capabilityDelegation,
+    verificationKeyTypes
+  )
+  const keyAgreement = getKeys<DidEncryptionKey>(
+    document.keyAgreement,
+    encryptionKeyTypes
+  )
+  const service: DidServiceEndpoint[] = (document.service ?? []).map(
+    ({ id, type, serviceEndpoint }) => ({
+      id: toFragment(id),
+      type,
+      serviceEndpoint,
+    })
+  )
+
+  return {
+    uri,
+    authentication: [authentication[0]],
+    ...(assertionMethod.length > 0 && {
+      assertionMethod: [assertionMethod[0]],
+    }),
+    ...(capabilityDelegation.length > 0 && {
+      capabilityDelegation: [capabilityDelegation[0]],
+    }),
+    ...(keyAgreement.length > 0 && { keyAgreement }),
+    ...(service.length > 0 && { service }),
+  }
+}
+
+/**
+ * Import a DID Document in `application/did+cbor` representation, as produced by [[exportToCborDidDocument]], into a
+ * [[DidDocument]].
+ *
+ * @param encoded The CBOR-encoded conforming DID Document.
+ * @returns The [[DidDocument]].
+ */
+export function importFromCborDidDocument(encoded: Uint8Array): DidDocument {
+  const decoder = new Cbor.Decoder({ useRecords: false })
+  return importFromDidDocument(decoder.decode(encoded) as ConformingDidDocument)
+}
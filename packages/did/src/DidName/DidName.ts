@@ -0,0 +1,461 @@
+/**
+ * @packageDocumentation
+ * @module DidName
+ *
+ * The `DidName` module manages human-readable names for DIDs, as stored by the `didName` pallet of the CORD
+ * blockchain. A DID name has the form `<prefix>@<suffix>`, for example `solar.sailer@cord`, and a DID can own at most
+ * one name at a time.
+ *
+ * Key functionalities include:
+ * - `validateName`: Checks the syntax of a name without connecting to the chain.
+ * - `isNameAvailable`, `fetchNameOwnership`, `fetchNameOfDid` and `isNameBanned`: Query the registration state of
+ *   names and DIDs.
+ * - `prepareRegisterExtrinsic`/`dispatchRegisterToChain` and `prepareReleaseExtrinsic`/`dispatchReleaseToChain`:
+ *   Claim and release a name, authorized by the owning DID.
+ * - `sudoBanName` and `sudoUnbanName`: Ban and unban names with sudo privileges.
+ * - `resolveByName`: Resolves a name to the DID document of its owner.
+ *
+ * @example
+ * ```typescript
+ * if (await isNameAvailable('solar.sailer@cord')) {
+ *   await dispatchRegisterToChain(
+ *     'solar.sailer@cord',
+ *     didUri,
+ *     authorAccount,
+ *     signCallback
+ *   );
+ * }
+ * const { document } = await resolveByName('solar.sailer@cord');
+ * ```
+ */
+
+import type {
+  CordAddress,
+  CordKeyringPair,
+  DidNameOwnership,
+  DidResolutionResult,
+  DidUri,
+  SignExtrinsicCallback,
+  SubmittableExtrinsic,
+} from '@cord.network/types'
+import { SDKErrors } from '@cord.network/utils'
+import { ConfigService } from '@cord.network/config'
+import { Chain } from '@cord.network/network'
+
+import { fromChain, toChain } from '../Did.chain.js'
+import type { DidName } from '../Did.rpc.js'
+import { linkedInfoFromChain } from '../Did.rpc.js'
+import { authorizeTx } from '../DidDetails/FullDidDetails.js'
+
+const NAME_PART_REGEX = /^[a-z0-9._-]+$/
+
+/**
+ * Checks the syntax of a DID name.
+ *
+ * @remarks
+ * A name consists of a prefix and a suffix separated by a single `@`. Both parts may only contain lowercase ASCII
+ * letters, digits, `.`, `-` and `_`. The length limits of the chain are checked by `isNameAvailable` and
+ * `prepareRegisterExtrinsic`, as they are read from the chain constants.
+ *
+ * @param name - The DID name to check.
+ * @throws {SDKErrors.DidNameError} If the name is malformed.
+ *
+ * @example
+ * ```typescript
+ * validateName('solar.sailer@cord'); // passes
+ * validateName('Solar Sailer'); // throws
+ * ```
+ */
+export function validateName(name: DidName): void {
+  const parts = name.split('@')
+  if (parts.length !== 2) {
+    throw new SDKErrors.DidNameError(
+      `DID name "${name}" must have the form "<prefix>@<suffix>"`
+    )
+  }
+  const [prefix, suffix] = parts
+  if (!NAME_PART_REGEX.test(prefix) || !NAME_PART_REGEX.test(suffix)) {
+    throw new SDKErrors.DidNameError(
+      `DID name "${name}" may only contain lowercase letters, digits, ".", "-" and "_" around the "@"`
+    )
+  }
+}
+
+/**
+ * Checks the length of a DID name against the limits configured on chain.
+ *
+ * @param name - The DID name, already checked by `validateName`.
+ * @throws {SDKErrors.DidNameError} If the name or its prefix is too short or too long.
+ *
+ * @internal
+ */
+function checkNameLength(name: DidName): void {
+  const api = ConfigService.get('api')
+  const { length } = new TextEncoder().encode(name)
+  const [prefix] = name.split('@')
+
+  const minNameLength = api.consts.didName.minNameLength.toNumber()
+  const maxNameLength = api.consts.didName.maxNameLength.toNumber()
+  const maxPrefixLength = api.consts.didName.maxPrefixLength.toNumber()
+  if (length < minNameLength || length > maxNameLength) {
+    throw new SDKErrors.DidNameError(
+      `DID name "${name}" must be between ${minNameLength} and ${maxNameLength} bytes long`
+    )
+  }
+  if (prefix.length > maxPrefixLength) {
+    throw new SDKErrors.DidNameError(
+      `The prefix of DID name "${name}" must be at most ${maxPrefixLength} bytes long`
+    )
+  }
+}
+
+/**
+ * Checks whether a DID name is banned.
+ *
+ * @param name - The DID name.
+ * @returns A promise resolving to `true` if the name is banned.
+ *
+ * @example
+ * ```typescript
+ * const banned = await isNameBanned('solar.sailer@cord');
+ * ```
+ */
+export async function isNameBanned(name: DidName): Promise<boolean> {
+  const api = ConfigService.get('api')
+  const encoded = await api.query.didName.banned(name)
+  return encoded.isSome
+}
+
+/**
+ * Fetches the registration of a DID name.
+ *
+ * @param name - The DID name.
+ * @returns A promise resolving to the owner DID and registration block of the name, or `null` if it is not
+ * registered.
+ * @throws {SDKErrors.CordFetchError} If the query fails.
+ *
+ * @example
+ * ```typescript
+ * const ownership = await fetchNameOwnership('solar.sailer@cord');
+ * console.log(ownership?.owner, ownership?.registeredAt);
+ * ```
+ */
+export async function fetchNameOwnership(
+  name: DidName
+): Promise<DidNameOwnership | null> {
+  const api = ConfigService.get('api')
+  let encoded
+  try {
+    encoded = await api.query.didName.owner(name)
+  } catch (error) {
+    throw new SDKErrors.CordFetchError(
+      `Error occurred while fetching the owner of DID name "${name}": ${error}`
+    )
+  }
+  if (encoded.isNone) {
+    return null
+  }
+  const { owner, registeredAt } = encoded.unwrap()
+  return {
+    name,
+    owner: fromChain(owner),
+    registeredAt: registeredAt.toNumber(),
+  }
+}
+
+/**
+ * Fetches the name owned by a DID.
+ *
+ * @param did - The DID URI.
+ * @returns A promise resolving to the name of the DID, or `null` if it does not own one.
+ * @throws {SDKErrors.CordFetchError} If the query fails.
+ *
+ * @example
+ * ```typescript
+ * const name = await fetchNameOfDid('did:cord:3x...');
+ * ```
+ */
+export async function fetchNameOfDid(did: DidUri): Promise<DidName | null> {
+  const api = ConfigService.get('api')
+  let encoded
+  try {
+    encoded = await api.query.didName.names(toChain(did))
+  } catch (error) {
+    throw new SDKErrors.CordFetchError(
+      `Error occurred while fetching the DID name of "${did}": ${error}`
+    )
+  }
+  return encoded.isSome ? encoded.unwrap().toUtf8() : null
+}
+
+/**
+ * Checks whether a DID name can be registered.
+ *
+ * @param name - The DID name.
+ * @returns A promise resolving to `true` if the name is neither registered nor banned.
+ * @throws {SDKErrors.DidNameError} If the name is malformed or violates the length limits of the chain.
+ *
+ * @example
+ * ```typescript
+ * if (!(await isNameAvailable('solar.sailer@cord'))) {
+ *   console.log('Pick another name');
+ * }
+ * ```
+ */
+export async function isNameAvailable(name: DidName): Promise<boolean> {
+  validateName(name)
+  checkNameLength(name)
+
+  const [banned, ownership] = await Promise.all([
+    isNameBanned(name),
+    fetchNameOwnership(name),
+  ])
+  return !banned && ownership === null
+}
+
+/**
+ * Prepares an extrinsic registering a DID name, authorized by the DID that will own it.
+ *
+ * @param name - The DID name to register.
+ * @param did - The DID URI that will own the name.
+ * @param submitter - The account that will submit the extrinsic.
+ * @param signCallback - The callback signing with the authentication key of the DID.
+ * @returns A promise resolving to the DID-authorized extrinsic.
+ * @throws {SDKErrors.DidNameError} If the name is malformed, not available, or the DID already owns a name.
+ *
+ * @example
+ * ```typescript
+ * const extrinsic = await prepareRegisterExtrinsic(
+ *   'solar.sailer@cord',
+ *   didUri,
+ *   authorAccount.address,
+ *   signCallback
+ * );
+ * ```
+ */
+export async function prepareRegisterExtrinsic(
+  name: DidName,
+  did: DidUri,
+  submitter: CordAddress,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  const api = ConfigService.get('api')
+
+  if (!(await isNameAvailable(name))) {
+    throw new SDKErrors.DidNameError(`DID name "${name}" is not available`)
+  }
+  const currentName = await fetchNameOfDid(did)
+  if (currentName !== null) {
+    throw new SDKErrors.DidNameError(
+      `The DID "${did}" already owns the name "${currentName}"`
+    )
+  }
+
+  const tx = api.tx.didName.register(name)
+  return authorizeTx(did, tx, signCallback, submitter)
+}
+
+/**
+ * Registers a DID name on the CORD blockchain.
+ *
+ * @param name - The DID name to register.
+ * @param did - The DID URI that will own the name.
+ * @param authorAccount - The account that signs and submits the extrinsic.
+ * @param signCallback - The callback signing with the authentication key of the DID.
+ * @returns A promise resolving to the registration of the name.
+ * @throws {SDKErrors.DidNameError} If the name cannot be registered by the DID.
+ * @throws {SDKErrors.CordDispatchError} If the dispatch fails.
+ *
+ * @example
+ * ```typescript
+ * const { registeredAt } = await dispatchRegisterToChain(
+ *   'solar.sailer@cord',
+ *   didUri,
+ *   authorAccount,
+ *   signCallback
+ * );
+ * ```
+ */
+export async function dispatchRegisterToChain(
+  name: DidName,
+  did: DidUri,
+  authorAccount: CordKeyringPair,
+  signCallback: SignExtrinsicCallback
+): Promise<DidNameOwnership> {
+  const extrinsic = await prepareRegisterExtrinsic(
+    name,
+    did,
+    authorAccount.address,
+    signCallback
+  )
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+
+  const ownership = await fetchNameOwnership(name)
+  if (ownership === null || ownership.owner !== did) {
+    throw new SDKErrors.CordDispatchError(
+      `DID name "${name}" was not registered to "${did}"`
+    )
+  }
+  return ownership
+}
+
+/**
+ * Prepares an extrinsic releasing the name owned by a DID, authorized by that DID.
+ *
+ * @param did - The DID URI owning the name.
+ * @param submitter - The account that will submit the extrinsic.
+ * @param signCallback - The callback signing with the authentication key of the DID.
+ * @returns A promise resolving to the DID-authorized extrinsic.
+ * @throws {SDKErrors.DidNameError} If the DID does not own a name.
+ *
+ * @example
+ * ```typescript
+ * const extrinsic = await prepareReleaseExtrinsic(
+ *   didUri,
+ *   authorAccount.address,
+ *   signCallback
+ * );
+ * ```
+ */
+export async function prepareReleaseExtrinsic(
+  did: DidUri,
+  submitter: CordAddress,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  const api = ConfigService.get('api')
+
+  if ((await fetchNameOfDid(did)) === null) {
+    throw new SDKErrors.DidNameError(`The DID "${did}" does not own a name`)
+  }
+
+  const tx = api.tx.didName.release()
+  return authorizeTx(did, tx, signCallback, submitter)
+}
+
+/**
+ * Releases the name owned by a DID, making it available for registration again.
+ *
+ * @param did - The DID URI owning the name.
+ * @param authorAccount - The account that signs and submits the extrinsic.
+ * @param signCallback - The callback signing with the authentication key of the DID.
+ * @throws {SDKErrors.DidNameError} If the DID does not own a name.
+ * @throws {SDKErrors.CordDispatchError} If the dispatch fails.
+ *
+ * @example
+ * ```typescript
+ * await dispatchReleaseToChain(didUri, authorAccount, signCallback);
+ * ```
+ */
+export async function dispatchReleaseToChain(
+  did: DidUri,
+  authorAccount: CordKeyringPair,
+  signCallback: SignExtrinsicCallback
+): Promise<void> {
+  const extrinsic = await prepareReleaseExtrinsic(
+    did,
+    authorAccount.address,
+    signCallback
+  )
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+}
+
+/**
+ * Bans a DID name using sudo privileges. A registered name is released, and a banned name cannot be registered
+ * until it is unbanned.
+ *
+ * @param authority - The account with sudo privileges.
+ * @param name - The DID name to ban.
+ * @throws {SDKErrors.CordDispatchError} If the dispatch fails.
+ *
+ * @example
+ * ```typescript
+ * await sudoBanName(authority, 'offensive.name@cord');
+ * ```
+ */
+export async function sudoBanName(
+  authority: CordKeyringPair,
+  name: DidName
+): Promise<void> {
+  try {
+    const api = ConfigService.get('api')
+    const sudoExtrinsic = api.tx.sudo.sudo(api.tx.didName.ban(name))
+    await Chain.signAndSubmitTx(sudoExtrinsic, authority)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+}
+
+/**
+ * Lifts the ban of a DID name using sudo privileges.
+ *
+ * @param authority - The account with sudo privileges.
+ * @param name - The banned DID name.
+ * @throws {SDKErrors.CordDispatchError} If the dispatch fails.
+ *
+ * @example
+ * ```typescript
+ * await sudoUnbanName(authority, 'offensive.name@cord');
+ * ```
+ */
+export async function sudoUnbanName(
+  authority: CordKeyringPair,
+  name: DidName
+): Promise<void> {
+  try {
+    const api = ConfigService.get('api')
+    const sudoExtrinsic = api.tx.sudo.sudo(api.tx.didName.unban(name))
+    await Chain.signAndSubmitTx(sudoExtrinsic, authority)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+}
+
+/**
+ * Resolves a DID name to the DID document of its owner.
+ *
+ * @param name - The DID name.
+ * @returns A promise resolving to the DID document, its metadata and the name, or `null` if no DID owns the name.
+ * @throws {SDKErrors.DidNameError} If the name is malformed.
+ *
+ * @example
+ * ```typescript
+ * const resolved = await resolveByName('solar.sailer@cord');
+ * console.log(resolved?.document?.uri);
+ * ```
+ */
+export async function resolveByName(
+  name: DidName
+): Promise<DidResolutionResult | null> {
+  validateName(name)
+  const api = ConfigService.get('api')
+
+  const encoded = await api.call.didApi.queryByName(name)
+  if (encoded.isNone) {
+    return null
+  }
+  const { document, didName } = linkedInfoFromChain(encoded)
+
+  return {
+    document,
+    metadata: {
+      deactivated: false,
+    },
+    didName: didName ?? name,
+  }
+}
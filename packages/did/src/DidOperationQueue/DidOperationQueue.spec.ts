@@ -0,0 +1,124 @@
+/**
+ * @group unit/did
+ */
+
+import { BN } from '@polkadot/util'
+import type { Extrinsic } from '@polkadot/types/interfaces'
+
+import type {
+  CordKeyringPair,
+  DidUri,
+  ISubmittableResult,
+} from '@cord.network/types'
+import { ConfigService } from '@cord.network/config'
+import { Chain } from '@cord.network/network'
+
+import * as FullDidDetails from '../DidDetails/FullDidDetails.js'
+import { createDidOperationQueue } from './DidOperationQueue'
+
+jest.mock('@cord.network/network', () => {
+  const actual = jest.requireActual('@cord.network/network')
+  return {
+    ...actual,
+    Chain: { ...actual.Chain, submitSignedTx: jest.fn() },
+  }
+})
+jest.mock('../DidDetails/FullDidDetails.js', () => ({
+  authorizeTx: jest.fn(),
+  getNextNonce: jest.fn(),
+  increaseNonce: (nonce: BN) => nonce.addn(1),
+}))
+
+const did = 'did:cord:3questioner' as DidUri
+const submitterAccount = {
+  address: 'submitter',
+} as unknown as CordKeyringPair
+const extrinsic = {} as Extrinsic
+
+const submitSignedTx = jest.mocked(Chain.submitSignedTx)
+const authorizeTx = jest.mocked(FullDidDetails.authorizeTx)
+const getNextNonce = jest.mocked(FullDidDetails.getNextNonce)
+
+/*
+ * A submission result of an extrinsic failing with the given module error, as `makeSubscriptionPromise` rejects with
+ * it once `rejectOn` matches.
+ */
+function failedResult(section: string, method: string): ISubmittableResult {
+  const meta = { section, method, name: method }
+  return {
+    dispatchError: {
+      isModule: true,
+      asModule: { registry: { findMetaError: () => meta } },
+    },
+  } as unknown as ISubmittableResult
+}
+
+const includedResult = { isInBlock: true } as unknown as ISubmittableResult
+
+describe('DidOperationQueue', () => {
+  const signedNonces: string[] = []
+
+  beforeEach(() => {
+    signedNonces.length = 0
+    ConfigService.set({
+      api: {
+        rpc: {
+          system: { accountNextIndex: async () => ({ toBn: () => new BN(7) }) },
+        },
+      },
+    } as any)
+    getNextNonce.mockResolvedValue(new BN(1))
+    authorizeTx.mockImplementation(
+      async (_did, _tx, _sign, _address, opts) =>
+        ({
+          signAsync: async (_signer: unknown, { nonce }: { nonce: BN }) => {
+            signedNonces.push(`${opts?.txCounter?.toString()}/${nonce}`)
+            return {}
+          },
+        }) as any
+    )
+  })
+
+  it('retries an operation rejected with did.InvalidNonce with nonces read from the chain again', async () => {
+    submitSignedTx
+      .mockRejectedValueOnce(failedResult('did', 'InvalidNonce'))
+      .mockResolvedValueOnce(includedResult)
+    const queue = createDidOperationQueue({
+      did,
+      sign: jest.fn(),
+      submitterAccount,
+    })
+
+    await expect(queue.add(extrinsic)).resolves.toBe(includedResult)
+    expect(submitSignedTx).toHaveBeenCalledTimes(2)
+    expect(getNextNonce).toHaveBeenCalledTimes(2)
+    expect(signedNonces).toEqual(['1/7', '1/7'])
+  })
+
+  it('rejects an operation failing with another module error without retrying it', async () => {
+    const failure = failedResult('statement', 'UnauthorizedOperation')
+    submitSignedTx.mockRejectedValueOnce(failure)
+    const queue = createDidOperationQueue({
+      did,
+      sign: jest.fn(),
+      submitterAccount,
+    })
+
+    await expect(queue.add(extrinsic)).rejects.toBe(failure)
+    expect(submitSignedTx).toHaveBeenCalledTimes(1)
+  })
+
+  it('gives up once maxRetries is reached', async () => {
+    const failure = failedResult('did', 'InvalidNonce')
+    submitSignedTx.mockRejectedValue(failure)
+    const queue = createDidOperationQueue({
+      did,
+      sign: jest.fn(),
+      submitterAccount,
+      maxRetries: 2,
+    })
+
+    await expect(queue.add(extrinsic)).rejects.toBe(failure)
+    expect(submitSignedTx).toHaveBeenCalledTimes(3)
+  })
+})
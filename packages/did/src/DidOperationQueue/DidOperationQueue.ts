@@ -0,0 +1,276 @@
+/**
+ * @packageDocumentation
+ * @module DidOperationQueue
+ *
+ * The `DidOperationQueue` module submits many DID-authorized operations of a single DID at once. Every DID operation
+ * carries a nonce that has to be exactly one more than the last nonce used on chain, and every extrinsic carries the
+ * nonce of the submitting account. Calling `authorizeTx` and `Chain.signAndSubmitTx` in parallel reads both nonces
+ * from the chain for each call, so concurrent operations end up with the same nonces and all but one of them fail.
+ *
+ * A queue reserves both nonces locally instead. Operations are signed and handed to the transaction pool one after
+ * the other, in the order they were added, and then wait for inclusion concurrently. Failed operations are retried
+ * with fresh nonces, after the queue has synchronized its nonces with the chain again.
+ *
+ * @example
+ * ```typescript
+ * const queue = createDidOperationQueue({
+ *   did: issuerDid.uri,
+ *   sign: issuerKeys.signCallback,
+ *   submitterAccount: authorAccount,
+ * });
+ * const results = await Promise.all(
+ *   statements.map((statement) => queue.add(statement.tx))
+ * );
+ * ```
+ */
+
+import type { Extrinsic } from '@polkadot/types/interfaces'
+import type { RegistryError } from '@polkadot/types/types'
+import type { BN } from '@polkadot/util'
+
+import type {
+  CordKeyringPair,
+  DidUri,
+  ISubmittableResult,
+  SignExtrinsicCallback,
+  SubscriptionPromise,
+} from '@cord.network/types'
+import { ConfigService } from '@cord.network/config'
+import { Chain, ErrorHandler } from '@cord.network/network'
+
+import {
+  authorizeTx,
+  getNextNonce,
+  increaseNonce,
+} from '../DidDetails/FullDidDetails.js'
+
+/**
+ * A queue submitting DID-authorized operations of a single DID concurrently.
+ */
+export interface DidOperationQueue {
+  /**
+   * Authorizes an extrinsic with the DID of the queue, signs it with the submitter account and submits it.
+   *
+   * @param extrinsic The unsigned extrinsic to authorize.
+   * @returns A promise resolving to the submission result, according to the submit options of the queue.
+   */
+  add: (extrinsic: Extrinsic) => Promise<ISubmittableResult>
+  /**
+   * Waits until every operation added to the queue has settled.
+   *
+   * @returns A promise resolving once the queue is empty.
+   */
+  onIdle: () => Promise<void>
+  /**
+   * Discards the locally reserved nonces, so they are read from the chain again before the next operation is
+   * signed. Needed when the DID or the submitter account was used outside of the queue.
+   */
+  resync: () => void
+}
+
+type ReservedNonces = {
+  did: BN
+  account: BN
+}
+
+/**
+ * Checks whether a submission failed because of a nonce that was already used or skipped, so that a retry with
+ * fresh nonces can succeed.
+ *
+ * @param error The error the submission was rejected with.
+ * @returns True if the operation can be retried.
+ *
+ * @internal
+ */
+function isNonceError(error: unknown): boolean {
+  if (Chain.getTxRetryReason(error) !== undefined) return true
+  // a failed extrinsic rejects with its submission result, carrying the dispatch error
+  const { dispatchError } = (error ?? {}) as Partial<ISubmittableResult>
+  if (!dispatchError) return false
+  const { section, method } = (ErrorHandler.getExtrinsicError(
+    error as ISubmittableResult
+  ) ?? {}) as Partial<RegistryError>
+  return section === 'did' && method === 'InvalidNonce'
+}
+
+/**
+ * Creates a queue that submits DID-authorized operations of a single DID concurrently, managing the DID nonce and the
+ * nonce of the submitter account locally.
+ *
+ * @remarks
+ * Operations are signed and submitted to the transaction pool one at a time, in the order they were added. An
+ * operation only holds its nonces once the pool has accepted it, so an operation failing before that, for example
+ * because the sign callback throws, does not leave a gap. After acceptance, operations wait for inclusion
+ * concurrently.
+ *
+ * When an operation fails, the local nonces are discarded. Before the next operation is signed, the queue waits for
+ * all submitted operations to settle and reads the nonces from the chain again. Operations that failed because of an
+ * outdated or invalid nonce are added to the end of the queue again, up to `maxRetries` times, so they may be
+ * included out of order. Other failures reject the promise returned by `add`.
+ *
+ * The DID and the submitter account should not be used outside of the queue while it holds operations; call
+ * `resync` if they were.
+ *
+ * @param options - The object with named parameters.
+ * @param options.did - The DID authorizing the operations.
+ * @param options.sign - The callback signing the DID operations.
+ * @param options.submitterAccount - The account signing and submitting the extrinsics.
+ * @param options.maxRetries - (Optional) How often an operation failing because of its nonces is retried. Defaults
+ * to 3.
+ * @param options.submitOptions - (Optional) The options passed to `Chain.submitSignedTx`, for example to resolve
+ * operations on inclusion instead of finalization.
+ * @returns The operation queue.
+ *
+ * @example
+ * ```typescript
+ * const queue = createDidOperationQueue({
+ *   did: issuerDid.uri,
+ *   sign: issuerKeys.signCallback,
+ *   submitterAccount: authorAccount,
+ *   submitOptions: { resolveOn: Chain.IS_IN_BLOCK },
+ * });
+ * statements.forEach((statement) => {
+ *   queue.add(statement.tx).catch((error) => console.error(error));
+ * });
+ * await queue.onIdle();
+ * ```
+ */
+export function createDidOperationQueue({
+  did,
+  sign,
+  submitterAccount,
+  maxRetries = 3,
+  submitOptions = {},
+}: {
+  did: DidUri
+  sign: SignExtrinsicCallback
+  submitterAccount: CordKeyringPair
+  maxRetries?: number
+  submitOptions?: Partial<SubscriptionPromise.Options>
+}): DidOperationQueue {
+  const rejectOn =
+    submitOptions.rejectOn ??
+    ((result: ISubmittableResult) =>
+      Chain.EXTRINSIC_FAILED(result) || Chain.IS_ERROR(result))
+
+  let nonces: ReservedNonces | undefined
+  let submissionLock: Promise<unknown> = Promise.resolve()
+  let submitted = 0
+  let pending = 0
+  let submittedWaiters: Array<() => void> = []
+  let idleWaiters: Array<() => void> = []
+
+  function waitForSubmitted(): Promise<void> {
+    if (submitted === 0) {
+      return Promise.resolve()
+    }
+    return new Promise((resolve) => {
+      submittedWaiters.push(resolve)
+    })
+  }
+
+  async function fetchNonces(): Promise<ReservedNonces> {
+    const api = ConfigService.get('api')
+    const [didNonce, accountNonce] = await Promise.all([
+      getNextNonce(did),
+      api.rpc.system.accountNextIndex(submitterAccount.address),
+    ])
+    return { did: didNonce, account: accountNonce.toBn() }
+  }
+
+  /*
+   * Signs and submits an operation; only ever runs for one operation at a time. Resolves once the transaction pool
+   * has accepted the operation, with the promise tracking it from there on.
+   */
+  async function submit(
+    extrinsic: Extrinsic
+  ): Promise<{ result: Promise<ISubmittableResult> }> {
+    if (!nonces) {
+      await waitForSubmitted()
+      nonces = await fetchNonces()
+    }
+    const { did: txCounter, account } = nonces
+
+    const authorized = await authorizeTx(
+      did,
+      extrinsic,
+      sign,
+      submitterAccount.address,
+      { txCounter }
+    )
+    const signed = await authorized.signAsync(submitterAccount, {
+      nonce: account,
+    })
+
+    let markAccepted: () => void
+    const accepted = new Promise<void>((resolve) => {
+      markAccepted = resolve
+    })
+    const result = Chain.submitSignedTx(signed, {
+      ...submitOptions,
+      rejectOn: (update: ISubmittableResult) => {
+        markAccepted()
+        return rejectOn(update)
+      },
+    })
+    await Promise.race([accepted, result])
+
+    nonces = { did: increaseNonce(txCounter), account: account.addn(1) }
+    submitted += 1
+    return {
+      result: result.finally(() => {
+        submitted -= 1
+        if (submitted === 0) {
+          const waiters = submittedWaiters
+          submittedWaiters = []
+          waiters.forEach((resolve) => resolve())
+        }
+      }),
+    }
+  }
+
+  async function run(
+    extrinsic: Extrinsic,
+    retriesLeft: number
+  ): Promise<ISubmittableResult> {
+    try {
+      const submission = submissionLock.then(() => submit(extrinsic))
+      submissionLock = submission.catch(() => undefined)
+      const { result } = await submission
+      return await result
+    } catch (error) {
+      nonces = undefined
+      if (retriesLeft <= 0 || !isNonceError(error)) {
+        throw error
+      }
+      return run(extrinsic, retriesLeft - 1)
+    }
+  }
+
+  return {
+    add: async (extrinsic) => {
+      pending += 1
+      try {
+        return await run(extrinsic, maxRetries)
+      } finally {
+        pending -= 1
+        if (pending === 0) {
+          const waiters = idleWaiters
+          idleWaiters = []
+          waiters.forEach((resolve) => resolve())
+        }
+      }
+    },
+    onIdle: () => {
+      if (pending === 0) {
+        return Promise.resolve()
+      }
+      return new Promise((resolve) => {
+        idleWaiters.push(resolve)
+      })
+    },
+    resync: () => {
+      nonces = undefined
+    },
+  }
+}
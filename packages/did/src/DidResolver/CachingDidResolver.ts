@@ -0,0 +1,203 @@
+import type { AccountId32 } from '@polkadot/types/interfaces'
+
+import type {
+  DidResolutionCache,
+  DidResolutionCacheEntry,
+  DidResolutionResult,
+  DidResolve,
+  DidResolveKey,
+  DidResolveService,
+  DidUri,
+} from '@cord.network/types'
+import { ConfigService } from '@cord.network/config'
+
+import { fromChain } from '../Did.chain.js'
+import { parse } from '../Did.utils.js'
+import { resolve, resolveKey, resolveService } from './DidResolver.js'
+
+/**
+ * A DID resolver caching resolution results.
+ */
+export interface CachingDidResolver {
+  /**
+   * Resolves a DID, using the cached result while it is fresh.
+   */
+  resolve: DidResolve
+  /**
+   * Resolves a DID key through the cache. Can be passed as `didResolveKey` to the signature verification functions.
+   */
+  resolveKey: DidResolveKey
+  /**
+   * Resolves a DID service endpoint through the cache.
+   */
+  resolveService: DidResolveService
+  /**
+   * Removes the cached result of a DID.
+   */
+  invalidate: (did: DidUri) => Promise<void>
+  /**
+   * Stops listening to chain events. The resolver keeps working, relying on the TTL only.
+   */
+  close: () => void
+}
+
+/**
+ * Creates an in-memory cache evicting the least recently used DID once it holds `maxEntries` DIDs.
+ *
+ * @param maxEntries The maximum number of cached DIDs.
+ * @returns The cache, to be passed to [[createCachingResolver]].
+ */
+export function createLruCache(maxEntries = 1000): DidResolutionCache {
+  const entries = new Map<DidUri, DidResolutionCacheEntry>()
+
+  return {
+    get: (did) => {
+      const entry = entries.get(did)
+      if (entry) {
+        // Re-insert the entry to mark it as the most recently used one.
+        entries.delete(did)
+        entries.set(did, entry)
+      }
+      return entry
+    },
+    set: (did, entry) => {
+      entries.delete(did)
+      entries.set(did, entry)
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as DidUri)
+      }
+    },
+    delete: (did) => {
+      entries.delete(did)
+    },
+    clear: () => {
+      entries.clear()
+    },
+  }
+}
+
+/**
+ * Creates a DID resolver that caches resolution results, so verifying many signatures of the same DIDs only
+ * queries the chain once per DID.
+ *
+ * Cached results expire after `ttl` milliseconds. In addition, once the first DID is resolved the resolver
+ * subscribes to the events of the chain and drops the cached result of a DID as soon as a `did` pallet event reports
+ * it as created, updated or deleted, or its DID name is registered or released. A banned DID name clears the whole
+ * cache, as the event does not identify the owner. Concurrent resolutions of the same DID share one query.
+ *
+ * @param options The optional resolver options.
+ * @param options.cache The storage backend. Defaults to an in-memory LRU cache holding 1000 DIDs.
+ * @param options.ttl The time in milliseconds a resolution result is used for. Defaults to 60 seconds.
+ * @param options.invalidateOnEvents Whether to drop cached results on chain events. Defaults to `true`.
+ * @returns The caching resolver.
+ *
+ * @example
+ * ```typescript
+ * const resolver = createCachingResolver({ ttl: 5 * 60 * 1000 });
+ * await Promise.all(
+ *   ratings.map((rating) =>
+ *     verifySignature(rating.digest, rating.signature, rating.providerDid, resolver.resolveKey)
+ *   )
+ * );
+ * resolver.close();
+ * ```
+ */
+export function createCachingResolver({
+  cache = createLruCache(),
+  ttl = 60_000,
+  invalidateOnEvents = true,
+}: {
+  cache?: DidResolutionCache
+  ttl?: number
+  invalidateOnEvents?: boolean
+} = {}): CachingDidResolver {
+  const pending = new Map<DidUri, Promise<DidResolutionResult | null>>()
+  let subscription: Promise<() => void> | undefined
+  let closed = false
+  // Increased on every invalidation, so results queried before it are not cached.
+  let generation = 0
+
+  function subscribeToEvents(): void {
+    if (!invalidateOnEvents || subscription || closed) {
+      return
+    }
+    const api = ConfigService.get('api')
+    subscription = api.query.system.events(async (records) => {
+      const changedDids = new Set<DidUri>()
+      let nameBanned = false
+      records.forEach(({ event: { section, method, data } }) => {
+        if (
+          section === 'did' &&
+          ['Created', 'Updated', 'Deleted'].includes(method)
+        ) {
+          changedDids.add(fromChain(data[data.length - 1] as AccountId32))
+        } else if (
+          section === 'didName' &&
+          ['DidNameRegistered', 'DidNameReleased'].includes(method)
+        ) {
+          changedDids.add(fromChain(data[0] as AccountId32))
+        } else if (section === 'didName' && method === 'DidNameBanned') {
+          nameBanned = true
+        }
+      })
+      if (changedDids.size === 0 && !nameBanned) {
+        return
+      }
+      generation += 1
+      if (nameBanned) {
+        await cache.clear()
+        return
+      }
+      await Promise.all([...changedDids].map((did) => cache.delete(did)))
+    })
+  }
+
+  async function resolveAndCache(
+    did: DidUri
+  ): Promise<DidResolutionResult | null> {
+    const queriedAt = generation
+    const result = await resolve(did)
+    if (queriedAt === generation) {
+      await cache.set(did, { result, expiresAt: Date.now() + ttl })
+    }
+    return result
+  }
+
+  async function cachedResolve(
+    didUri: DidUri
+  ): Promise<DidResolutionResult | null> {
+    const { did } = parse(didUri)
+    subscribeToEvents()
+
+    const entry = await cache.get(did)
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.result
+    }
+
+    const inFlight = pending.get(did)
+    if (inFlight) {
+      return inFlight
+    }
+    const resolution = resolveAndCache(did).finally(() => {
+      pending.delete(did)
+    })
+    pending.set(did, resolution)
+    return resolution
+  }
+
+  return {
+    resolve: cachedResolve,
+    resolveKey: (keyUri, expectedVerificationMethod) =>
+      resolveKey(keyUri, expectedVerificationMethod, cachedResolve),
+    resolveService: (serviceUri) => resolveService(serviceUri, cachedResolve),
+    invalidate: async (did) => {
+      generation += 1
+      await cache.delete(parse(did).did)
+    },
+    close: () => {
+      closed = true
+      subscription?.then((unsubscribe) => unsubscribe())
+      subscription = undefined
+    },
+  }
+}
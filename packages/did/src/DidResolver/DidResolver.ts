@@ -2,6 +2,7 @@ import type {
   ConformingDidResolutionResult,
   DidKey,
   DidResolutionResult,
+  DidResolve,
   DidResourceUri,
   DidUri,
   KeyRelationship,
@@ -170,11 +171,13 @@ export function resolvedKeyToKey(key: ResolvedDidKey): DidKey {
  *
  * @param keyUri The DID key URI.
  * @param expectedVerificationMethod Optional key relationship the key has to belong to.
+ * @param didResolve Optional function resolving the DID of the key. Defaults to [[resolve]].
  * @returns The details associated with the key.
  */
 export async function resolveKey(
   keyUri: DidResourceUri,
-  expectedVerificationMethod?: KeyRelationship
+  expectedVerificationMethod?: KeyRelationship,
+  didResolve: DidResolve = resolve
 ): Promise<ResolvedDidKey> {
   const { did, fragment: keyId } = parse(keyUri)
 
@@ -185,7 +188,7 @@ export async function resolveKey(
     )
   }
 
-  const resolved = await resolve(did)
+  const resolved = await didResolve(did)
   if (!resolved) {
     throw new SDKErrors.DidNotFoundError()
   }
@@ -224,10 +227,12 @@ export async function resolveKey(
  * Resolve a DID service URI to the service details.
  *
  * @param serviceUri The DID service URI.
+ * @param didResolve Optional function resolving the DID of the service. Defaults to [[resolve]].
  * @returns The details associated with the service endpoint.
  */
 export async function resolveService(
-  serviceUri: DidResourceUri
+  serviceUri: DidResourceUri,
+  didResolve: DidResolve = resolve
 ): Promise<ResolvedDidServiceEndpoint> {
   const { did, fragment: serviceId } = parse(serviceUri)
 
@@ -238,7 +243,7 @@ export async function resolveService(
     )
   }
 
-  const resolved = await resolve(did)
+  const resolved = await didResolve(did)
   if (!resolved) {
     throw new SDKErrors.DidNotFoundError()
   }
@@ -0,0 +1,184 @@
+/**
+ * @group unit/did
+ */
+
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+
+import type {
+  DidDocument,
+  DidResolutionResult,
+  DidResolve,
+  DidUri,
+} from '@cord.network/types'
+import { Cbor, Crypto } from '@cord.network/utils'
+
+import { getDidUriFromKey } from '../Did.utils.js'
+import {
+  UNIVERSAL_RESOLVER_PATH,
+  handleUniversalResolverRequest,
+} from './UniversalResolverDriver'
+
+const RESOLUTION_RESULT =
+  'application/ld+json;profile="https://w3id.org/did-resolution"'
+
+let document: DidDocument
+let deleted: DidUri
+let didResolve: jest.MockedFunction<DidResolve>
+
+function request(path: string, accept?: string) {
+  return handleUniversalResolverRequest(
+    `${UNIVERSAL_RESOLVER_PATH}${path}`,
+    accept,
+    { didResolve }
+  )
+}
+
+function jsonBody({ body }: { body: string | Uint8Array }) {
+  return JSON.parse(body as string)
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  const authentication = Crypto.makeKeypairFromSeed(new Uint8Array(32).fill(1))
+  document = {
+    uri: getDidUriFromKey(authentication),
+    authentication: [
+      {
+        id: '#authentication',
+        type: 'ed25519',
+        publicKey: authentication.publicKey,
+      },
+    ],
+  }
+  deleted = getDidUriFromKey(
+    Crypto.makeKeypairFromSeed(new Uint8Array(32).fill(2))
+  )
+})
+
+beforeEach(() => {
+  didResolve = jest.fn(async (did): Promise<DidResolutionResult | null> => {
+    if (did === document.uri) {
+      return { document, metadata: { deactivated: false } }
+    }
+    if (did === deleted) {
+      return { metadata: { deactivated: true } }
+    }
+    return null
+  })
+})
+
+describe('handleUniversalResolverRequest', () => {
+  describe('Accept negotiation', () => {
+    it.each([
+      [undefined, RESOLUTION_RESULT],
+      ['*/*', RESOLUTION_RESULT],
+      ['application/*', RESOLUTION_RESULT],
+      [RESOLUTION_RESULT, RESOLUTION_RESULT],
+      ['application/ld+json', 'application/did+ld+json'],
+      ['application/did+ld+json', 'application/did+ld+json'],
+      ['application/json', 'application/did+json'],
+      ['application/did+json', 'application/did+json'],
+      ['application/did+cbor', 'application/did+cbor'],
+      ['Application/DID+JSON', 'application/did+json'],
+      ['text/html, application/did+json', 'application/did+json'],
+      [
+        'application/did+json;q=0.5, application/did+ld+json',
+        'application/did+ld+json',
+      ],
+      [
+        'application/did+cbor;q=0, application/did+json',
+        'application/did+json',
+      ],
+      [
+        'application/did+json;q=0.2, application/ld+json; profile="https://w3id.org/did-resolution"; q=0.9',
+        RESOLUTION_RESULT,
+      ],
+    ])('answers "%s" with %s', async (accept, contentType) => {
+      const response = await request(document.uri, accept)
+      expect(response.status).toBe(200)
+      expect(response.headers['Content-Type']).toBe(contentType)
+    })
+
+    it.each(['text/html', 'application/did+json;q=0', ''])(
+      'rejects "%s" as not supported',
+      async (accept) => {
+        const response = await request(document.uri, accept)
+        expect(response.status).toBe(406)
+        expect(jsonBody(response).didResolutionMetadata.error).toBe(
+          'representationNotSupported'
+        )
+        expect(didResolve).not.toHaveBeenCalled()
+      }
+    )
+
+    it('returns the same document as JSON and CBOR', async () => {
+      const json = jsonBody(await request(document.uri, 'application/did+json'))
+      const { body } = await request(document.uri, 'application/did+cbor')
+      expect(
+        new Cbor.Decoder({ useRecords: false }).decode(body as Uint8Array)
+      ).toEqual(json)
+      expect(json).not.toHaveProperty('@context')
+    })
+
+    it('adds the JSON-LD context to the JSON-LD document', async () => {
+      const ldJson = jsonBody(
+        await request(document.uri, 'application/did+ld+json')
+      )
+      expect(ldJson['@context']).toContain('https://www.w3.org/ns/did/v1')
+    })
+
+    it('wraps the document into a resolution result', async () => {
+      const result = jsonBody(await request(document.uri, RESOLUTION_RESULT))
+      expect(result).toMatchObject({
+        didDocument: { id: document.uri },
+        didResolutionMetadata: { contentType: 'application/did+ld+json' },
+        didDocumentMetadata: { deactivated: false },
+      })
+    })
+
+    it('dereferences a key in the negotiated representation', async () => {
+      const keyUri = `${document.uri}#authentication`
+      const key = jsonBody(
+        await request(encodeURIComponent(keyUri), 'application/did+json')
+      )
+      expect(key).toMatchObject({ id: keyUri, controller: document.uri })
+
+      const result = jsonBody(await request(encodeURIComponent(keyUri)))
+      expect(result.contentStream).toEqual(key)
+    })
+  })
+
+  it('answers a deleted DID with an id-only document', async () => {
+    const response = await request(deleted, 'application/did+json')
+    expect(response.status).toBe(410)
+    expect(jsonBody(response)).toEqual({ id: deleted })
+  })
+
+  it('answers an unknown DID with not found', async () => {
+    const unknown = getDidUriFromKey(
+      Crypto.makeKeypairFromSeed(new Uint8Array(32).fill(3))
+    )
+    const response = await request(unknown)
+    expect(response.status).toBe(404)
+    expect(jsonBody(response).didResolutionMetadata.error).toBe('notFound')
+  })
+
+  it.each([
+    ['did:cord:invalid', 'invalidDid'],
+    ['did%3Acord%3A%ZZ', 'invalidDidUrl'],
+  ])('answers "%s" with %s', async (path, error) => {
+    const response = await request(path)
+    expect(response.status).toBe(400)
+    expect(jsonBody(response).didResolutionMetadata.error).toBe(error)
+  })
+
+  it('answers a failing resolution with an internal error', async () => {
+    didResolve.mockRejectedValue(new Error('Connection lost'))
+    const response = await request(document.uri)
+    expect(response.status).toBe(500)
+    expect(jsonBody(response).didResolutionMetadata).toEqual({
+      error: 'internalError',
+      errorMessage: 'Connection lost',
+    })
+  })
+})
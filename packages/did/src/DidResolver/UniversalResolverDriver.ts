@@ -0,0 +1,389 @@
+/**
+ * @packageDocumentation
+ * @module UniversalResolverDriver
+ *
+ * The `UniversalResolverDriver` module exposes CORD DID resolution over HTTP, following the driver contract of the
+ * [DIF Universal Resolver](https://github.com/decentralized-identity/universal-resolver). DIDs are resolved with
+ * `GET /1.0/identifiers/<did>`, and DID URLs with a fragment are dereferenced to the key or service they identify, so
+ * other ecosystems can resolve CORD DIDs without using the SDK.
+ *
+ * @example
+ * ```typescript
+ * await Cord.connect('wss://your-cord-instance.com');
+ * const server = await startUniversalResolverDriver({ port: 8080 });
+ * // curl -H 'Accept: application/did+ld+json' http://localhost:8080/1.0/identifiers/did:cord:3...
+ * ```
+ */
+
+import type { Server } from 'node:http'
+
+import type {
+  ConformingDidDocument,
+  ConformingDidKey,
+  ConformingDidServiceEndpoint,
+  DidKeyFormat,
+  DidResolutionMetadata,
+  DidResolutionResult,
+  DidResolve,
+  DidResourceUri,
+  DidUri,
+} from '@cord.network/types'
+import { Cbor, SDKErrors } from '@cord.network/utils'
+
+import { parse } from '../Did.utils.js'
+import { exportToDidDocument } from '../DidDocumentExporter/DidDocumentExporter.js'
+import { resolve, resolveKey, resolveService } from './DidResolver.js'
+
+/**
+ * The path under which DIDs are resolved, as defined by the Universal Resolver driver contract.
+ */
+export const UNIVERSAL_RESOLVER_PATH = '/1.0/identifiers/'
+
+const DID_RESOLUTION_CONTEXT_URL = 'https://w3id.org/did-resolution/v1'
+const DID_RESOLUTION_PROFILE = 'https://w3id.org/did-resolution'
+const RESOLUTION_RESULT_CONTENT_TYPE = `application/ld+json;profile="${DID_RESOLUTION_PROFILE}"`
+
+type Representation =
+  | 'application/did+ld+json'
+  | 'application/did+json'
+  | 'application/did+cbor'
+  | 'resolutionResult'
+
+/**
+ * The HTTP response of the driver to a resolution request.
+ */
+export interface UniversalResolverResponse {
+  status: number
+  headers: Record<string, string>
+  body: string | Uint8Array
+}
+
+/**
+ * The options of the driver.
+ */
+export interface UniversalResolverDriverOptions {
+  /**
+   * The function resolving DIDs, for example the `resolve` function of a caching resolver. Defaults to [[resolve]].
+   */
+  didResolve?: DidResolve
+  /**
+   * The encoding of the public keys in the returned documents. Defaults to `base58`.
+   */
+  keyFormat?: DidKeyFormat
+}
+
+/**
+ * Picks the representation to return for the `Accept` header of a request, honouring the quality values of the
+ * listed media types.
+ *
+ * @param accept The value of the `Accept` header.
+ * @returns The representation, or `undefined` if none of the accepted media types is supported.
+ *
+ * @internal
+ */
+function negotiateRepresentation(accept: string): Representation | undefined {
+  const mediaRanges = accept
+    .split(',')
+    .map((mediaRange) => {
+      const [mediaType, ...parameters] = mediaRange
+        .split(';')
+        .map((part) => part.trim())
+      const params = Object.fromEntries(
+        parameters.map((parameter) => {
+          const [name, value = ''] = parameter.split('=')
+          return [name.trim().toLowerCase(), value.trim().replace(/^"|"$/g, '')]
+        })
+      )
+      const quality = params.q !== undefined ? Number(params.q) : 1
+      return { mediaType: mediaType.toLowerCase(), params, quality }
+    })
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+
+  const representations = mediaRanges.map(
+    ({ mediaType, params }): Representation | undefined => {
+      switch (mediaType) {
+        case 'application/ld+json':
+          return params.profile === DID_RESOLUTION_PROFILE
+            ? 'resolutionResult'
+            : 'application/did+ld+json'
+        case 'application/did+ld+json':
+          return 'application/did+ld+json'
+        case 'application/json':
+        case 'application/did+json':
+          return 'application/did+json'
+        case 'application/did+cbor':
+          return 'application/did+cbor'
+        case '*/*':
+        case 'application/*':
+          return 'resolutionResult'
+        default:
+          return undefined
+      }
+    }
+  )
+  return representations.find(Boolean)
+}
+
+function jsonResponse(
+  status: number,
+  contentType: string,
+  body: unknown
+): UniversalResolverResponse {
+  return {
+    status,
+    headers: { 'Content-Type': contentType },
+    body: JSON.stringify(body),
+  }
+}
+
+function errorResponse(
+  status: number,
+  error: NonNullable<DidResolutionMetadata['error']>,
+  errorMessage: string
+): UniversalResolverResponse {
+  return jsonResponse(status, RESOLUTION_RESULT_CONTENT_TYPE, {
+    '@context': DID_RESOLUTION_CONTEXT_URL,
+    didDocument: null,
+    didResolutionMetadata: { error, errorMessage },
+    didDocumentMetadata: {},
+  })
+}
+
+/**
+ * Encodes a document or dereferenced resource in the negotiated representation.
+ *
+ * @internal
+ */
+function contentResponse(
+  status: number,
+  representation: Exclude<Representation, 'resolutionResult'>,
+  content: unknown
+): UniversalResolverResponse {
+  if (representation === 'application/did+cbor') {
+    return {
+      status,
+      headers: { 'Content-Type': representation },
+      body: new Cbor.Encoder({ useRecords: false }).encode(content),
+    }
+  }
+  return jsonResponse(status, representation, content)
+}
+
+/**
+ * Finds the verification method or service endpoint a DID URL with a fragment identifies.
+ *
+ * @internal
+ */
+async function dereferenceFragment(
+  didUrl: DidResourceUri,
+  resolved: DidResolutionResult,
+  didDocument: ConformingDidDocument
+): Promise<ConformingDidKey | ConformingDidServiceEndpoint | undefined> {
+  // The DID is already resolved, so key and service resolution must not query the chain again.
+  const didResolve: DidResolve = async () => resolved
+  try {
+    const { id } = await resolveKey(didUrl, undefined, didResolve)
+    // Return the key as encoded in the document, in the requested key format.
+    return didDocument.verificationMethod.find((key) => key.id === id)
+  } catch (error) {
+    if (!(error instanceof SDKErrors.DidNotFoundError)) {
+      throw error
+    }
+  }
+  try {
+    return await resolveService(didUrl, didResolve)
+  } catch (error) {
+    if (!(error instanceof SDKErrors.DidNotFoundError)) {
+      throw error
+    }
+    return undefined
+  }
+}
+
+/**
+ * Answers a request of the Universal Resolver driver contract, independent of the HTTP server in use.
+ *
+ * Resolving a DID returns its document with status 200, or an id-only document with status 410 if the DID was
+ * deleted. Dereferencing a DID URL with a fragment returns the verification method or service endpoint it identifies.
+ * Errors are returned as DID resolution results with the `error` set in the resolution metadata: `invalidDid` and
+ * `invalidDidUrl` with status 400, `notFound` with status 404, `representationNotSupported` with status 406 and
+ * `internalError` with status 500.
+ *
+ * @param path The path of the request, for example `/1.0/identifiers/did:cord:3...`. The DID may be URL-encoded, which
+ * is needed to pass a fragment.
+ * @param accept The `Accept` header of the request. Supported are `application/did+ld+json`, `application/did+json`,
+ * `application/did+cbor` and the DID resolution result, `application/ld+json;profile="https://w3id.org/did-resolution"`,
+ * which is also returned for `*` wildcards and if the header is missing.
+ * @param options The optional driver options.
+ * @param options.didResolve The function resolving DIDs. Defaults to [[resolve]].
+ * @param options.keyFormat The encoding of the public keys in the returned documents. Defaults to `base58`.
+ * @returns The status, headers and body of the response.
+ */
+export async function handleUniversalResolverRequest(
+  path: string,
+  accept = '*/*',
+  {
+    didResolve = resolve,
+    keyFormat = 'base58',
+  }: UniversalResolverDriverOptions = {}
+): Promise<UniversalResolverResponse> {
+  const [pathname] = path.split('?')
+  if (!pathname.startsWith(UNIVERSAL_RESOLVER_PATH)) {
+    return errorResponse(404, 'notFound', `Unknown path "${pathname}"`)
+  }
+  const encodedDidUrl = pathname.slice(UNIVERSAL_RESOLVER_PATH.length)
+
+  const representation = negotiateRepresentation(accept)
+  if (!representation) {
+    return errorResponse(
+      406,
+      'representationNotSupported',
+      `None of the media types "${accept}" is supported`
+    )
+  }
+
+  let didUrl = encodedDidUrl as DidResourceUri
+  let parsed: { did: DidUri; fragment?: string }
+  try {
+    didUrl = decodeURIComponent(encodedDidUrl) as DidResourceUri
+    parsed = parse(didUrl)
+  } catch (error) {
+    if (error instanceof URIError) {
+      return errorResponse(
+        400,
+        'invalidDidUrl',
+        `"${encodedDidUrl}" is not a valid URL-encoded DID URL`
+      )
+    }
+    return errorResponse(
+      400,
+      didUrl.includes('#') ? 'invalidDidUrl' : 'invalidDid',
+      `"${didUrl}" is not a valid CORD DID`
+    )
+  }
+  const { did, fragment } = parsed
+
+  try {
+    const resolved = await didResolve(did)
+    if (!resolved) {
+      return errorResponse(404, 'notFound', `DID ${did} not found (on chain)`)
+    }
+    const { document, metadata, didName } = resolved
+    const didDocument:
+      | ConformingDidDocument
+      | Pick<ConformingDidDocument, 'id'> =
+      document && !metadata.deactivated
+        ? exportToDidDocument(
+            document,
+            representation === 'application/did+ld+json' ||
+              representation === 'resolutionResult'
+              ? 'application/ld+json'
+              : 'application/json',
+            { keyFormat }
+          )
+        : { id: did }
+    if (document && didName) {
+      ;(didDocument as ConformingDidDocument).alsoKnownAs = didName
+    }
+    // Deleted DIDs resolve to an id-only document.
+    const status = metadata.deactivated ? 410 : 200
+
+    if (fragment && 'verificationMethod' in didDocument) {
+      const content = await dereferenceFragment(didUrl, resolved, didDocument)
+      if (!content) {
+        return errorResponse(
+          404,
+          'notFound',
+          `No key or service "${didUrl}" found in the DID`
+        )
+      }
+      if (representation === 'resolutionResult') {
+        return jsonResponse(200, RESOLUTION_RESULT_CONTENT_TYPE, {
+          '@context': DID_RESOLUTION_CONTEXT_URL,
+          contentStream: content,
+          dereferencingMetadata: { contentType: 'application/did+ld+json' },
+          contentMetadata: metadata,
+        })
+      }
+      return contentResponse(200, representation, content)
+    }
+
+    if (representation === 'resolutionResult') {
+      return jsonResponse(status, RESOLUTION_RESULT_CONTENT_TYPE, {
+        '@context': DID_RESOLUTION_CONTEXT_URL,
+        didDocument,
+        didResolutionMetadata: { contentType: 'application/did+ld+json' },
+        didDocumentMetadata: metadata,
+      })
+    }
+    return contentResponse(status, representation, didDocument)
+  } catch (error) {
+    return errorResponse(
+      500,
+      'internalError',
+      error instanceof Error ? error.message : String(error)
+    )
+  }
+}
+
+/**
+ * Starts an HTTP server implementing the Universal Resolver driver contract for CORD DIDs; see
+ * [[handleUniversalResolverRequest]] for the responses. Only runs in Node.js.
+ *
+ * The server resolves DIDs with the API connection of the SDK, so `Cord.connect` must have been called before.
+ *
+ * @param options The optional server and driver options.
+ * @param options.port The port to listen on. Defaults to 8080.
+ * @param options.hostname The hostname to listen on. Defaults to all interfaces.
+ * @param options.didResolve The function resolving DIDs. Defaults to [[resolve]].
+ * @param options.keyFormat The encoding of the public keys in the returned documents. Defaults to `base58`.
+ * @returns The listening server; call its `close` method to stop it.
+ */
+export async function startUniversalResolverDriver({
+  port = 8080,
+  hostname,
+  ...options
+}: UniversalResolverDriverOptions & {
+  port?: number
+  hostname?: string
+} = {}): Promise<Server> {
+  // Imported on demand, so the module can be bundled for browsers.
+  const { createServer } = await import('node:http')
+
+  const server = createServer((request, response) => {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.writeHead(405, { Allow: 'GET, HEAD' }).end()
+      return
+    }
+    handleUniversalResolverRequest(
+      request.url ?? '/',
+      request.headers.accept,
+      options
+    )
+      .then(({ status, headers, body }) => {
+        response.writeHead(status, headers)
+        response.end(request.method === 'HEAD' ? undefined : body)
+      })
+      .catch((error) => {
+        const { status, headers, body } = errorResponse(
+          500,
+          'internalError',
+          error instanceof Error ? error.message : String(error)
+        )
+        if (!response.headersSent) {
+          response.writeHead(status, headers)
+        }
+        response.end(request.method === 'HEAD' ? undefined : body)
+      })
+  })
+
+  await new Promise<void>((resolveListening, rejectListening) => {
+    server.once('error', rejectListening)
+    server.listen(port, hostname, () => {
+      server.off('error', rejectListening)
+      resolveListening()
+    })
+  })
+  return server
+}
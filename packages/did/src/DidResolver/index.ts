@@ -1 +1,3 @@
 export * from './DidResolver.js'
+export * from './CachingDidResolver.js'
+export * from './UniversalResolverDriver.js'
@@ -0,0 +1,250 @@
+/**
+ * @group unit/did
+ */
+
+import type {
+  DidDocument,
+  DidServiceEndpoint,
+  DidUpdate,
+  DidUri,
+  NewDidEncryptionKey,
+  NewDidVerificationKey,
+} from '@cord.network/types'
+import { ConfigService } from '@cord.network/config'
+import { SDKErrors } from '@cord.network/utils'
+
+import { getUpdateExtrinsics, verifyUpdatedDocument } from './DidUpdateBuilder'
+
+const did = 'did:cord:3rotator' as DidUri
+
+function verificationKey(byte: number): NewDidVerificationKey {
+  return { type: 'ed25519', publicKey: new Uint8Array(32).fill(byte) }
+}
+
+function encryptionKey(byte: number): NewDidEncryptionKey {
+  return { type: 'x25519', publicKey: new Uint8Array(32).fill(byte) }
+}
+
+const endpoint: DidServiceEndpoint = {
+  id: '#endpoint',
+  type: ['LinkedDomains'],
+  serviceEndpoint: ['https://old.example.com'],
+}
+
+const document: DidDocument = {
+  uri: did,
+  authentication: [{ id: '#auth', ...verificationKey(1) }],
+  assertionMethod: [{ id: '#assert', ...verificationKey(2) }],
+  capabilityDelegation: [{ id: '#delegate', ...verificationKey(3) }],
+  keyAgreement: [
+    { id: '#enc-1', ...encryptionKey(4) },
+    { id: '#enc-2', ...encryptionKey(5) },
+  ],
+  service: [endpoint],
+}
+
+const newEndpoint: DidServiceEndpoint = {
+  ...endpoint,
+  serviceEndpoint: ['https://new.example.com'],
+}
+
+// a rotation of all keys, replacing a key agreement key and the details of the service endpoint
+const rotation: DidUpdate[] = [
+  { action: 'setAuthenticationKey', key: verificationKey(11) },
+  { action: 'setAssertionKey', key: verificationKey(12) },
+  { action: 'removeDelegationKey' },
+  { action: 'removeKeyAgreementKey', id: '#enc-1' },
+  { action: 'addKeyAgreementKey', key: encryptionKey(14) },
+  { action: 'removeService', id: '#endpoint' },
+  { action: 'addService', service: newEndpoint },
+]
+
+// the document after the rotation, with the IDs the chain assigns to new keys
+const rotatedDocument: DidDocument = {
+  uri: did,
+  authentication: [{ id: '#auth-new', ...verificationKey(11) }],
+  assertionMethod: [{ id: '#assert-new', ...verificationKey(12) }],
+  keyAgreement: [
+    { id: '#enc-new', ...encryptionKey(14) },
+    { id: '#enc-2', ...encryptionKey(5) },
+  ],
+  service: [newEndpoint],
+}
+
+describe('verifyUpdatedDocument', () => {
+  it('accepts a document with the keys and services the updates lead to', () => {
+    expect(() =>
+      verifyUpdatedDocument(document, rotation, rotatedDocument)
+    ).not.toThrow()
+  })
+
+  it('names every part of the document that differs', () => {
+    expect(() =>
+      verifyUpdatedDocument(document, rotation, {
+        ...rotatedDocument,
+        authentication: document.authentication,
+        capabilityDelegation: document.capabilityDelegation,
+        keyAgreement: document.keyAgreement,
+      })
+    ).toThrow(
+      'does not have the expected authentication key, delegation key, key agreement keys after the update'
+    )
+  })
+
+  it('rejects a service endpoint with outdated details', () => {
+    expect(() =>
+      verifyUpdatedDocument(document, rotation, {
+        ...rotatedDocument,
+        service: [endpoint],
+      })
+    ).toThrow(SDKErrors.DidError)
+  })
+
+  it.each<[string, DidUpdate[]]>([
+    [
+      'a key of a type not allowed for authentication',
+      [
+        {
+          action: 'setAuthenticationKey',
+          key: encryptionKey(11) as unknown as NewDidVerificationKey,
+        },
+      ],
+    ],
+    [
+      'a key of a type not allowed for key agreement',
+      [
+        {
+          action: 'addKeyAgreementKey',
+          key: verificationKey(11) as unknown as NewDidEncryptionKey,
+        },
+      ],
+    ],
+    [
+      'the removal of an assertion key removed before',
+      [{ action: 'removeAssertionKey' }, { action: 'removeAssertionKey' }],
+    ],
+    [
+      'the removal of an unknown key agreement key',
+      [{ action: 'removeKeyAgreementKey', id: '#enc-3' }],
+    ],
+    [
+      'the removal of a key agreement key removed before',
+      [
+        { action: 'removeKeyAgreementKey', id: '#enc-2' },
+        { action: 'removeKeyAgreementKey', id: '#enc-2' },
+      ],
+    ],
+    [
+      'a service endpoint with the ID of an existing one',
+      [{ action: 'addService', service: newEndpoint }],
+    ],
+    [
+      'a service endpoint with an invalid URL',
+      [
+        {
+          action: 'addService',
+          service: {
+            ...endpoint,
+            id: '#other',
+            serviceEndpoint: ['not a url'],
+          },
+        },
+      ],
+    ],
+    [
+      'the removal of an unknown service endpoint',
+      [{ action: 'removeService', id: '#other' }],
+    ],
+  ])('rejects %s', (_case, updates) => {
+    expect(() => verifyUpdatedDocument(document, updates, document)).toThrow(
+      SDKErrors.DidError
+    )
+  })
+})
+
+describe('getUpdateExtrinsics', () => {
+  const call =
+    (name: string) =>
+    (...args: unknown[]) => ({ name, args })
+
+  beforeEach(() => {
+    ConfigService.set({
+      api: {
+        consts: {
+          did: {
+            maxTotalKeyAgreementKeys: { toNumber: () => 2 },
+            maxNumberOfServicesPerDid: { toNumber: () => 1 },
+          },
+        },
+        tx: {
+          did: Object.fromEntries(
+            [
+              'setAuthenticationKey',
+              'setAssertionKey',
+              'removeAssertionKey',
+              'setDelegationKey',
+              'removeDelegationKey',
+              'addKeyAgreementKey',
+              'removeKeyAgreementKey',
+              'addServiceEndpoint',
+              'removeServiceEndpoint',
+            ].map((name) => [name, call(name)])
+          ),
+        },
+      },
+    } as any)
+  })
+
+  it('builds a call per update, in order', () => {
+    expect(getUpdateExtrinsics(document, rotation)).toEqual([
+      {
+        name: 'setAuthenticationKey',
+        args: [{ ed25519: verificationKey(11).publicKey }],
+      },
+      {
+        name: 'setAssertionKey',
+        args: [{ ed25519: verificationKey(12).publicKey }],
+      },
+      { name: 'removeDelegationKey', args: [] },
+      { name: 'removeKeyAgreementKey', args: ['enc-1'] },
+      {
+        name: 'addKeyAgreementKey',
+        args: [{ x25519: encryptionKey(14).publicKey }],
+      },
+      { name: 'removeServiceEndpoint', args: ['endpoint'] },
+      {
+        name: 'addServiceEndpoint',
+        args: [
+          {
+            id: 'endpoint',
+            serviceTypes: newEndpoint.type,
+            urls: newEndpoint.serviceEndpoint,
+          },
+        ],
+      },
+    ])
+  })
+
+  it('rejects an empty list of updates', () => {
+    expect(() => getUpdateExtrinsics(document, [])).toThrow(SDKErrors.DidError)
+  })
+
+  it('rejects more key agreement keys than the chain stores', () => {
+    expect(() =>
+      getUpdateExtrinsics(document, [
+        { action: 'addKeyAgreementKey', key: encryptionKey(14) },
+      ])
+    ).toThrow('Cannot store more than 2 key agreement keys per DID')
+  })
+
+  it('rejects more service endpoints than the chain stores', () => {
+    expect(() =>
+      getUpdateExtrinsics(document, [
+        {
+          action: 'addService',
+          service: { ...newEndpoint, id: '#other' },
+        },
+      ])
+    ).toThrow('Cannot store more than 1 service endpoints per DID')
+  })
+})
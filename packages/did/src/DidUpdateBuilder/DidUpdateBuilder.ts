@@ -0,0 +1,486 @@
+/**
+ * @packageDocumentation
+ * @module DidUpdateBuilder
+ *
+ * The `DidUpdateBuilder` module turns a list of wanted changes to an existing DID into the DID-authorized extrinsics
+ * of the `did` pallet, and checks that the changes were applied once they are on chain. It is the building block for
+ * key rotation: replacing the verification keys of a DID, or adding and removing key agreement keys and service
+ * endpoints.
+ *
+ * Key functionalities include:
+ * - `getUpdateExtrinsics`: Validates the changes against the current DID document and builds the unsigned calls.
+ * - `authorizeUpdate`: Builds the calls and authorizes them with the authentication key of the DID.
+ * - `verifyUpdatedDocument`: Checks that a resolved DID document holds the keys and services the changes lead to.
+ * - `dispatchUpdateToChain`: Authorizes and submits the changes, then re-resolves the DID and verifies it.
+ *
+ * @example
+ * ```typescript
+ * // Quarterly rotation of all verification keys.
+ * const { authentication, assertionMethod, capabilityDelegation } =
+ *   Keys.generateKeypairs(newMnemonic, 'ed25519');
+ * const document = await dispatchUpdateToChain({
+ *   document: currentDocument,
+ *   updates: [
+ *     { action: 'setAssertionKey', key: assertionMethod },
+ *     { action: 'setDelegationKey', key: capabilityDelegation },
+ *     { action: 'setAuthenticationKey', key: authentication },
+ *   ],
+ *   sign: currentAuthenticationSignCallback,
+ *   submitterAccount,
+ * });
+ * ```
+ */
+
+import type { Extrinsic } from '@polkadot/types/interfaces'
+import type { BN } from '@polkadot/util'
+import { u8aEq, u8aToHex } from '@polkadot/util'
+
+import type {
+  CordAddress,
+  CordKeyringPair,
+  DidDocument,
+  DidServiceEndpoint,
+  DidUpdate,
+  NewDidEncryptionKey,
+  NewDidVerificationKey,
+  SignExtrinsicCallback,
+  SubmittableExtrinsic,
+  UriFragment,
+} from '@cord.network/types'
+import { encryptionKeyTypes, verificationKeyTypes } from '@cord.network/types'
+import { SDKErrors } from '@cord.network/utils'
+import { ConfigService } from '@cord.network/config'
+import { Chain } from '@cord.network/network'
+
+import {
+  publicKeyToChain,
+  resourceIdToChain,
+  serviceToChain,
+  toChain,
+  validateService,
+} from '../Did.chain.js'
+import { linkedInfoFromChain } from '../Did.rpc.js'
+import { authorizeBatch } from '../DidDetails/FullDidDetails.js'
+
+type ExpectedKey = NewDidVerificationKey | NewDidEncryptionKey
+
+interface ExpectedDidState {
+  authentication: ExpectedKey
+  assertionMethod?: ExpectedKey
+  capabilityDelegation?: ExpectedKey
+  keyAgreement: ExpectedKey[]
+  service: DidServiceEndpoint[]
+}
+
+/**
+ * Checks that a new key has a type the chain accepts for its purpose.
+ *
+ * @param key The new key.
+ * @param allowedTypes The key types allowed for the key relationship.
+ * @param action The update action the key is used in, for error messages.
+ *
+ * @internal
+ */
+function checkKeyType(
+  key: ExpectedKey,
+  allowedTypes: string[],
+  action: DidUpdate['action']
+): void {
+  if (!allowedTypes.includes(key.type)) {
+    throw new SDKErrors.DidError(
+      `Key of type "${key.type}" cannot be used in "${action}"`
+    )
+  }
+}
+
+/**
+ * Applies a list of updates to the keys and services of a DID document, checking that each update can be applied
+ * to the state left by the previous ones.
+ *
+ * @param document The current DID document.
+ * @param updates The updates, in the order they will be executed.
+ * @returns The keys and services the DID is expected to have once all updates are applied.
+ *
+ * @internal
+ */
+function applyUpdates(
+  document: DidDocument,
+  updates: DidUpdate[]
+): ExpectedDidState {
+  const state: ExpectedDidState = {
+    authentication: document.authentication[0],
+    assertionMethod: document.assertionMethod?.[0],
+    capabilityDelegation: document.capabilityDelegation?.[0],
+    keyAgreement: [...(document.keyAgreement ?? [])],
+    service: [...(document.service ?? [])],
+  }
+  // Keys added by the updates have no ID until the chain assigns one.
+  const keyAgreementIds: Array<UriFragment | undefined> = (
+    document.keyAgreement ?? []
+  ).map(({ id }) => id)
+
+  updates.forEach((update) => {
+    switch (update.action) {
+      case 'setAuthenticationKey':
+        checkKeyType(update.key, verificationKeyTypes, update.action)
+        state.authentication = update.key
+        break
+      case 'setAssertionKey':
+        checkKeyType(update.key, verificationKeyTypes, update.action)
+        state.assertionMethod = update.key
+        break
+      case 'removeAssertionKey':
+        if (!state.assertionMethod) {
+          throw new SDKErrors.DidError(
+            `The DID "${document.uri}" has no assertion key to remove`
+          )
+        }
+        state.assertionMethod = undefined
+        break
+      case 'setDelegationKey':
+        checkKeyType(update.key, verificationKeyTypes, update.action)
+        state.capabilityDelegation = update.key
+        break
+      case 'removeDelegationKey':
+        if (!state.capabilityDelegation) {
+          throw new SDKErrors.DidError(
+            `The DID "${document.uri}" has no delegation key to remove`
+          )
+        }
+        state.capabilityDelegation = undefined
+        break
+      case 'addKeyAgreementKey':
+        checkKeyType(update.key, encryptionKeyTypes, update.action)
+        state.keyAgreement.push(update.key)
+        keyAgreementIds.push(undefined)
+        break
+      case 'removeKeyAgreementKey': {
+        const index = keyAgreementIds.indexOf(update.id)
+        if (index === -1) {
+          throw new SDKErrors.DidError(
+            `The DID "${document.uri}" has no key agreement key with ID "${update.id}"`
+          )
+        }
+        state.keyAgreement.splice(index, 1)
+        keyAgreementIds.splice(index, 1)
+        break
+      }
+      case 'addService':
+        validateService(update.service)
+        if (state.service.some(({ id }) => id === update.service.id)) {
+          throw new SDKErrors.DidError(
+            `The DID "${document.uri}" already has a service endpoint with ID "${update.service.id}"`
+          )
+        }
+        state.service.push(update.service)
+        break
+      case 'removeService': {
+        const index = state.service.findIndex(({ id }) => id === update.id)
+        if (index === -1) {
+          throw new SDKErrors.DidError(
+            `The DID "${document.uri}" has no service endpoint with ID "${update.id}"`
+          )
+        }
+        state.service.splice(index, 1)
+        break
+      }
+      default:
+        throw new SDKErrors.DidError(
+          `Unsupported DID update "${(update as DidUpdate).action}"`
+        )
+    }
+  })
+
+  return state
+}
+
+/**
+ * Builds the unsigned `did` pallet calls applying a list of changes to a DID.
+ *
+ * @remarks
+ * The changes are checked against the current DID document before any call is built: removed keys and service
+ * endpoints must exist, added service endpoints must be valid and not clash with existing IDs, new keys must be of a
+ * type allowed for their key relationship, and the number of key agreement keys and service endpoints must stay
+ * within the limits of the chain. Changes are checked in order, so a service endpoint can be removed and added again
+ * with new details in the same list.
+ *
+ * Key agreement keys to remove are identified by the `id` they have in the current document; keys added by the same
+ * list of changes cannot be removed by it.
+ *
+ * @param document - The current DID document, as resolved from the chain.
+ * @param updates - The changes to apply, in order.
+ * @returns The unsigned calls, one per change.
+ * @throws {SDKErrors.DidError} If a change cannot be applied to the DID.
+ *
+ * @example
+ * ```typescript
+ * const extrinsics = getUpdateExtrinsics(document, [
+ *   { action: 'removeService', id: '#old-endpoint' },
+ *   { action: 'addService', service: newEndpoint },
+ * ]);
+ * ```
+ */
+export function getUpdateExtrinsics(
+  document: DidDocument,
+  updates: DidUpdate[]
+): Extrinsic[] {
+  const api = ConfigService.get('api')
+
+  if (updates.length === 0) {
+    throw new SDKErrors.DidError('No DID updates were provided')
+  }
+
+  const state = applyUpdates(document, updates)
+
+  const maxTotalKeyAgreementKeys =
+    api.consts.did.maxTotalKeyAgreementKeys.toNumber()
+  if (state.keyAgreement.length > maxTotalKeyAgreementKeys) {
+    throw new SDKErrors.DidError(
+      `Cannot store more than ${maxTotalKeyAgreementKeys} key agreement keys per DID`
+    )
+  }
+  const maxNumberOfServicesPerDid =
+    api.consts.did.maxNumberOfServicesPerDid.toNumber()
+  if (state.service.length > maxNumberOfServicesPerDid) {
+    throw new SDKErrors.DidError(
+      `Cannot store more than ${maxNumberOfServicesPerDid} service endpoints per DID`
+    )
+  }
+
+  return updates.map((update) => {
+    switch (update.action) {
+      case 'setAuthenticationKey':
+        return api.tx.did.setAuthenticationKey(publicKeyToChain(update.key))
+      case 'setAssertionKey':
+        return api.tx.did.setAssertionKey(publicKeyToChain(update.key))
+      case 'removeAssertionKey':
+        return api.tx.did.removeAssertionKey()
+      case 'setDelegationKey':
+        return api.tx.did.setDelegationKey(publicKeyToChain(update.key))
+      case 'removeDelegationKey':
+        return api.tx.did.removeDelegationKey()
+      case 'addKeyAgreementKey':
+        return api.tx.did.addKeyAgreementKey(publicKeyToChain(update.key))
+      case 'removeKeyAgreementKey':
+        return api.tx.did.removeKeyAgreementKey(resourceIdToChain(update.id))
+      case 'addService':
+        return api.tx.did.addServiceEndpoint(serviceToChain(update.service))
+      default:
+        return api.tx.did.removeServiceEndpoint(resourceIdToChain(update.id))
+    }
+  })
+}
+
+/**
+ * Builds the calls applying a list of changes to a DID and authorizes them with the DID.
+ *
+ * @remarks
+ * All `did` pallet calls are authorized with the authentication key, so `sign` must use the authentication key the
+ * DID has before the update. The calls are wrapped in a single `utility.batchAll`, so either all changes are applied
+ * or none of them.
+ *
+ * @param input - The object with named parameters.
+ * @param input.document - The current DID document, as resolved from the chain.
+ * @param input.updates - The changes to apply, in order.
+ * @param input.sign - The callback signing with the current authentication key of the DID.
+ * @param input.submitter - The account that will submit the extrinsic.
+ * @param input.nonce - (Optional) The DID nonce to use. Defaults to the next nonce of the DID.
+ * @returns A promise that resolves to the DID-authorized extrinsic.
+ * @throws {SDKErrors.DidError} If a change cannot be applied to the DID.
+ *
+ * @example
+ * ```typescript
+ * const extrinsic = await authorizeUpdate({
+ *   document,
+ *   updates: [{ action: 'setAuthenticationKey', key: newAuthentication }],
+ *   sign: signCallback,
+ *   submitter: submitterAccount.address,
+ * });
+ * await Chain.signAndSubmitTx(extrinsic, submitterAccount);
+ * ```
+ */
+export async function authorizeUpdate({
+  document,
+  updates,
+  sign,
+  submitter,
+  nonce,
+}: {
+  document: DidDocument
+  updates: DidUpdate[]
+  sign: SignExtrinsicCallback
+  submitter: CordAddress
+  nonce?: BN
+}): Promise<SubmittableExtrinsic> {
+  const api = ConfigService.get('api')
+  const extrinsics = getUpdateExtrinsics(document, updates)
+
+  return authorizeBatch({
+    batchFunction: api.tx.utility.batchAll,
+    did: document.uri,
+    extrinsics,
+    nonce,
+    sign,
+    submitter,
+  })
+}
+
+/**
+ * Checks whether two keys have the same type and public key.
+ *
+ * @param a The first key.
+ * @param b The second key.
+ * @returns True if the keys are the same.
+ *
+ * @internal
+ */
+function isSameKey(a?: ExpectedKey, b?: ExpectedKey): boolean {
+  if (!a || !b) {
+    return a === b
+  }
+  return a.type === b.type && u8aEq(a.publicKey, b.publicKey)
+}
+
+/**
+ * Checks that a DID document resolved after an update holds exactly the keys and services the update leads to.
+ *
+ * @remarks
+ * Keys are compared by type and public key, since the IDs of new keys are assigned by the chain. Service endpoints are
+ * compared by ID, types and URLs.
+ *
+ * @param document - The DID document before the update.
+ * @param updates - The changes that were applied, in order.
+ * @param updatedDocument - The DID document resolved after the update.
+ * @throws {SDKErrors.DidError} If the resolved document does not match the expected keys and services.
+ *
+ * @example
+ * ```typescript
+ * await Chain.signAndSubmitTx(extrinsic, submitterAccount);
+ * const { document: updatedDocument } = linkedInfoFromChain(
+ *   await api.call.didApi.query(toChain(document.uri))
+ * );
+ * verifyUpdatedDocument(document, updates, updatedDocument);
+ * ```
+ */
+export function verifyUpdatedDocument(
+  document: DidDocument,
+  updates: DidUpdate[],
+  updatedDocument: DidDocument
+): void {
+  const expected = applyUpdates(document, updates)
+
+  const mismatches: string[] = []
+  if (!isSameKey(updatedDocument.authentication[0], expected.authentication)) {
+    mismatches.push('authentication key')
+  }
+  if (
+    !isSameKey(updatedDocument.assertionMethod?.[0], expected.assertionMethod)
+  ) {
+    mismatches.push('assertion key')
+  }
+  if (
+    !isSameKey(
+      updatedDocument.capabilityDelegation?.[0],
+      expected.capabilityDelegation
+    )
+  ) {
+    mismatches.push('delegation key')
+  }
+
+  const toKeyStrings = (keys: ExpectedKey[]) =>
+    keys.map(({ type, publicKey }) => `${type}:${u8aToHex(publicKey)}`).sort()
+  if (
+    JSON.stringify(toKeyStrings(updatedDocument.keyAgreement ?? [])) !==
+    JSON.stringify(toKeyStrings(expected.keyAgreement))
+  ) {
+    mismatches.push('key agreement keys')
+  }
+
+  const toServiceStrings = (services: DidServiceEndpoint[]) =>
+    services
+      .map(({ id, type, serviceEndpoint }) =>
+        JSON.stringify([id, type, serviceEndpoint])
+      )
+      .sort()
+  if (
+    JSON.stringify(toServiceStrings(updatedDocument.service ?? [])) !==
+    JSON.stringify(toServiceStrings(expected.service))
+  ) {
+    mismatches.push('service endpoints')
+  }
+
+  if (mismatches.length > 0) {
+    throw new SDKErrors.DidError(
+      `The DID "${document.uri}" does not have the expected ${mismatches.join(
+        ', '
+      )} after the update`
+    )
+  }
+}
+
+/**
+ * Applies a list of changes to a DID on chain and confirms the result.
+ *
+ * @remarks
+ * The changes are authorized with `authorizeUpdate` and submitted by `submitterAccount`. Once the extrinsic is
+ * included, the DID is resolved again and checked with `verifyUpdatedDocument`. When the authentication key is
+ * rotated, the returned document holds the new key, which has to be used to sign any later operation of the DID.
+ *
+ * @param input - The object with named parameters.
+ * @param input.document - The current DID document, as resolved from the chain.
+ * @param input.updates - The changes to apply, in order.
+ * @param input.sign - The callback signing with the current authentication key of the DID.
+ * @param input.submitterAccount - The account that submits the extrinsic and pays the fees.
+ * @param input.nonce - (Optional) The DID nonce to use. Defaults to the next nonce of the DID.
+ * @returns A promise that resolves to the DID document after the update.
+ * @throws {SDKErrors.DidError} If a change cannot be applied, or the resolved DID does not reflect the changes.
+ * @throws {SDKErrors.DidNotFoundError} If the DID cannot be resolved after the update.
+ *
+ * @example
+ * ```typescript
+ * const updatedDocument = await dispatchUpdateToChain({
+ *   document,
+ *   updates: [
+ *     { action: 'removeKeyAgreementKey', id: document.keyAgreement[0].id },
+ *     { action: 'addKeyAgreementKey', key: newKeyAgreement },
+ *   ],
+ *   sign: signCallback,
+ *   submitterAccount,
+ * });
+ * ```
+ */
+export async function dispatchUpdateToChain({
+  document,
+  updates,
+  sign,
+  submitterAccount,
+  nonce,
+}: {
+  document: DidDocument
+  updates: DidUpdate[]
+  sign: SignExtrinsicCallback
+  submitterAccount: CordKeyringPair
+  nonce?: BN
+}): Promise<DidDocument> {
+  const api = ConfigService.get('api')
+
+  const extrinsic = await authorizeUpdate({
+    document,
+    updates,
+    sign,
+    submitter: submitterAccount.address,
+    nonce,
+  })
+  await Chain.signAndSubmitTx(extrinsic, submitterAccount)
+
+  const encodedDid = await api.call.didApi.query(toChain(document.uri))
+  if (encodedDid.isNone) {
+    throw new SDKErrors.DidNotFoundError(
+      `The DID "${document.uri}" could not be resolved after the update`
+    )
+  }
+  const { document: updatedDocument } = linkedInfoFromChain(encodedDid)
+
+  verifyUpdatedDocument(document, updates, updatedDocument)
+  return updatedDocument
+}
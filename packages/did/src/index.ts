@@ -1,6 +1,9 @@
 export * from './DidDetails/index.js'
 export * from './DidDocumentExporter/index.js'
+export * from './DidName/index.js'
+export * from './DidOperationQueue/index.js'
 export * from './DidResolver/index.js'
+export * from './DidUpdateBuilder/index.js'
 export * from './Did.chain.js'
 export * from './Did.rpc.js'
 export * from './Did.utils.js'
@@ -0,0 +1,329 @@
+/**
+ * @packageDocumentation
+ * @module Document/Content
+ *
+ * The `Document/Content` submodule holds the claims of a document before they are turned into a verifiable
+ * credential. A content binds the claims to the schema they conform to, the DID of the holder they are
+ * made about and the DID of the issuer vouching for them.
+ *
+ * Key functionalities include:
+ * - `fromSchemaAndContent`: Builds a content object from a schema and claims, validating the claims against the schema.
+ * - `verifyContentAgainstSchema`: Validates the claims of an existing content object against a schema.
+ * - `toClaimStatements`: Flattens the claims into one statement per leaf value, keyed by its JSON pointer.
+ * - `hashContents`: Computes the salted hashes of the claim statements.
+ * - `selectContents`: Reduces a content object to the claims at a set of JSON pointers, for selective disclosure.
+ *
+ * @example
+ * ```typescript
+ * const content = fromSchemaAndContent(schema, { name: 'Alice', age: 29 }, holderUri, issuerUri);
+ * const { hashes, nonceMap } = hashContents(content);
+ * ```
+ */
+
+import type {
+  ContentNonceMap,
+  DidUri,
+  HexString,
+  IContent,
+  IContents,
+  ISchema,
+} from '@cord.network/types'
+import { SCHEMA_PREFIX } from '@cord.network/types'
+import { Crypto, SDKErrors } from '@cord.network/utils'
+import { validateUri } from '@cord.network/did'
+import { verifyObjectAgainstSchema } from '@cord.network/schema'
+
+/**
+ * Escapes a property name for use as a JSON pointer reference token (RFC 6901).
+ *
+ * @param token - The property name or array index.
+ * @returns The escaped reference token.
+ *
+ * @internal
+ */
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Splits a JSON pointer (RFC 6901) into its unescaped reference tokens.
+ *
+ * @param pointer - The JSON pointer, e.g. `/address/pin`. The empty pointer refers to the whole claims object.
+ * @returns The reference tokens of the pointer.
+ *
+ * @throws {SDKErrors.InvalidInputError} If the pointer is neither empty nor starts with `/`.
+ *
+ * @internal
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return []
+  }
+  if (!pointer.startsWith('/')) {
+    throw new SDKErrors.InvalidInputError(
+      `Invalid JSON pointer "${pointer}", expected it to start with "/"`
+    )
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Collects the leaf values of the claims together with their JSON pointer.
+ *
+ * @param value - The (sub)tree of the claims to walk.
+ * @param pointer - The JSON pointer of `value`.
+ * @param leaves - The accumulator the leaf values are pushed into.
+ *
+ * @internal
+ */
+function collectLeaves(
+  value: unknown,
+  pointer: string,
+  leaves: Array<[string, unknown]>
+): void {
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value)
+    if (entries.length > 0) {
+      entries.forEach(([key, child]) =>
+        collectLeaves(child, `${pointer}/${escapePointerToken(key)}`, leaves)
+      )
+      return
+    }
+  }
+  leaves.push([pointer, value])
+}
+
+/**
+ * Flattens the claims of a content object into one statement per leaf value.
+ *
+ * @remarks
+ * Nested objects and arrays are walked down to their primitive values. Each value is encoded together with its
+ * JSON pointer (RFC 6901) as the statement `{"<pointer>":<value>}`, so that every claim can be hashed and later
+ * disclosed on its own. Empty objects and arrays are kept as leaves.
+ *
+ * @param content - The content whose claims are flattened.
+ * @returns A map of JSON pointers to the statement encoding the claim at that pointer.
+ *
+ * @example
+ * ```typescript
+ * const statements = toClaimStatements(content);
+ * console.log(statements.get('/address/pin')); // '{"/address/pin":54032}'
+ * ```
+ */
+export function toClaimStatements(content: IContent): Map<string, string> {
+  const leaves: Array<[string, unknown]> = []
+  collectLeaves(content.contents, '', leaves)
+  return new Map(
+    leaves.map(([pointer, value]) => [
+      pointer,
+      Crypto.encodeObjectAsStr({ [pointer]: value }),
+    ])
+  )
+}
+
+/**
+ * Computes the salted hashes of the claims of a content object.
+ *
+ * @remarks
+ * Each claim statement produced by `toClaimStatements` is hashed with `Crypto.hashStatements`. A fresh nonce is
+ * generated per claim, unless a nonce map is passed in to reproduce existing hashes. The nonce map is keyed by the
+ * unsalted digest of each statement, as produced by `Crypto.hashStatements`.
+ *
+ * @param content - The content whose claims are hashed.
+ * @param nonces - (Optional) A nonce map from an existing document, used to reproduce its salted hashes.
+ * @returns The sorted salted hashes of the claims and the nonce map used to salt them.
+ *
+ * @example
+ * ```typescript
+ * const { hashes, nonceMap } = hashContents(content);
+ * const reproduced = hashContents(content, nonceMap);
+ * ```
+ *
+ * @throws {SDKErrors.ContentNonceMapMalformedError} If a nonce map is given but lacks the nonce of a claim.
+ */
+export function hashContents(
+  content: IContent,
+  nonces?: ContentNonceMap
+): { hashes: HexString[]; nonceMap: ContentNonceMap } {
+  const statements = [...toClaimStatements(content).values()]
+  const processed = Crypto.hashStatements(statements, { nonces })
+
+  const nonceMap: ContentNonceMap = {}
+  processed.forEach(({ digest, nonce, statement }) => {
+    if (typeof nonce !== 'string') {
+      throw new SDKErrors.ContentNonceMapMalformedError(statement)
+    }
+    nonceMap[digest] = nonce
+  })
+
+  return {
+    hashes: processed.map(({ saltedHash }) => saltedHash).sort(),
+    nonceMap,
+  }
+}
+
+/**
+ * Reduces a content object to the claims found at a set of JSON pointers.
+ *
+ * @remarks
+ * A pointer may refer to a single claim (e.g. `/address/pin`) or to a nested object or array, in which case all
+ * claims below it are kept. The claims are copied into a fresh object along their pointer, so that flattening the
+ * result with `toClaimStatements` yields exactly the statements of the selected claims. Partially selected arrays
+ * are kept as objects keyed by the array index, which flattens to the same pointers.
+ *
+ * @param content - The content to select claims from.
+ * @param pointers - The JSON pointers (RFC 6901) of the claims to keep.
+ * @returns A copy of the content object holding only the selected claims.
+ *
+ * @example
+ * ```typescript
+ * const disclosed = selectContents(content, ['/name', '/address/location']);
+ * console.log(disclosed.contents); // { name: 'Alice', address: { location: { ... } } }
+ * ```
+ *
+ * @throws {SDKErrors.InvalidInputError} If a pointer is malformed or does not refer to a claim of the content.
+ */
+export function selectContents(
+  content: IContent,
+  pointers: string[]
+): IContent {
+  const selected: IContents = {}
+
+  pointers.forEach((pointer) => {
+    const tokens = parsePointer(pointer)
+    let source: unknown = content.contents
+    tokens.forEach((token) => {
+      if (
+        typeof source !== 'object' ||
+        source === null ||
+        !Object.prototype.hasOwnProperty.call(source, token)
+      ) {
+        throw new SDKErrors.InvalidInputError(
+          `Attribute "${pointer}" not found in the document contents`
+        )
+      }
+      source = (source as Record<string, unknown>)[token]
+    })
+    // copy the selected subtree so that later pointers never write into the original claims
+    source = JSON.parse(JSON.stringify(source))
+
+    if (tokens.length === 0) {
+      Object.assign(selected, source)
+      return
+    }
+
+    let target: Record<string, unknown> = selected
+    tokens.slice(0, -1).forEach((token) => {
+      if (typeof target[token] !== 'object' || target[token] === null) {
+        target[token] = {}
+      }
+      target = target[token] as Record<string, unknown>
+    })
+    target[tokens[tokens.length - 1]] = source
+  })
+
+  return { ...content, contents: selected }
+}
+
+/**
+ * Verifies the data structure of a content object.
+ *
+ * @param input - The content object to be checked.
+ *
+ * @throws {SDKErrors.ContentMissingError} If the claims are missing or not an object.
+ * @throws {SDKErrors.SchemaIdentifierMissingError} If the schema URI is missing or malformed.
+ * @throws {SDKErrors.HolderMissingError} If the holder DID is missing.
+ * @throws {SDKErrors.IssuerMissingError} If the issuer DID is missing.
+ * @throws {SDKErrors.DidError} If the holder or issuer is not a valid CORD DID.
+ *
+ * @internal
+ */
+export function verifyDataStructure(input: IContent): void {
+  if (
+    typeof input.contents !== 'object' ||
+    input.contents === null ||
+    Array.isArray(input.contents)
+  ) {
+    throw new SDKErrors.ContentMissingError()
+  }
+  if (!input.schemaUri || !input.schemaUri.startsWith(SCHEMA_PREFIX)) {
+    throw new SDKErrors.SchemaIdentifierMissingError()
+  }
+  if (!input.holderUri) {
+    throw new SDKErrors.HolderMissingError()
+  }
+  if (!input.issuerUri) {
+    throw new SDKErrors.IssuerMissingError()
+  }
+  validateUri(input.holderUri, 'Did')
+  validateUri(input.issuerUri, 'Did')
+}
+
+/**
+ * Validates the claims of a content object against a schema.
+ *
+ * @param content - The content object whose claims are validated.
+ * @param schema - The schema the claims are expected to conform to.
+ * @param messages - (Optional) An array collecting the validation error messages.
+ *
+ * @throws {SDKErrors.SchemaMismatchError} If the content refers to a different schema.
+ * @throws {SDKErrors.ObjectUnverifiableError} If the claims do not conform to the schema.
+ */
+export function verifyContentAgainstSchema(
+  content: IContent,
+  schema: ISchema,
+  messages?: string[]
+): void {
+  if (content.schemaUri !== schema.$id) {
+    throw new SDKErrors.SchemaMismatchError(
+      `Content schema "${content.schemaUri}" does not match "${schema.$id}"`
+    )
+  }
+  verifyObjectAgainstSchema(content.contents, schema, messages)
+}
+
+/**
+ * Builds a content object from a schema and the claims about a holder.
+ *
+ * @remarks
+ * The claims are validated against the schema before the content is assembled, so a content object always
+ * refers to a schema its claims conform to.
+ *
+ * @param schema - The schema the claims conform to.
+ * @param contents - The claims about the holder.
+ * @param holderUri - The DID URI of the holder the claims are about.
+ * @param issuerUri - The DID URI of the issuer vouching for the claims.
+ * @returns The content object.
+ *
+ * @example
+ * ```typescript
+ * const content = fromSchemaAndContent(
+ *   schema,
+ *   { name: 'Alice', age: 29, address: { pin: 54032 } },
+ *   'did:cord:holder_uri',
+ *   'did:cord:issuer_uri'
+ * );
+ * ```
+ *
+ * @throws {SDKErrors.ObjectUnverifiableError} If the claims do not conform to the schema.
+ * @throws Various errors from `verifyDataStructure` if the content object is malformed.
+ */
+export function fromSchemaAndContent(
+  schema: ISchema,
+  contents: IContents,
+  holderUri: DidUri,
+  issuerUri: DidUri
+): IContent {
+  const content: IContent = {
+    schemaUri: schema.$id,
+    contents,
+    holderUri,
+    issuerUri,
+  }
+  verifyDataStructure(content)
+  verifyContentAgainstSchema(content, schema)
+  return content
+}
@@ -0,0 +1,192 @@
+/**
+ * @packageDocumentation
+ * @module Document/Chain
+ *
+ * The `Document/Chain` submodule anchors documents on the CORD blockchain and verifies them back against it.
+ * A document is anchored as a statement whose digest is the root digest of the document, registered by the
+ * issuer in the chain space of the document.
+ *
+ * Key functionalities include:
+ * - `dispatchDocumentToChain`: Registers the root digest of a document as a statement.
+ * - `verifyDocument`: Verifies a document locally and against its statement on chain.
+ * - `verifyPresentationDocumentStatus`: Checks that the statement backing a presentation is anchored and not revoked.
+ *
+ * @example
+ * ```typescript
+ * await dispatchDocumentToChain(document, authorAccount, authorizationUri, signCallback);
+ * const { isValid, message } = await verifyDocument(document, { schema });
+ * console.log(isValid, message);
+ * ```
+ */
+
+import type {
+  AuthorizationUri,
+  CordKeyringPair,
+  DidResolveKey,
+  DidUri,
+  IDocument,
+  IDocumentPresentation,
+  ISchema,
+  SignExtrinsicCallback,
+  StatementUri,
+} from '@cord.network/types'
+import {
+  buildFromProperties,
+  dispatchRegisterToChain,
+  verifyAgainstProperties,
+} from '@cord.network/statement'
+import * as Content from './Content.js'
+import {
+  verifyContentHashes,
+  verifyDataStructure,
+  verifyRootDigest,
+  verifySignature,
+} from './Document.js'
+
+/**
+ * Anchors a document on the CORD blockchain by registering its root digest as a statement.
+ *
+ * @remarks
+ * The statement is registered by the issuer of the document in the chain space of the document, with the schema
+ * of the document attached. The transaction is authorized by the issuer DID and submitted by `authorAccount`.
+ *
+ * @param document - The signed document to anchor, as built by `fromContent`.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the issuer's authorization in the chain space.
+ * @param signCallback - A callback that signs the extrinsic with the issuer DID.
+ * @returns A promise that resolves to the statement URI of the anchored document.
+ *
+ * @example
+ * ```typescript
+ * const statementUri = await dispatchDocumentToChain(
+ *   document,
+ *   authorAccount,
+ *   'auth:cord:example_uri',
+ *   issuerKeys.signExtrinsicCallback
+ * );
+ * ```
+ *
+ * @throws Various errors from `verifyDataStructure` if the document is malformed.
+ * @throws {SDKErrors.CordDispatchError} If the statement could not be registered.
+ */
+export async function dispatchDocumentToChain(
+  document: IDocument,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<StatementUri> {
+  verifyDataStructure(document)
+
+  const stmtEntry = buildFromProperties(
+    document.digest,
+    document.spaceUri,
+    document.content.issuerUri,
+    document.content.schemaUri
+  )
+
+  return dispatchRegisterToChain(
+    stmtEntry,
+    document.content.issuerUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+}
+
+/**
+ * Verifies a document locally and against its statement on the CORD blockchain.
+ *
+ * @remarks
+ * The document is checked in the following order:
+ * 1. its data structure, and its claims against `schema` when one is given;
+ * 2. the salted claim hashes, recomputed from the claims and the nonce map;
+ * 3. the root digest, recomputed from the claim hashes and the document metadata;
+ * 4. the issuer signature over the root digest;
+ * 5. the statement on chain, which must hold the root digest, be created by the issuer in the chain space of the
+ *    document with its schema, and not be revoked.
+ *
+ * @param document - The document to verify.
+ * @param options - (Optional) Verification options.
+ * @param options.schema - The schema to validate the claims against.
+ * @param options.didResolveKey - Resolves the key the document was signed with. Defaults to `Did.resolveKey`.
+ * @returns A promise that resolves to an object with the `isValid` flag and a `message` describing the outcome.
+ *
+ * @example
+ * ```typescript
+ * const { isValid, message } = await verifyDocument(document, { schema });
+ * if (!isValid) {
+ *   console.error('Document verification failed:', message);
+ * }
+ * ```
+ */
+export async function verifyDocument(
+  document: IDocument,
+  {
+    schema,
+    didResolveKey,
+  }: { schema?: ISchema; didResolveKey?: DidResolveKey } = {}
+): Promise<{ isValid: boolean; message: string }> {
+  try {
+    verifyDataStructure(document)
+    if (schema) {
+      Content.verifyContentAgainstSchema(document.content, schema)
+    }
+    verifyContentHashes(document)
+    verifyRootDigest(document)
+    await verifySignature(document, { didResolveKey })
+  } catch (error) {
+    return {
+      isValid: false,
+      message: `Error verifying document: ${error}`,
+    }
+  }
+
+  return verifyAgainstProperties(
+    document.elementUri,
+    document.digest,
+    document.content.issuerUri,
+    document.spaceUri,
+    document.content.schemaUri
+  )
+}
+
+/**
+ * Checks the on-chain status of the document a presentation is derived from.
+ *
+ * @remarks
+ * The statement of the presentation must hold its root digest, be created by the issuer in the chain space of the
+ * document with its schema, and not be revoked. When `trustedIssuerUris` is given, the issuer must also be one of
+ * them. This function does not check the disclosed claims or the signatures; use `verifyPresentation` for that.
+ *
+ * @param presentation - The presentation whose document status is checked.
+ * @param options - (Optional) Status options.
+ * @param options.trustedIssuerUris - (Optional) The issuer DIDs the verifier accepts. Any issuer is accepted if omitted.
+ * @returns A promise that resolves to an object with the `isValid` flag and a `message` describing the outcome.
+ *
+ * @example
+ * ```typescript
+ * const { isValid, message } = await verifyPresentationDocumentStatus(presentation, {
+ *   trustedIssuerUris: ['did:cord:issuer_uri'],
+ * });
+ * ```
+ */
+export async function verifyPresentationDocumentStatus(
+  presentation: IDocumentPresentation,
+  { trustedIssuerUris }: { trustedIssuerUris?: DidUri[] } = {}
+): Promise<{ isValid: boolean; message: string }> {
+  const { issuerUri, schemaUri } = presentation.content
+  if (trustedIssuerUris && !trustedIssuerUris.includes(issuerUri)) {
+    return {
+      isValid: false,
+      message: `Issuer "${issuerUri}" is not trusted.`,
+    }
+  }
+
+  return verifyAgainstProperties(
+    presentation.elementUri,
+    presentation.digest,
+    issuerUri,
+    presentation.spaceUri,
+    schemaUri
+  )
+}
@@ -0,0 +1,432 @@
+/**
+ * @packageDocumentation
+ * @module Document
+ * @preferred
+ *
+ * The `Document` module turns the claims of a `Content` object into a verifiable credential anchored on the CORD
+ * blockchain. Every claim is hashed with its own nonce, the salted hashes are folded into a root digest, and the
+ * root digest is signed by the issuer DID and registered as a statement in a chain space. Anyone holding the
+ * document can then recompute the hashes and check them against the statement on chain.
+ *
+ * Key functionalities include:
+ * - `fromContent`: Builds and signs a document from a content object.
+ * - `calculateRootDigest`: Computes the root digest of a document from its claim hashes and metadata.
+ * - `verifyDataStructure`: Validates the structure of a document.
+ * - `verifyContentHashes` / `verifyRootDigest`: Recompute the claim hashes and the root digest of a document.
+ * - `verifySignature`: Checks the issuer signature over the root digest.
+ * - `createPresentation`: Derives a presentation that discloses only selected claims, signed by the holder.
+ * - `verifyPresentation`: Verifies the disclosed claims, both signatures and the statement of a presentation.
+ * - `exportToVerifiableCredential` / `importFromVerifiableCredential`: Convert documents to and from W3C Verifiable Credentials.
+ *
+ * @example
+ * ```typescript
+ * const content = Content.fromSchemaAndContent(schema, claims, holderUri, issuerUri);
+ * const document = await fromContent({ content, spaceUri, signCallback });
+ * await dispatchDocumentToChain(document, authorAccount, authorizationUri, signExtrinsicCallback);
+ * const { isValid } = await verifyDocument(document, { schema });
+ * ```
+ */
+
+import type {
+  DidResolveKey,
+  DidUri,
+  HexString,
+  IContent,
+  IDocument,
+  IDocumentPresentation,
+  PresentationOptions,
+  SignCallback,
+  SpaceUri,
+} from '@cord.network/types'
+import { SPACE_PREFIX } from '@cord.network/types'
+import { Crypto, DataUtils, SDKErrors } from '@cord.network/utils'
+import {
+  signatureFromJson,
+  signatureToJson,
+  verifyDidSignature,
+} from '@cord.network/did'
+import { buildFromProperties } from '@cord.network/statement'
+import * as Content from './Content.js'
+import { verifyPresentationDocumentStatus } from './Document.chain.js'
+
+/**
+ * Computes the root digest of a document.
+ *
+ * @remarks
+ * The root digest commits to the sorted salted claim hashes together with the schema, holder, issuer and issuance
+ * time of the document. It is the value that is signed by the issuer and anchored on chain as the statement digest.
+ *
+ * @param input - The parts of the document the root digest is computed from.
+ * @param input.content - The content of the document.
+ * @param input.contentHashes - The salted hashes of the claims.
+ * @param input.createdAt - The ISO 8601 issuance time of the document.
+ * @returns The root digest as a 256 bit hex string.
+ *
+ * @example
+ * ```typescript
+ * const digest = calculateRootDigest(document);
+ * console.log(digest === document.digest);
+ * ```
+ */
+export function calculateRootDigest({
+  content,
+  contentHashes,
+  createdAt,
+}: Pick<IDocument, 'content' | 'contentHashes' | 'createdAt'>): HexString {
+  return Crypto.hashObjectAsHexStr({
+    schemaUri: content.schemaUri,
+    holderUri: content.holderUri,
+    issuerUri: content.issuerUri,
+    contentHashes: [...contentHashes].sort(),
+    createdAt,
+  })
+}
+
+/**
+ * Verifies the data structure of a document.
+ *
+ * @param input - The document to be checked.
+ *
+ * @throws {SDKErrors.ContentMissingError} If the document has no content.
+ * @throws {SDKErrors.ChainSpaceMissingError} If the space URI is missing or malformed.
+ * @throws {SDKErrors.ContentHashMissingError} If the claim hashes are missing.
+ * @throws {SDKErrors.ContentNonceMapMissingError} If the nonce map is missing.
+ * @throws {SDKErrors.StatementHashMissingError} If the root digest or the statement URI is missing.
+ * @throws {SDKErrors.SignatureMalformedError} If the issuer signature is missing.
+ * @throws Various errors from `Content.verifyDataStructure` if the content is malformed.
+ *
+ * @internal
+ */
+export function verifyDataStructure(input: IDocument): void {
+  if (typeof input.content !== 'object' || input.content === null) {
+    throw new SDKErrors.ContentMissingError()
+  }
+  Content.verifyDataStructure(input.content)
+
+  if (!input.spaceUri || !input.spaceUri.startsWith(SPACE_PREFIX)) {
+    throw new SDKErrors.ChainSpaceMissingError()
+  }
+  if (!Array.isArray(input.contentHashes)) {
+    throw new SDKErrors.ContentHashMissingError()
+  }
+  input.contentHashes.forEach((hash) => DataUtils.verifyIsHex(hash, 256))
+  if (
+    typeof input.contentNonceMap !== 'object' ||
+    input.contentNonceMap === null
+  ) {
+    throw new SDKErrors.ContentNonceMapMissingError()
+  }
+  if (!input.digest || !input.elementUri) {
+    throw new SDKErrors.StatementHashMissingError()
+  }
+  DataUtils.verifyIsHex(input.digest, 256)
+  if (typeof input.issuerSignature?.signature !== 'string') {
+    throw new SDKErrors.SignatureMalformedError(
+      'Document is missing the issuer signature'
+    )
+  }
+}
+
+/**
+ * Recomputes the salted claim hashes of a document from its claims and nonce map.
+ *
+ * @param document - The document whose claim hashes are checked.
+ *
+ * @throws {SDKErrors.ContentNonceMapMalformedError} If the nonce map lacks the nonce of a claim.
+ * @throws {SDKErrors.ContentUnverifiableError} If the recomputed hashes differ from the hashes in the document.
+ */
+export function verifyContentHashes(document: IDocument): void {
+  const { hashes } = Content.hashContents(
+    document.content,
+    document.contentNonceMap
+  )
+  const expected = [...document.contentHashes].sort()
+  if (
+    hashes.length !== expected.length ||
+    hashes.some((hash, index) => hash !== expected[index])
+  ) {
+    throw new SDKErrors.ContentUnverifiableError(
+      'Claim hashes do not match the contents of the document'
+    )
+  }
+}
+
+/**
+ * Recomputes the root digest of a document and compares it to the digest it carries.
+ *
+ * @param document - The document whose root digest is checked.
+ *
+ * @throws {SDKErrors.RootHashUnverifiableError} If the recomputed root digest differs from `document.digest`.
+ */
+export function verifyRootDigest(document: IDocument): void {
+  if (calculateRootDigest(document) !== document.digest) {
+    throw new SDKErrors.RootHashUnverifiableError()
+  }
+}
+
+/**
+ * Verifies the issuer signature over the root digest of a document.
+ *
+ * @param document - The document whose signature is checked.
+ * @param options - (Optional) Verification options.
+ * @param options.didResolveKey - Resolves the key the document was signed with. Defaults to `Did.resolveKey`.
+ *
+ * @throws {SDKErrors.DidSubjectMismatchError} If the signing key does not belong to the issuer.
+ * @throws {SDKErrors.SignatureUnverifiableError} If the signature does not match the root digest.
+ */
+export async function verifySignature(
+  document: IDocument,
+  { didResolveKey }: { didResolveKey?: DidResolveKey } = {}
+): Promise<void> {
+  const { signature, keyUri } = signatureFromJson(document.issuerSignature)
+  await verifyDidSignature({
+    message: Crypto.coToUInt8(document.digest),
+    signature,
+    keyUri,
+    expectedSigner: document.content.issuerUri,
+    expectedVerificationMethod: 'assertionMethod',
+    didResolveKey,
+  })
+}
+
+/**
+ * Builds a signed document from a content object.
+ *
+ * @remarks
+ * Each claim of the content is hashed with a fresh nonce, the root digest is computed over the claim hashes, and
+ * the root digest is signed with the `assertionMethod` key of the issuer. The statement URI the document will be
+ * anchored under is derived from the root digest, the chain space and the issuer, so the document can be
+ * referenced before it is dispatched with `dispatchDocumentToChain`.
+ *
+ * @param input - The input for the document.
+ * @param input.content - The content holding the claims, as built by `Content.fromSchemaAndContent`.
+ * @param input.spaceUri - The URI of the chain space the document will be anchored in.
+ * @param input.signCallback - The callback signing the root digest with the issuer DID.
+ * @returns A promise that resolves to the signed document.
+ *
+ * @example
+ * ```typescript
+ * const document = await fromContent({
+ *   content,
+ *   spaceUri: 'space:cord:example_uri',
+ *   signCallback: issuerKeys.signCallback,
+ * });
+ * console.log('Document statement URI:', document.elementUri);
+ * ```
+ *
+ * @throws Various errors from `Content.verifyDataStructure` and `verifyDataStructure` if the inputs are malformed.
+ */
+export async function fromContent({
+  content,
+  spaceUri,
+  signCallback,
+}: {
+  content: IContent
+  spaceUri: SpaceUri
+  signCallback: SignCallback
+}): Promise<IDocument> {
+  Content.verifyDataStructure(content)
+
+  const { hashes: contentHashes, nonceMap: contentNonceMap } =
+    Content.hashContents(content)
+  const createdAt = new Date().toISOString()
+  const digest = calculateRootDigest({ content, contentHashes, createdAt })
+
+  const issuerSignature = signatureToJson(
+    await signCallback({
+      data: Crypto.coToUInt8(digest),
+      did: content.issuerUri,
+      keyRelationship: 'assertionMethod',
+    })
+  )
+
+  const { elementUri } = buildFromProperties(
+    digest,
+    spaceUri,
+    content.issuerUri,
+    content.schemaUri
+  )
+
+  const document: IDocument = {
+    elementUri,
+    content,
+    spaceUri,
+    contentHashes,
+    contentNonceMap,
+    digest,
+    createdAt,
+    issuerSignature,
+  }
+
+  verifyDataStructure(document)
+  return document
+}
+
+/**
+ * Builds the data a holder signs for a presentation.
+ *
+ * @param digest - The root digest of the presented document.
+ * @param challenge - (Optional) The challenge issued by the verifier.
+ * @returns The root digest followed by the UTF-8 encoded challenge.
+ *
+ * @internal
+ */
+function getPresentationSigningData(
+  digest: HexString,
+  challenge?: string
+): Uint8Array {
+  return Uint8Array.from([
+    ...Crypto.coToUInt8(digest),
+    ...Crypto.coToUInt8(challenge ?? '', true),
+  ])
+}
+
+/**
+ * Creates a presentation of a document that discloses only selected claims.
+ *
+ * @remarks
+ * The claims at `selectedAttributes` are kept together with their nonces, while all other claims and nonces are
+ * removed. The full list of salted claim hashes is kept, so a verifier can still recompute the root digest and
+ * check it against the statement on chain without learning the hidden claims. The presentation is signed with the
+ * `authentication` key of the holder over the root digest and the verifier's `challenge`, binding it to the holder
+ * and to the verification session.
+ *
+ * @param options - The presentation options.
+ * @param options.document - The document to present.
+ * @param options.signCallback - The callback signing the presentation with the holder DID.
+ * @param options.selectedAttributes - (Optional) The JSON pointers (RFC 6901) of the claims to disclose. All claims
+ *        are disclosed if the list is empty or omitted.
+ * @param options.challenge - (Optional) The challenge issued by the verifier.
+ * @returns A promise that resolves to the signed presentation.
+ *
+ * @example
+ * ```typescript
+ * const presentation = await createPresentation({
+ *   document,
+ *   signCallback: holderKeys.signCallback,
+ *   selectedAttributes: ['/name', '/address/location/country'],
+ *   challenge: verifierChallenge,
+ * });
+ * ```
+ *
+ * @throws {SDKErrors.InvalidInputError} If a selected attribute is not a claim of the document.
+ * @throws Various errors from `verifyDataStructure` if the document is malformed.
+ */
+export async function createPresentation({
+  document,
+  signCallback,
+  selectedAttributes = [],
+  challenge,
+}: PresentationOptions): Promise<IDocumentPresentation> {
+  verifyDataStructure(document)
+
+  const content =
+    selectedAttributes.length > 0
+      ? Content.selectContents(document.content, selectedAttributes)
+      : document.content
+  const { nonceMap: contentNonceMap } = Content.hashContents(
+    content,
+    document.contentNonceMap
+  )
+
+  const signature = await signCallback({
+    data: getPresentationSigningData(document.digest, challenge),
+    did: document.content.holderUri,
+    keyRelationship: 'authentication',
+  })
+
+  return {
+    ...document,
+    content,
+    contentNonceMap,
+    holderSignature: {
+      ...signatureToJson(signature),
+      ...(challenge && { challenge }),
+    },
+  }
+}
+
+/**
+ * Verifies a presentation created with `createPresentation`.
+ *
+ * @remarks
+ * The salted hashes of the disclosed claims are recomputed from their nonces and must all be part of the claim
+ * hashes of the document. The root digest is then recomputed from the full list of claim hashes, and the issuer
+ * signature over it is checked. The holder signature is checked over the root digest and the challenge. Finally,
+ * the root digest is verified against the statement on chain with `verifyPresentationDocumentStatus`.
+ *
+ * @param presentation - The presentation to verify.
+ * @param options - (Optional) Verification options.
+ * @param options.challenge - The challenge the verifier issued. If given, the presentation must be signed over it.
+ * @param options.trustedIssuerUris - (Optional) The issuer DIDs the verifier accepts. Any issuer is accepted if omitted.
+ * @param options.didResolveKey - Resolves the keys the presentation was signed with. Defaults to `Did.resolveKey`.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await verifyPresentation(presentation, { challenge: verifierChallenge });
+ *   console.log('Disclosed claims:', presentation.content.contents);
+ * } catch (error) {
+ *   console.error('Presentation verification failed:', error);
+ * }
+ * ```
+ *
+ * @throws {SDKErrors.ContentUnverifiableError} If a disclosed claim is not part of the document.
+ * @throws {SDKErrors.RootHashUnverifiableError} If the root digest does not match the claim hashes.
+ * @throws {SDKErrors.SignatureUnverifiableError} If the challenge does not match or a signature is invalid.
+ * @throws {SDKErrors.CredentialUnverifiableError} If the statement on chain does not back the presentation.
+ */
+export async function verifyPresentation(
+  presentation: IDocumentPresentation,
+  {
+    challenge,
+    trustedIssuerUris,
+    didResolveKey,
+  }: {
+    challenge?: string
+    trustedIssuerUris?: DidUri[]
+    didResolveKey?: DidResolveKey
+  } = {}
+): Promise<void> {
+  verifyDataStructure(presentation)
+
+  const contentHashes = new Set(presentation.contentHashes)
+  const { hashes } = Content.hashContents(
+    presentation.content,
+    presentation.contentNonceMap
+  )
+  if (!hashes.every((hash) => contentHashes.has(hash))) {
+    throw new SDKErrors.ContentUnverifiableError(
+      'Disclosed claims are not part of the document'
+    )
+  }
+  verifyRootDigest(presentation)
+  await verifySignature(presentation, { didResolveKey })
+
+  const { holderSignature } = presentation
+  if (challenge && challenge !== holderSignature.challenge) {
+    throw new SDKErrors.SignatureUnverifiableError(
+      'Challenge differs from the one signed by the holder'
+    )
+  }
+  const { signature, keyUri } = signatureFromJson(holderSignature)
+  await verifyDidSignature({
+    message: getPresentationSigningData(
+      presentation.digest,
+      holderSignature.challenge
+    ),
+    signature,
+    keyUri,
+    expectedSigner: presentation.content.holderUri,
+    expectedVerificationMethod: 'authentication',
+    didResolveKey,
+  })
+
+  const { isValid, message } = await verifyPresentationDocumentStatus(
+    presentation,
+    { trustedIssuerUris }
+  )
+  if (!isValid) {
+    throw new SDKErrors.CredentialUnverifiableError(message)
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * URL identifying the JSON-LD context file of the W3C Verifiable Credentials Data Model 2.0.
+ * Must be the first entry in the ordered set of contexts of a verifiable credential.
+ * See https://www.w3.org/TR/vc-data-model-2.0/#contexts.
+ */
+export const W3C_CREDENTIAL_CONTEXT_URL = 'https://www.w3.org/ns/credentials/v2'
+/**
+ * URL identifying a JSON-LD context file describing terms used in credentials anchored on CORD that are not defined in the W3C credentials context.
+ * Should be the second entry in the ordered set of contexts after [[W3C_CREDENTIAL_CONTEXT_URL]] in a CORD verifiable credential.
+ */
+export const CORD_CREDENTIAL_CONTEXT_URL =
+  'https://github.com/dhiway/spec/credentials/v1'
+/**
+ * An object containing static copies of JSON-LD context files defined by CORD for verifiable credentials, of the form <context URL> -> context.
+ * These context definitions are not supposed to change; therefore, a cached version can (and should) be used to avoid unexpected changes in definitions.
+ */
+export const CREDENTIAL_CONTEXTS = {
+  [CORD_CREDENTIAL_CONTEXT_URL]: {
+    '@context': {
+      '@protected': true,
+      CordCredential:
+        'https://github.com/dhiway/spec/cord-credentials#CordCredential',
+      CordStatementStatus: {
+        '@id':
+          'https://github.com/dhiway/spec/cord-credentials#CordStatementStatus',
+        '@context': {
+          '@protected': true,
+          id: '@id',
+          type: '@type',
+          spaceUri: {
+            '@id': 'https://github.com/dhiway/spec/cord-credentials#spaceUri',
+            '@type': '@id',
+          },
+        },
+      },
+      CordStatementProof: {
+        '@id':
+          'https://github.com/dhiway/spec/cord-credentials#CordStatementProof',
+        '@context': {
+          '@protected': true,
+          id: '@id',
+          type: '@type',
+          digest: 'https://github.com/dhiway/spec/cord-credentials#digest',
+          contentHashes: {
+            '@id':
+              'https://github.com/dhiway/spec/cord-credentials#contentHashes',
+            '@container': '@list',
+          },
+          contentNonceMap: {
+            '@id':
+              'https://github.com/dhiway/spec/cord-credentials#contentNonceMap',
+            '@type': '@json',
+          },
+        },
+      },
+    },
+  },
+}
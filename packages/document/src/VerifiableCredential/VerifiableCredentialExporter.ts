@@ -0,0 +1,160 @@
+import type {
+  CordVerifiableCredential,
+  IContents,
+  IDocument,
+} from '@cord.network/types'
+import {
+  base58Decode,
+  base58Encode,
+  CORD_CREDENTIAL_TYPE,
+  CORD_PROOF_TYPE,
+  CORD_STATUS_TYPE,
+} from '@cord.network/types'
+import { Crypto, SDKErrors } from '@cord.network/utils'
+import { verifyDataStructure } from '../Document.js'
+import {
+  CORD_CREDENTIAL_CONTEXT_URL,
+  W3C_CREDENTIAL_CONTEXT_URL,
+} from './CredentialContexts.js'
+
+/**
+ * Export an [[IDocument]] to a Verifiable Credential conforming to the W3C Verifiable Credentials Data Model 2.0.
+ *
+ * The claims become the `credentialSubject` of the holder, the statement the document is anchored as is referenced
+ * by `credentialStatus`, and the issuer signature, root digest, salted claim hashes and nonces are carried in the `proof`.
+ *
+ * @param document The [[IDocument]].
+ * @returns The Verifiable Credential in JSON-LD form.
+ */
+export function exportToVerifiableCredential(
+  document: IDocument
+): CordVerifiableCredential {
+  verifyDataStructure(document)
+  const { content, issuerSignature } = document
+
+  if ('id' in content.contents) {
+    throw new SDKErrors.CredentialExporterError(
+      'The claim "id" is reserved for the holder DID in the credential subject'
+    )
+  }
+
+  return {
+    '@context': [W3C_CREDENTIAL_CONTEXT_URL, CORD_CREDENTIAL_CONTEXT_URL],
+    id: document.elementUri,
+    type: ['VerifiableCredential', CORD_CREDENTIAL_TYPE],
+    issuer: content.issuerUri,
+    validFrom: document.createdAt,
+    credentialSubject: { id: content.holderUri, ...content.contents },
+    credentialSchema: { id: content.schemaUri, type: 'JsonSchema' },
+    credentialStatus: {
+      id: document.elementUri,
+      type: CORD_STATUS_TYPE,
+      spaceUri: document.spaceUri,
+    },
+    proof: {
+      type: CORD_PROOF_TYPE,
+      created: document.createdAt,
+      proofPurpose: 'assertionMethod',
+      verificationMethod: issuerSignature.keyUri,
+      proofValue: `z${base58Encode(Crypto.coToUInt8(issuerSignature.signature))}`,
+      digest: document.digest,
+      contentHashes: document.contentHashes,
+      contentNonceMap: document.contentNonceMap,
+    },
+  }
+}
+
+/**
+ * Import a Verifiable Credential created with [[exportToVerifiableCredential]] back into an [[IDocument]].
+ * Only the structure of the result is checked; use `verifyDocument` or `verifyPresentation` to verify it.
+ *
+ * @param credential The Verifiable Credential in JSON-LD form.
+ * @returns The [[IDocument]] the credential represents.
+ */
+export function importFromVerifiableCredential(
+  credential: CordVerifiableCredential
+): IDocument {
+  const {
+    '@context': context,
+    type,
+    credentialSubject,
+    credentialStatus,
+    credentialSchema,
+    proof,
+  } = credential
+
+  if (
+    !Array.isArray(context) ||
+    context[0] !== W3C_CREDENTIAL_CONTEXT_URL ||
+    !context.includes(CORD_CREDENTIAL_CONTEXT_URL)
+  ) {
+    throw new SDKErrors.CredentialExporterError(
+      'The credential does not use the W3C and CORD credential contexts'
+    )
+  }
+  if (!Array.isArray(type) || !type.includes(CORD_CREDENTIAL_TYPE)) {
+    throw new SDKErrors.CredentialExporterError(
+      `The credential is not of type "${CORD_CREDENTIAL_TYPE}"`
+    )
+  }
+  if (
+    typeof credentialSubject !== 'object' ||
+    credentialSubject === null ||
+    Array.isArray(credentialSubject) ||
+    typeof credentialSubject.id !== 'string'
+  ) {
+    throw new SDKErrors.CredentialExporterError(
+      'The credential subject is not an object identifying the holder'
+    )
+  }
+  if (typeof credentialSchema?.id !== 'string') {
+    throw new SDKErrors.CredentialExporterError(
+      'The credential does not reference a schema'
+    )
+  }
+  if (credentialStatus?.type !== CORD_STATUS_TYPE) {
+    throw new SDKErrors.CredentialExporterError(
+      `The credential status is not of type "${CORD_STATUS_TYPE}"`
+    )
+  }
+  if (
+    proof?.type !== CORD_PROOF_TYPE ||
+    typeof proof.proofValue !== 'string' ||
+    !proof.proofValue.startsWith('z')
+  ) {
+    throw new SDKErrors.CredentialExporterError(
+      `The credential proof is not a base58btc encoded "${CORD_PROOF_TYPE}"`
+    )
+  }
+  let signature: Uint8Array
+  try {
+    signature = base58Decode(proof.proofValue.slice(1))
+  } catch {
+    throw new SDKErrors.CredentialExporterError(
+      'The credential proof value is not valid base58btc'
+    )
+  }
+
+  const { id: holderUri, ...contents } = credentialSubject
+  const document: IDocument = {
+    elementUri: credentialStatus.id,
+    content: {
+      schemaUri: credentialSchema.id,
+      contents: contents as IContents,
+      holderUri,
+      issuerUri: credential.issuer,
+    },
+    spaceUri: credentialStatus.spaceUri,
+    contentHashes: proof.contentHashes,
+    contentNonceMap: proof.contentNonceMap,
+    digest: proof.digest,
+    createdAt: proof.created,
+    issuerSignature: {
+      keyUri: proof.verificationMethod,
+      signature: Crypto.u8aToHex(signature),
+    },
+  }
+
+  verifyDataStructure(document)
+  return document
+}
@@ -0,0 +1,2 @@
+export * from './VerifiableCredentialExporter.js'
+export * from './CredentialContexts.js'
@@ -0,0 +1,4 @@
+export * from './Document.js'
+export * from './Document.chain.js'
+export * as Content from './Content.js'
+export * from './VerifiableCredential/index.js'
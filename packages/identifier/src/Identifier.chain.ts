@@ -0,0 +1,207 @@
+/**
+ * @packageDocumentation
+ * @module Identifier/Chain
+ *
+ * The `Identifier/Chain` submodule reads the activity history that the CORD runtime keeps for every
+ * identifier in the storage of the `identifier` pallet. Each state-changing call on an asset, authorization,
+ * chain space, DID, rating, statement or schema appends an event entry with the action performed and the
+ * block and extrinsic it happened in.
+ *
+ * Key functionalities include:
+ * - `identifierTypeFromUri`: Infers the identifier type tracked by the pallet from the prefix of a URI.
+ * - `getIdentifierTimeline`: Fetches and decodes the activity timeline of an identifier.
+ *
+ * @example
+ * ```typescript
+ * const timeline = await getIdentifierTimeline('stmt:cord:example_uri');
+ * timeline.forEach((event) => {
+ *   console.log(`${event.action} at block ${event.blockNumber}`);
+ * });
+ * ```
+ */
+
+import type { CordIdentifierEventEntry } from '@cord.network/augment-api'
+import type { IIdentifierEvent, StatementUri } from '@cord.network/types'
+import {
+  ASSET_PREFIX,
+  AUTH_PREFIX,
+  IdentifierActionOf,
+  IdentifierTypeOf,
+  RATING_PREFIX,
+  SCHEMA_PREFIX,
+  SPACE_PREFIX,
+  STATEMENT_PREFIX,
+} from '@cord.network/types'
+import { ConfigService } from '@cord.network/config'
+import { SDKErrors } from '@cord.network/utils'
+import { elementUriToStatementUri, uriToIdentifier } from './Identifier.js'
+
+const DID_PREFIX = 'did:cord:'
+
+const PREFIX_TO_IDENTIFIER_TYPE: Array<[string, IdentifierTypeOf]> = [
+  [ASSET_PREFIX, IdentifierTypeOf.asset],
+  [AUTH_PREFIX, IdentifierTypeOf.auth],
+  [SPACE_PREFIX, IdentifierTypeOf.chainSpace],
+  [DID_PREFIX, IdentifierTypeOf.did],
+  [RATING_PREFIX, IdentifierTypeOf.rating],
+  [STATEMENT_PREFIX, IdentifierTypeOf.statement],
+  [SCHEMA_PREFIX, IdentifierTypeOf.schema],
+]
+
+/**
+ * Infers the identifier type tracked by the `identifier` pallet from the prefix of a URI.
+ *
+ * @param uri - The URI of the identifier, e.g. `stmt:cord:...`, `space:cord:...` or `did:cord:...`.
+ * @returns The `IdentifierTypeOf` matching the URI prefix.
+ *
+ * @example
+ * ```typescript
+ * const type = identifierTypeFromUri('space:cord:example_uri');
+ * console.log(type); // 'ChainSpace'
+ * ```
+ *
+ * @throws {SDKErrors.InvalidURIError} If the URI prefix does not belong to a tracked identifier type.
+ */
+export function identifierTypeFromUri(uri: string): IdentifierTypeOf {
+  const match = PREFIX_TO_IDENTIFIER_TYPE.find(([prefix]) =>
+    uri.startsWith(prefix)
+  )
+  if (!match) {
+    throw new SDKErrors.InvalidURIError(
+      `Unable to infer the identifier type of "${uri}"`
+    )
+  }
+  return match[1]
+}
+
+/**
+ * Converts a URI into the key used by the `identifier` pallet storage.
+ *
+ * @remarks
+ * Statement element URIs are reduced to their statement identifier, as the history is kept per statement.
+ * DIDs are tracked by their SS58 address.
+ *
+ * @param uri - The URI of the identifier.
+ * @param identifierType - The identifier type inferred from the URI.
+ * @returns The storage key of the identifier.
+ *
+ * @internal
+ */
+function timelineKeyFromUri(
+  uri: string,
+  identifierType: IdentifierTypeOf
+): string {
+  if (identifierType === IdentifierTypeOf.did) {
+    return uri.slice(DID_PREFIX.length).split('#')[0]
+  }
+  if (
+    identifierType === IdentifierTypeOf.statement &&
+    uri.split(':').length === 4
+  ) {
+    return uriToIdentifier(elementUriToStatementUri(uri as StatementUri))
+  }
+  return uriToIdentifier(uri)
+}
+
+/**
+ * Decodes an identifier event entry from its blockchain-encoded format.
+ *
+ * @param encoded - The encoded event entry retrieved from the `identifiers` storage.
+ * @param uri - The URI of the identifier the entry belongs to.
+ * @param identifierType - The type of the identifier.
+ * @returns The decoded `IIdentifierEvent`, without timestamp.
+ *
+ * @internal
+ */
+export function decodeIdentifierEventFromChain(
+  encoded: CordIdentifierEventEntry,
+  uri: string,
+  identifierType: IdentifierTypeOf
+): IIdentifierEvent {
+  return {
+    uri,
+    identifierType,
+    action: encoded.action.type as IdentifierActionOf,
+    blockNumber: encoded.location.height.toNumber(),
+    extrinsicIndex: encoded.location.index.toNumber(),
+  }
+}
+
+/**
+ * Fetches the timestamp of a block from the `timestamp` pallet.
+ *
+ * @param blockNumber - The number of the block.
+ * @returns The block timestamp in milliseconds since the Unix epoch, or `undefined` if the state of the
+ *          block is not available on the connected node (e.g. it has been pruned).
+ *
+ * @internal
+ */
+async function getBlockTimestamp(
+  blockNumber: number
+): Promise<number | undefined> {
+  const api = ConfigService.get('api')
+  try {
+    const blockHash = await api.rpc.chain.getBlockHash(blockNumber)
+    const apiAt = await api.at(blockHash)
+    const timestamp = await apiAt.query.timestamp.now()
+    return timestamp.toNumber()
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Fetches the activity timeline of an identifier from the CORD blockchain.
+ *
+ * @remarks
+ * The identifier type is inferred from the URI prefix (`asset:cord:`, `auth:cord:`, `space:cord:`, `did:cord:`,
+ * `rating:cord:`, `stmt:cord:` or `schema:cord:`). Every entry of the on-chain history is decoded into an
+ * `IIdentifierEvent` with its action, block number, extrinsic index and block timestamp. The timestamp is
+ * read from the state of the block, so it is left `undefined` when the connected node no longer holds that state.
+ *
+ * @param uri - The URI of the identifier whose timeline should be fetched.
+ * @returns A promise that resolves to the events of the identifier in chronological order. The list is empty
+ *          if the chain holds no history for the identifier.
+ *
+ * @example
+ * ```typescript
+ * const timeline = await getIdentifierTimeline('stmt:cord:example_uri');
+ * timeline.forEach(({ action, blockNumber, timestamp }) => {
+ *   console.log(action, blockNumber, timestamp && new Date(timestamp));
+ * });
+ * ```
+ *
+ * @throws {SDKErrors.InvalidURIError} If the identifier type cannot be inferred from the URI.
+ * @throws {SDKErrors.InvalidIdentifierError} If the URI does not contain a valid identifier.
+ */
+export async function getIdentifierTimeline(
+  uri: string
+): Promise<IIdentifierEvent[]> {
+  const api = ConfigService.get('api')
+  const identifierType = identifierTypeFromUri(uri)
+  const key = timelineKeyFromUri(uri, identifierType)
+
+  const encoded = await api.query.identifier.identifiers(key, identifierType)
+  if (encoded.isNone) {
+    return []
+  }
+
+  const events = encoded
+    .unwrap()
+    .map((entry) => decodeIdentifierEventFromChain(entry, uri, identifierType))
+
+  const blockNumbers = [...new Set(events.map((event) => event.blockNumber))]
+  const timestamps = new Map(
+    await Promise.all(
+      blockNumbers.map(
+        async (blockNumber) =>
+          [blockNumber, await getBlockTimestamp(blockNumber)] as const
+      )
+    )
+  )
+
+  return events.map((event) => ({
+    ...event,
+    timestamp: timestamps.get(event.blockNumber),
+  }))
+}
@@ -1 +1,2 @@
 export * from './Identifier.js'
+export * from './Identifier.chain.js'
@@ -0,0 +1,262 @@
+/**
+ * @group unit/messaging
+ */
+
+import type {
+  DidCommEncryptedMessage,
+  DidDocument,
+  DidResolve,
+  DidResourceUri,
+  DidUri,
+  KeyAgreementCallback,
+} from '@cord.network/types'
+import { Crypto, SDKErrors } from '@cord.network/utils'
+
+import fixture from './__fixtures__/didCommVectors.json'
+import { packEncrypted, unpackEncrypted } from './DidComm'
+
+/*
+ * The X25519 keys of Alice and Bob from appendix A of the DIDComm v2 specification
+ * (https://identity.foundation/didcomm-messaging/spec/#appendix-a-test-vectors-and-keys), as base64url encoded public
+ * and secret keys. The fixtures were encrypted with these keys by the reference implementation didcomm-rust, from the
+ * plaintext message of the specification's appendix C.
+ */
+const keys: Record<string, { x: string; d: string }> = {
+  'did:example:alice#key-x25519-1': {
+    x: 'avH0O2Y4tqLAq8y9zpianr8ajii5m4F_mICrzNlatXs',
+    d: 'r-jK2cO3taR8LQnJB1_ikLBTAnOtShJOsHXRUWT-aZA',
+  },
+  'did:example:bob#key-x25519-1': {
+    x: 'GDTrI66K0pFfO54tlCSvfjjNapIs44dzpneBgyx0S3E',
+    d: 'b9NnuOCB0hm7YGNvaE9DMhwH_wjZA1-gWD6dA0JWdL0',
+  },
+  'did:example:bob#key-x25519-2': {
+    x: 'UT9S3F5ep16KSNBBShU2wh3qSfqYjlasZimn0mB8_VM',
+    d: 'p-vteoF1gopny1HXywt76xz_uC83UUmrgszsI-ThBKk',
+  },
+  'did:example:bob#key-x25519-3': {
+    x: '82k2BTUiywKv49fKLZa-WwDi8RBf0tB0M8bvSAUQ3yY',
+    d: 'f9WJeuQXEItkGM8shN4dqFr5fLQLBasHnWZ-8dPaSo0',
+  },
+}
+
+// the recipient key ids of the fixtures are not CORD DID resources
+const vectors = fixture as unknown as Record<
+  keyof typeof fixture,
+  DidCommEncryptedMessage
+>
+
+const alice = 'did:example:alice' as unknown as DidUri
+const bob = 'did:example:bob' as unknown as DidUri
+const bobKeys = Object.keys(keys).filter((kid) =>
+  kid.startsWith(`${bob}#`)
+) as DidResourceUri[]
+
+const plaintext = {
+  id: '1234567890',
+  typ: 'application/didcomm-plain+json',
+  type: 'http://example.com/protocols/lets_do_lunch/1.0/proposal',
+  to: [bob],
+  created_time: 1516269022,
+  expires_time: 1516385931,
+  body: { messagespecificattribute: 'and its value' },
+}
+
+function getDocument(did: DidUri): DidDocument {
+  return {
+    uri: did,
+    keyAgreement: Object.entries(keys)
+      .filter(([kid]) => kid.startsWith(`${did}#`))
+      .map(([kid, { x }]) => ({
+        id: kid.slice(did.length) as `#${string}`,
+        type: 'x25519',
+        publicKey: Crypto.base64UrlDecode(x),
+      })),
+  } as DidDocument
+}
+
+const didResolve: DidResolve = async (did) =>
+  [alice, bob].includes(did)
+    ? { document: getDocument(did), metadata: { deactivated: false } }
+    : null
+
+/*
+ * A key agreement callback holding the secret keys of the given key URIs.
+ */
+function getKeyAgreement(kids: string[]): KeyAgreementCallback {
+  return async ({ peerPublicKey, keyUri }) => {
+    if (!kids.includes(keyUri)) {
+      throw new Error(`Unknown key "${keyUri}"`)
+    }
+    return {
+      sharedSecret: Crypto.x25519Agreement(
+        Crypto.base64UrlDecode(keys[keyUri].d),
+        peerPublicKey
+      ),
+    }
+  }
+}
+
+function getHeader(jwe: DidCommEncryptedMessage): Record<string, unknown> {
+  return JSON.parse(
+    new TextDecoder().decode(Crypto.base64UrlDecode(jwe.protected))
+  )
+}
+
+describe('DIDComm v2 test vectors', () => {
+  it.each([
+    ['A256CBC-HS512', vectors.anoncryptA256CbcHs512],
+    ['A256GCM', vectors.anoncryptA256Gcm],
+  ])(
+    'unpacks an anoncrypted %s message with each key of the receiver',
+    async (_enc, vector) => {
+      await Promise.all(
+        bobKeys.map(async (kid) => {
+          const { message, metadata } = await unpackEncrypted(vector, {
+            receiver: bob,
+            keyAgreement: getKeyAgreement([kid]),
+            didResolve,
+          })
+          expect(message).toEqual(plaintext)
+          expect(metadata).toEqual({
+            authenticated: false,
+            recipientKeyUri: kid,
+            encryptedTo: bobKeys,
+          })
+        })
+      )
+    }
+  )
+
+  it('unpacks an authcrypted message and authenticates its sender', async () => {
+    const { message, metadata } = await unpackEncrypted(
+      JSON.stringify(vectors.authcrypt),
+      { receiver: bob, keyAgreement: getKeyAgreement(bobKeys), didResolve }
+    )
+    expect(message).toEqual({ ...plaintext, from: alice })
+    expect(metadata).toEqual({
+      authenticated: true,
+      senderKeyUri: `${alice}#key-x25519-1`,
+      recipientKeyUri: bobKeys[0],
+      encryptedTo: bobKeys,
+    })
+  })
+
+  it('rejects an authcrypted message if the resolved sender key differs', async () => {
+    const otherKey: DidResolve = async (did) => {
+      const resolved = await didResolve(did)
+      if (did !== alice || !resolved?.document) return resolved
+      const [key] = resolved.document.keyAgreement ?? []
+      return {
+        ...resolved,
+        document: {
+          ...resolved.document,
+          keyAgreement: [{ ...key, publicKey: new Uint8Array(32).fill(9) }],
+        },
+      }
+    }
+    await expect(
+      unpackEncrypted(vectors.authcrypt, {
+        receiver: bob,
+        keyAgreement: getKeyAgreement(bobKeys),
+        didResolve: otherKey,
+      })
+    ).rejects.toThrow(SDKErrors.DecodingMessageError)
+  })
+
+  it('rejects a message with a modified ciphertext', async () => {
+    const { ciphertext } = vectors.anoncryptA256CbcHs512
+    await expect(
+      unpackEncrypted(
+        {
+          ...vectors.anoncryptA256CbcHs512,
+          ciphertext: `${ciphertext.slice(0, -4)}AAAA`,
+        },
+        { receiver: bob, keyAgreement: getKeyAgreement(bobKeys), didResolve }
+      )
+    ).rejects.toThrow(SDKErrors.DecodingMessageError)
+  })
+
+  it('rejects a message not encrypted for the receiver', async () => {
+    await expect(
+      unpackEncrypted(vectors.anoncryptA256CbcHs512, {
+        receiver: alice,
+        keyAgreement: getKeyAgreement(Object.keys(keys)),
+        didResolve,
+      })
+    ).rejects.toThrow(SDKErrors.DecodingMessageError)
+  })
+})
+
+describe('packEncrypted', () => {
+  const message = {
+    id: '1234567890',
+    type: 'http://example.com/protocols/lets_do_lunch/1.0/proposal',
+    from: alice,
+    to: [bob],
+    body: { messagespecificattribute: 'and its value' },
+  }
+
+  it('authcrypts a message which the receiver can unpack', async () => {
+    const encrypted = await packEncrypted(message, {
+      from: `${alice}#key-x25519-1` as DidResourceUri,
+      keyAgreement: getKeyAgreement([`${alice}#key-x25519-1`]),
+      didResolve,
+    })
+    const header = getHeader(encrypted)
+    expect(header).toMatchObject({
+      alg: 'ECDH-1PU+A256KW',
+      enc: 'A256CBC-HS512',
+      skid: `${alice}#key-x25519-1`,
+    })
+    // the key derivation of both implementations hashes the same recipient key ids
+    expect(header.apv).toBe(getHeader(vectors.authcrypt).apv)
+    expect(encrypted.recipients.map(({ header: { kid } }) => kid)).toEqual(
+      bobKeys
+    )
+
+    const unpacked = await unpackEncrypted(encrypted, {
+      receiver: bob,
+      keyAgreement: getKeyAgreement([bobKeys[2]]),
+      didResolve,
+    })
+    expect(unpacked.message).toEqual({
+      typ: 'application/didcomm-plain+json',
+      ...message,
+    })
+    expect(unpacked.metadata).toMatchObject({
+      authenticated: true,
+      senderKeyUri: `${alice}#key-x25519-1`,
+      recipientKeyUri: bobKeys[2],
+    })
+  })
+
+  it('anoncrypts a message which the receiver can unpack', async () => {
+    const { from, ...anonymous } = message
+    const encrypted = await packEncrypted(anonymous, { didResolve })
+    const header = getHeader(encrypted)
+    expect(header).toMatchObject({
+      alg: 'ECDH-ES+A256KW',
+      enc: 'A256CBC-HS512',
+    })
+    expect(header).not.toHaveProperty('skid')
+
+    const unpacked = await unpackEncrypted(encrypted, {
+      receiver: bob,
+      keyAgreement: getKeyAgreement(bobKeys),
+      didResolve,
+    })
+    expect(unpacked.message.body).toEqual(message.body)
+    expect(unpacked.metadata.authenticated).toBe(false)
+  })
+
+  it('rejects a sender key of another DID than the sender of the message', async () => {
+    await expect(
+      packEncrypted(message, {
+        from: `${bob}#key-x25519-1` as DidResourceUri,
+        keyAgreement: getKeyAgreement(bobKeys),
+        didResolve,
+      })
+    ).rejects.toThrow(SDKErrors.IdentityMismatchError)
+  })
+})
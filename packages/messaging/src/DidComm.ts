@@ -0,0 +1,609 @@
+/**
+ * @packageDocumentation
+ * @module DidComm
+ *
+ * The `DidComm` module packs and unpacks [DIDComm v2](https://identity.foundation/didcomm-messaging/spec/v2.0/)
+ * encrypted messages, so CORD DIDs can exchange messages with agents that do not use the SDK.
+ *
+ * Messages are encrypted for all x25519 `keyAgreement` keys of the receivers, resolved through the DID resolver.
+ * Authenticated encryption (authcrypt, ECDH-1PU+A256KW) additionally proves the sender's `keyAgreement` key, while
+ * anonymous encryption (anoncrypt, ECDH-ES+A256KW) reveals nothing about the sender. Content is encrypted with
+ * A256CBC-HS512; A256GCM is accepted when unpacking.
+ *
+ * The key wrapping algorithms need the raw shared secret of the key agreement, which the box based
+ * [[EncryptCallback]] does not expose, so the own `keyAgreement` keys are used through a [[KeyAgreementCallback]].
+ *
+ * @example
+ * ```typescript
+ * const packed = await DidComm.packEncrypted(message, {
+ *   from: `${aliceDid.uri}${aliceDid.keyAgreement[0].id}`,
+ *   keyAgreement: aliceKeyAgreementCallback,
+ * });
+ * // ... on the receiver side
+ * const { message, metadata } = await DidComm.unpackEncrypted(packed, {
+ *   receiver: bobDid.uri,
+ *   keyAgreement: bobKeyAgreementCallback,
+ * });
+ * ```
+ */
+
+import { stringToU8a, u8aConcat, u8aEq, u8aToString } from '@polkadot/util'
+import { randomAsU8a, sha256AsU8a } from '@polkadot/util-crypto'
+
+import type {
+  DidCommEncryptedMessage,
+  DidCommMessage,
+  DidCommRecipient,
+  DidCommUnpackMetadata,
+  DidResolve,
+  DidResourceUri,
+  DidServiceEndpoint,
+  DidUri,
+  KeyAgreementCallback,
+} from '@cord.network/types'
+import { Crypto, SDKErrors } from '@cord.network/utils'
+import * as Did from '@cord.network/did'
+
+export const DIDCOMM_ENCRYPTED_MEDIA_TYPE = 'application/didcomm-encrypted+json'
+export const DIDCOMM_PLAIN_MEDIA_TYPE = 'application/didcomm-plain+json'
+export const DIDCOMM_SERVICE_TYPE = 'DIDCommMessaging'
+
+type KeyWrapAlgorithm = 'ECDH-1PU+A256KW' | 'ECDH-ES+A256KW'
+type ContentEncryptionAlgorithm = 'A256CBC-HS512' | 'A256GCM'
+
+interface ProtectedHeader {
+  typ?: string
+  alg: KeyWrapAlgorithm
+  enc: ContentEncryptionAlgorithm
+  skid?: DidResourceUri
+  apu?: string
+  apv: string
+  epk: { kty: 'OKP'; crv: 'X25519'; x: string }
+}
+
+const EMPTY = new Uint8Array()
+
+// The generic DID syntax of DID Core, for peers using other DID methods.
+const DID_REGEX = /^did:[a-z0-9]+:(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2}|:)+$/
+
+/**
+ * Resolves a `keyAgreement` key of a peer, which may use any DID method supported by `didResolve`. Unlike
+ * `Did.resolveKey`, the key URI is not parsed as a CORD DID.
+ *
+ * @internal
+ */
+async function resolvePeerKey(
+  keyUri: DidResourceUri,
+  didResolve: DidResolve
+): Promise<Uint8Array> {
+  const [did, fragment] = keyUri.split('#')
+  if (!fragment) {
+    throw new SDKErrors.DidError(
+      `Key URI "${keyUri}" is not a valid DID resource`
+    )
+  }
+  const resolved = await didResolve(did as DidUri)
+  if (!resolved) {
+    throw new SDKErrors.DidNotFoundError(`DID "${did}" could not be resolved`)
+  }
+  if (resolved.metadata.canonicalId) {
+    throw new SDKErrors.DidResolveUpgradedDidError()
+  }
+  if (!resolved.document) {
+    throw new SDKErrors.DidDeactivatedError()
+  }
+  const key = resolved.document.keyAgreement?.find(
+    ({ id }) => id === `#${fragment}`
+  )
+  if (!key) {
+    throw new SDKErrors.DidError(
+      `No key "${keyUri}" for the verification method "keyAgreement"`
+    )
+  }
+  return key.publicKey
+}
+
+function getSubtle(): typeof globalThis.crypto.subtle {
+  if (typeof globalThis.crypto?.subtle === 'undefined') {
+    throw new SDKErrors.EncryptionError(
+      'DIDComm encryption requires the Web Crypto API'
+    )
+  }
+  return globalThis.crypto.subtle
+}
+
+function uint32BE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4)
+  new DataView(bytes.buffer).setUint32(0, value)
+  return bytes
+}
+
+function lengthPrefixed(data: Uint8Array): Uint8Array {
+  return u8aConcat(uint32BE(data.length), data)
+}
+
+/**
+ * Derives a key wrapping key with the Concat KDF of NIST SP 800-56A, as specified for ECDH-ES in RFC 7518 and for
+ * ECDH-1PU, where the tag of the content encryption is appended to the other info, in draft-madden-jose-ecdh-1pu-04.
+ *
+ * @internal
+ */
+function concatKdf(
+  sharedSecret: Uint8Array,
+  alg: KeyWrapAlgorithm,
+  apu: Uint8Array,
+  apv: Uint8Array,
+  tag = EMPTY
+): Uint8Array {
+  const otherInfo = u8aConcat(
+    lengthPrefixed(stringToU8a(alg)),
+    lengthPrefixed(apu),
+    lengthPrefixed(apv),
+    uint32BE(256),
+    alg === 'ECDH-1PU+A256KW' ? lengthPrefixed(tag) : EMPTY
+  )
+  return sha256AsU8a(u8aConcat(uint32BE(1), sharedSecret, otherInfo))
+}
+
+async function wrapKey(kek: Uint8Array, cek: Uint8Array): Promise<Uint8Array> {
+  const subtle = getSubtle()
+  const wrappingKey = await subtle.importKey('raw', kek, 'AES-KW', false, [
+    'wrapKey',
+  ])
+  // AES-KW only wraps CryptoKeys; an extractable HMAC key holds the raw CEK.
+  const key = await subtle.importKey(
+    'raw',
+    cek,
+    { name: 'HMAC', hash: 'SHA-256' },
+    true,
+    ['sign']
+  )
+  return new Uint8Array(await subtle.wrapKey('raw', key, wrappingKey, 'AES-KW'))
+}
+
+async function unwrapKey(
+  kek: Uint8Array,
+  wrapped: Uint8Array
+): Promise<Uint8Array> {
+  const subtle = getSubtle()
+  const wrappingKey = await subtle.importKey('raw', kek, 'AES-KW', false, [
+    'unwrapKey',
+  ])
+  const key = await subtle.unwrapKey(
+    'raw',
+    wrapped,
+    wrappingKey,
+    'AES-KW',
+    { name: 'HMAC', hash: 'SHA-256' },
+    true,
+    ['sign']
+  )
+  return new Uint8Array(await subtle.exportKey('raw', key))
+}
+
+/**
+ * Computes the authentication tag of AES_256_CBC_HMAC_SHA_512, as specified in RFC 7518, section 5.2.
+ *
+ * @internal
+ */
+async function cbcHmacTag(
+  macKey: Uint8Array,
+  aad: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array
+): Promise<Uint8Array> {
+  const subtle = getSubtle()
+  const aadBits = new Uint8Array(8)
+  new DataView(aadBits.buffer).setBigUint64(0, BigInt(aad.length * 8))
+  const key = await subtle.importKey(
+    'raw',
+    macKey,
+    { name: 'HMAC', hash: 'SHA-512' },
+    false,
+    ['sign']
+  )
+  const mac = await subtle.sign(
+    'HMAC',
+    key,
+    u8aConcat(aad, iv, ciphertext, aadBits)
+  )
+  return new Uint8Array(mac).subarray(0, 32)
+}
+
+async function encryptContent(
+  plaintext: Uint8Array,
+  aad: Uint8Array
+): Promise<{
+  cek: Uint8Array
+  iv: Uint8Array
+  ciphertext: Uint8Array
+  tag: Uint8Array
+}> {
+  const cek = randomAsU8a(64)
+  const iv = randomAsU8a(16)
+  const key = await getSubtle().importKey(
+    'raw',
+    cek.subarray(32),
+    'AES-CBC',
+    false,
+    ['encrypt']
+  )
+  const ciphertext = new Uint8Array(
+    await getSubtle().encrypt({ name: 'AES-CBC', iv }, key, plaintext)
+  )
+  const tag = await cbcHmacTag(cek.subarray(0, 32), aad, iv, ciphertext)
+  return { cek, iv, ciphertext, tag }
+}
+
+async function decryptContent(
+  enc: ContentEncryptionAlgorithm,
+  cek: Uint8Array,
+  aad: Uint8Array,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array
+): Promise<Uint8Array> {
+  const subtle = getSubtle()
+  if (enc === 'A256GCM') {
+    const key = await subtle.importKey('raw', cek, 'AES-GCM', false, [
+      'decrypt',
+    ])
+    return new Uint8Array(
+      await subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: aad },
+        key,
+        u8aConcat(ciphertext, tag)
+      )
+    )
+  }
+  const expectedTag = await cbcHmacTag(cek.subarray(0, 32), aad, iv, ciphertext)
+  if (!u8aEq(expectedTag, tag)) {
+    throw new SDKErrors.DecodingMessageError(
+      'The authentication tag of the message is invalid'
+    )
+  }
+  const key = await subtle.importKey(
+    'raw',
+    cek.subarray(32),
+    'AES-CBC',
+    false,
+    ['decrypt']
+  )
+  return new Uint8Array(
+    await subtle.decrypt({ name: 'AES-CBC', iv }, key, ciphertext)
+  )
+}
+
+/**
+ * Computes the `apv` header, the hash of the sorted ids of all recipient keys.
+ *
+ * @internal
+ */
+function getApv(kids: DidResourceUri[]): Uint8Array {
+  return sha256AsU8a(stringToU8a([...kids].sort().join('.')))
+}
+
+/**
+ * Checks the structure of a plaintext DIDComm message. The sender and receivers may use any DID method.
+ *
+ * @param message The plaintext message.
+ */
+export function verifyDidCommMessage(message: DidCommMessage): void {
+  const { id, type, from, to, body } = message
+  if (typeof id !== 'string' || typeof type !== 'string') {
+    throw new SDKErrors.MessageBodyMalformedError(
+      'A DIDComm message must have an id and a type'
+    )
+  }
+  if (typeof body !== 'object' || body === null) {
+    throw new SDKErrors.MessageBodyMalformedError(
+      'The body of a DIDComm message must be an object'
+    )
+  }
+  const peers = from !== undefined ? [from, ...(to ?? [])] : to ?? []
+  peers.forEach((did) => {
+    if (typeof did !== 'string' || !DID_REGEX.test(did)) {
+      throw new SDKErrors.MessageBodyMalformedError(
+        `"${did}" is not a valid DID`
+      )
+    }
+  })
+}
+
+/**
+ * Finds the DIDComm messaging services of a DID, to which packed messages for the DID are delivered.
+ *
+ * @param did The DID.
+ * @param didResolve Optional function resolving the DID. Defaults to [[resolve]] of the DID module.
+ * @returns The services of type `DIDCommMessaging`.
+ */
+export async function getDidCommServices(
+  did: DidUri,
+  didResolve: DidResolve = Did.resolve
+): Promise<DidServiceEndpoint[]> {
+  const resolved = await didResolve(did)
+  if (!resolved?.document) {
+    throw new SDKErrors.DidNotFoundError(`DID "${did}" could not be resolved`)
+  }
+  return (resolved.document.service ?? []).filter(({ type }) =>
+    type.includes(DIDCOMM_SERVICE_TYPE)
+  )
+}
+
+/**
+ * Encrypts a DIDComm message for all `keyAgreement` keys of the DIDs in its `to` field.
+ *
+ * With a `from` key, the message is authcrypted with ECDH-1PU+A256KW, otherwise it is anoncrypted with
+ * ECDH-ES+A256KW. The key must belong to the DID in the `from` field of the message.
+ *
+ * @param message The plaintext message.
+ * @param options The packing options.
+ * @param options.from The `keyAgreement` key of the sender, to authenticate the message.
+ * @param options.keyAgreement The callback performing the key agreement with the `from` key; required for authcrypt.
+ * @param options.didResolve The function resolving the receiver DIDs. Defaults to [[resolve]] of the DID module.
+ * @returns The encrypted message, to be sent as JSON with the media type `application/didcomm-encrypted+json`.
+ */
+export async function packEncrypted(
+  message: DidCommMessage,
+  {
+    from,
+    keyAgreement,
+    didResolve = Did.resolve,
+  }: {
+    from?: DidResourceUri
+    keyAgreement?: KeyAgreementCallback
+    didResolve?: DidResolve
+  } = {}
+): Promise<DidCommEncryptedMessage> {
+  verifyDidCommMessage(message)
+  if (message.to === undefined || message.to.length === 0) {
+    throw new SDKErrors.MessageBodyMalformedError(
+      'A DIDComm message must name its receivers to be encrypted'
+    )
+  }
+  if (from) {
+    if (from.split('#')[0] !== message.from) {
+      throw new SDKErrors.IdentityMismatchError('encryption key', 'Sender')
+    }
+    if (!keyAgreement) {
+      throw new SDKErrors.EncryptionError(
+        'Authenticated encryption requires a key agreement callback'
+      )
+    }
+  }
+
+  const recipients = (
+    await Promise.all(
+      message.to.map(async (receiver) => {
+        // receivers using other DID methods need a resolver supporting them
+        const resolved = await didResolve(receiver as DidUri)
+        if (!resolved?.document) {
+          throw new SDKErrors.DidNotFoundError(
+            `DID "${receiver}" could not be resolved`
+          )
+        }
+        const { keyAgreement: keys = [] } = resolved.document
+        if (keys.length === 0) {
+          throw new SDKErrors.DidError(
+            `DID "${receiver}" has no keyAgreement key`
+          )
+        }
+        return keys.map(({ id, publicKey }) => ({
+          kid: `${receiver}${id}` as DidResourceUri,
+          publicKey,
+        }))
+      })
+    )
+  ).flat()
+
+  const alg: KeyWrapAlgorithm = from ? 'ECDH-1PU+A256KW' : 'ECDH-ES+A256KW'
+  const apu = from ? stringToU8a(from) : EMPTY
+  const apv = getApv(recipients.map(({ kid }) => kid))
+  const ephemeral = Crypto.naclBoxPairFromSecret(randomAsU8a(32))
+  const header: ProtectedHeader = {
+    typ: DIDCOMM_ENCRYPTED_MEDIA_TYPE,
+    alg,
+    enc: 'A256CBC-HS512',
+    ...(from && { skid: from, apu: Crypto.base64UrlEncode(apu) }),
+    apv: Crypto.base64UrlEncode(apv),
+    epk: {
+      kty: 'OKP',
+      crv: 'X25519',
+      x: Crypto.base64UrlEncode(ephemeral.publicKey),
+    },
+  }
+  const protectedHeader = Crypto.base64UrlEncode(
+    stringToU8a(JSON.stringify(header))
+  )
+
+  const { cek, iv, ciphertext, tag } = await encryptContent(
+    stringToU8a(JSON.stringify({ typ: DIDCOMM_PLAIN_MEDIA_TYPE, ...message })),
+    stringToU8a(protectedHeader)
+  )
+
+  const encryptedKeys = await Promise.all(
+    recipients.map(async ({ kid, publicKey }) => {
+      let sharedSecret = Crypto.x25519Agreement(ephemeral.secretKey, publicKey)
+      if (from && keyAgreement) {
+        const { sharedSecret: staticSecret } = await keyAgreement({
+          peerPublicKey: publicKey,
+          keyUri: from,
+        })
+        sharedSecret = u8aConcat(sharedSecret, staticSecret)
+      }
+      const kek = concatKdf(sharedSecret, alg, apu, apv, tag)
+      return {
+        header: { kid },
+        encrypted_key: Crypto.base64UrlEncode(await wrapKey(kek, cek)),
+      }
+    })
+  )
+
+  return {
+    protected: protectedHeader,
+    recipients: encryptedKeys,
+    iv: Crypto.base64UrlEncode(iv),
+    ciphertext: Crypto.base64UrlEncode(ciphertext),
+    tag: Crypto.base64UrlEncode(tag),
+  }
+}
+
+/**
+ * Decrypts a DIDComm message encrypted for a `keyAgreement` key of the receiver.
+ *
+ * For authcrypted messages, the sender key is resolved and the message is rejected unless the key belongs to the DID
+ * in the `from` field of the message. Messages naming other receivers in their `to` field are rejected as well.
+ * Recipient keys of other DIDs are ignored. The receiver, like the sender, may use any DID method supported by
+ * `didResolve` and `keyAgreement`.
+ *
+ * @param encrypted The encrypted message, as object or JSON string.
+ * @param options The unpacking options.
+ * @param options.receiver The DID receiving the message.
+ * @param options.keyAgreement The callback performing the key agreement with the `keyAgreement` keys of the receiver.
+ * @param options.didResolve The function resolving the sender DID. Defaults to [[resolve]] of the DID module.
+ * @returns The plaintext message and whether its sender is authenticated.
+ */
+export async function unpackEncrypted(
+  encrypted: DidCommEncryptedMessage | string,
+  {
+    receiver,
+    keyAgreement,
+    didResolve = Did.resolve,
+  }: {
+    receiver: DidUri
+    keyAgreement: KeyAgreementCallback
+    didResolve?: DidResolve
+  }
+): Promise<{ message: DidCommMessage; metadata: DidCommUnpackMetadata }> {
+  if (!DID_REGEX.test(receiver)) {
+    throw new SDKErrors.DidError(`"${receiver}" is not a valid DID`)
+  }
+  const jwe: DidCommEncryptedMessage =
+    typeof encrypted === 'string' ? JSON.parse(encrypted) : encrypted
+  let header: ProtectedHeader
+  try {
+    header = JSON.parse(u8aToString(Crypto.base64UrlDecode(jwe.protected)))
+  } catch (cause) {
+    throw new SDKErrors.DecodingMessageError(
+      'The protected header of the message is malformed',
+      { cause }
+    )
+  }
+  const { alg, enc, skid, epk } = header
+  if (
+    !['ECDH-1PU+A256KW', 'ECDH-ES+A256KW'].includes(alg) ||
+    !['A256CBC-HS512', 'A256GCM'].includes(enc) ||
+    epk?.crv !== 'X25519'
+  ) {
+    throw new SDKErrors.DecodingMessageError(
+      `Unsupported encryption "${alg}" with "${enc}"`
+    )
+  }
+  const authenticated = alg === 'ECDH-1PU+A256KW'
+  if (authenticated && (!skid || enc !== 'A256CBC-HS512')) {
+    throw new SDKErrors.DecodingMessageError(
+      'An authcrypted message must name its sender key and use A256CBC-HS512'
+    )
+  }
+
+  const encryptedTo = jwe.recipients.map(({ header: { kid } }) => kid)
+  const apv = Crypto.base64UrlDecode(header.apv)
+  if (!u8aEq(apv, getApv(encryptedTo))) {
+    throw new SDKErrors.DecodingMessageError(
+      'The apv header does not match the recipients'
+    )
+  }
+  const apu = header.apu ? Crypto.base64UrlDecode(header.apu) : EMPTY
+  if (authenticated && u8aToString(apu) !== skid) {
+    throw new SDKErrors.DecodingMessageError(
+      'The apu header does not match the sender key'
+    )
+  }
+
+  const recipients = jwe.recipients.filter(
+    ({ header: { kid } }) => kid.split('#')[0] === receiver
+  )
+  if (recipients.length === 0) {
+    throw new SDKErrors.DecodingMessageError(
+      `The message is not encrypted for "${receiver}"`
+    )
+  }
+  // the sender key is only part of the key derivation of authcrypted messages
+  const senderKey =
+    authenticated && skid ? await resolvePeerKey(skid, didResolve) : undefined
+  const tag = Crypto.base64UrlDecode(jwe.tag)
+
+  async function decryptFor(kid: DidResourceUri): Promise<DidCommMessage> {
+    let { sharedSecret } = await keyAgreement({
+      peerPublicKey: Crypto.base64UrlDecode(epk.x),
+      keyUri: kid,
+    })
+    if (senderKey) {
+      const { sharedSecret: staticSecret } = await keyAgreement({
+        peerPublicKey: senderKey,
+        keyUri: kid,
+      })
+      sharedSecret = u8aConcat(sharedSecret, staticSecret)
+    }
+    const kek = concatKdf(sharedSecret, alg, apu, apv, tag)
+    const { encrypted_key: encryptedKey } = recipients.find(
+      ({ header: { kid: recipientKid } }) => recipientKid === kid
+    ) as DidCommRecipient
+    const cek = await unwrapKey(kek, Crypto.base64UrlDecode(encryptedKey))
+    const plaintext = await decryptContent(
+      enc,
+      cek,
+      stringToU8a(jwe.protected),
+      Crypto.base64UrlDecode(jwe.iv),
+      Crypto.base64UrlDecode(jwe.ciphertext),
+      tag
+    )
+    const message = JSON.parse(u8aToString(plaintext))
+    if (typeof message !== 'object' || message === null) {
+      throw new SDKErrors.DecodingMessageError(
+        'The decrypted message is not a JSON object'
+      )
+    }
+    return message
+  }
+
+  // The receiver may have several keyAgreement keys; the first one the message can be decrypted with is used.
+  async function decryptForFirst(
+    kids: DidResourceUri[],
+    lastError?: unknown
+  ): Promise<{ message: DidCommMessage; recipientKeyUri: DidResourceUri }> {
+    if (kids.length === 0) {
+      throw new SDKErrors.DecodingMessageError(
+        'Error decrypting or parsing the message',
+        { cause: lastError }
+      )
+    }
+    const [kid, ...otherKids] = kids
+    try {
+      return { message: await decryptFor(kid), recipientKeyUri: kid }
+    } catch (error) {
+      return decryptForFirst(otherKids, error)
+    }
+  }
+  const { message, recipientKeyUri } = await decryptForFirst(
+    recipients.map(({ header: { kid } }) => kid)
+  )
+
+  verifyDidCommMessage(message)
+  if (authenticated && skid?.split('#')[0] !== message.from) {
+    throw new SDKErrors.IdentityMismatchError('encryption key', 'Sender')
+  }
+  if (message.to && !message.to.includes(receiver)) {
+    throw new SDKErrors.IdentityMismatchError('receiver key', 'Receiver')
+  }
+
+  return {
+    message,
+    metadata: {
+      authenticated,
+      ...(authenticated && { senderKeyUri: skid }),
+      recipientKeyUri,
+      encryptedTo,
+    },
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * @group unit/messaging
+ */
+
+import { stringToU8a, u8aToHex } from '@polkadot/util'
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+
+import type {
+  CordEncryptionKeypair,
+  DecryptCallback,
+  DidResolveKey,
+  DidResourceUri,
+  DidUri,
+  EncryptCallback,
+  HexString,
+  IEncryptedMessage,
+  IMessage,
+  MessageBody,
+  MessageNonceStore,
+} from '@cord.network/types'
+import { Crypto, SDKErrors } from '@cord.network/utils'
+import * as Did from '@cord.network/did'
+
+import { DEFAULT_MESSAGE_MAX_AGE, decrypt, encrypt, fromBody } from './Message'
+
+interface Participant {
+  did: DidUri
+  keyUri: DidResourceUri
+  keypair: CordEncryptionKeypair
+}
+
+function makeParticipant(byte: number): Participant {
+  const seed = new Uint8Array(32).fill(byte)
+  const did = Did.getDidUriFromKey(Crypto.makeKeypairFromSeed(seed))
+  return {
+    did,
+    keyUri: `${did}#encryption`,
+    keypair: Crypto.makeEncryptionKeypairFromSeed(seed),
+  }
+}
+
+let alice: Participant
+let bob: Participant
+let eve: Participant
+
+const body: MessageBody = {
+  type: 'error',
+  content: { name: 'Error', message: 'Something went wrong' },
+}
+
+const resolveKey: DidResolveKey = async (keyUri) => {
+  const participant = [alice, bob, eve].find((p) => p.keyUri === keyUri)
+  if (!participant) {
+    throw new Error(`Unknown key "${keyUri}"`)
+  }
+  return {
+    id: keyUri,
+    controller: participant.did,
+    publicKey: participant.keypair.publicKey,
+    type: 'x25519',
+  }
+}
+
+function encryptCallback({ keyUri, keypair }: Participant): EncryptCallback {
+  return async ({ data, peerPublicKey }) => {
+    const { box, nonce } = Crypto.encryptAsymmetric(
+      data,
+      peerPublicKey,
+      keypair.secretKey
+    )
+    return { data: box, nonce, keyUri }
+  }
+}
+
+function decryptCallback({ keypair }: Participant): DecryptCallback {
+  return async ({ data, nonce, peerPublicKey }) => {
+    const decrypted = Crypto.decryptAsymmetric(
+      { box: data, nonce },
+      peerPublicKey,
+      keypair.secretKey
+    )
+    if (decrypted === false) {
+      throw new Error('Failed to decrypt')
+    }
+    return { data: decrypted }
+  }
+}
+
+/*
+ * Encrypts a message from the key of one participant for the key of another, without the checks of `encrypt`, as a
+ * participant forging a message would.
+ */
+function seal(
+  message: IMessage,
+  from: Participant,
+  to: Participant
+): IEncryptedMessage {
+  const { box, nonce } = Crypto.encryptAsymmetric(
+    stringToU8a(JSON.stringify(message)),
+    to.keypair.publicKey,
+    from.keypair.secretKey
+  )
+  return {
+    senderKeyUri: from.keyUri,
+    receiverKeyUri: to.keyUri,
+    ciphertext: u8aToHex(box),
+    nonce: u8aToHex(nonce),
+  }
+}
+
+function makeNonceStore(): MessageNonceStore & {
+  nonces: Map<HexString, number>
+} {
+  const nonces = new Map<HexString, number>()
+  return {
+    nonces,
+    has: (nonce) => nonces.has(nonce),
+    add: (nonce, expiresAt) => {
+      nonces.set(nonce, expiresAt)
+    },
+  }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+  alice = makeParticipant(1)
+  bob = makeParticipant(2)
+  eve = makeParticipant(3)
+})
+
+describe('Message', () => {
+  it('decrypts a message encrypted for the receiver', async () => {
+    const message = fromBody(body, alice.did, bob.did)
+    const encrypted = await encrypt(
+      message,
+      encryptCallback(alice),
+      bob.keyUri,
+      resolveKey
+    )
+    expect(
+      await decrypt(encrypted, decryptCallback(bob), { resolveKey })
+    ).toEqual(message)
+  })
+
+  it('does not encrypt for a key of another DID than the receiver', async () => {
+    const message = fromBody(body, alice.did, bob.did)
+    await expect(
+      encrypt(message, encryptCallback(alice), eve.keyUri, resolveKey)
+    ).rejects.toThrow(SDKErrors.IdentityMismatchError)
+  })
+
+  it('does not encrypt with a key of another DID than the sender', async () => {
+    const message = fromBody(body, alice.did, bob.did)
+    await expect(
+      encrypt(message, encryptCallback(eve), bob.keyUri, resolveKey)
+    ).rejects.toThrow(SDKErrors.IdentityMismatchError)
+  })
+
+  describe('mismatch checks', () => {
+    it('rejects a message encrypted with a key of another DID than its sender', async () => {
+      // eve claims to be alice
+      const encrypted = seal(fromBody(body, alice.did, bob.did), eve, bob)
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey })
+      ).rejects.toThrow('Sender is not owner of the encryption key')
+    })
+
+    it('rejects a message addressed to another DID than the owner of the receiver key', async () => {
+      // a message for eve, forwarded to bob
+      const encrypted = seal(fromBody(body, alice.did, eve.did), alice, bob)
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey })
+      ).rejects.toThrow('Receiver is not owner of the receiver key')
+    })
+
+    it('rejects a message whose sender key was swapped', async () => {
+      const encrypted = await encrypt(
+        fromBody(body, alice.did, bob.did),
+        encryptCallback(alice),
+        bob.keyUri,
+        resolveKey
+      )
+      await expect(
+        decrypt(
+          { ...encrypted, senderKeyUri: eve.keyUri },
+          decryptCallback(bob),
+          { resolveKey }
+        )
+      ).rejects.toThrow(SDKErrors.DecodingMessageError)
+    })
+  })
+
+  describe('replay checks', () => {
+    async function encryptCreatedAt(createdAt: number) {
+      return encrypt(
+        { ...fromBody(body, alice.did, bob.did), createdAt },
+        encryptCallback(alice),
+        bob.keyUri,
+        resolveKey
+      )
+    }
+
+    it('rejects a message received before', async () => {
+      const nonceStore = makeNonceStore()
+      const message = fromBody(body, alice.did, bob.did)
+      const encrypted = await encrypt(
+        message,
+        encryptCallback(alice),
+        bob.keyUri,
+        resolveKey
+      )
+
+      await decrypt(encrypted, decryptCallback(bob), { resolveKey, nonceStore })
+      // the nonce can be forgotten once the message would be too old anyway
+      expect(nonceStore.nonces.get(message.nonce)).toBeGreaterThan(
+        message.createdAt + DEFAULT_MESSAGE_MAX_AGE
+      )
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey, nonceStore })
+      ).rejects.toThrow(SDKErrors.MessageReplayError)
+    })
+
+    it('accepts a message received again without a nonce store', async () => {
+      const encrypted = await encryptCreatedAt(Date.now())
+      await decrypt(encrypted, decryptCallback(bob), { resolveKey })
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey })
+      ).resolves.toBeDefined()
+    })
+
+    it('rejects a message older than the maximum age', async () => {
+      const encrypted = await encryptCreatedAt(Date.now() - 2 * 60 * 1000)
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey, maxAge: 60000 })
+      ).rejects.toThrow('The message is too old')
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey })
+      ).resolves.toBeDefined()
+    })
+
+    it('tolerates a clock of the sender ahead by less than a minute', async () => {
+      const encrypted = await encryptCreatedAt(Date.now() + 30 * 1000)
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey })
+      ).resolves.toBeDefined()
+    })
+
+    it('rejects a message created in the future', async () => {
+      const encrypted = await encryptCreatedAt(Date.now() + 2 * 60 * 1000)
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey })
+      ).rejects.toThrow('The message was created in the future')
+    })
+
+    it('does not remember the nonce of a rejected message', async () => {
+      const nonceStore = makeNonceStore()
+      const encrypted = await encryptCreatedAt(Date.now() + 2 * 60 * 1000)
+      await expect(
+        decrypt(encrypted, decryptCallback(bob), { resolveKey, nonceStore })
+      ).rejects.toThrow(SDKErrors.MessageReplayError)
+      expect(nonceStore.nonces.size).toBe(0)
+    })
+  })
+})
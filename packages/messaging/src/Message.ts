@@ -0,0 +1,305 @@
+/**
+ * @packageDocumentation
+ * @module Message
+ *
+ * The `Message` module wraps the bodies exchanged between DIDs, such as credential requests, credential submissions
+ * and rating requests, in an envelope naming the sender and the receiver DID, and encrypts it for the `keyAgreement`
+ * key of the receiver.
+ *
+ * Every message carries the time it was created and a random nonce. On decryption, the sender of the message has to
+ * own the key the message was encrypted with, and messages that are too old or, given a nonce store, were received
+ * before are rejected.
+ *
+ * @example
+ * ```typescript
+ * const message = Message.fromBody(requestBody, verifierDid.uri, holderDid.uri);
+ * const encrypted = await Message.encrypt(message, encryptCallback, holderKeyAgreementUri);
+ * // ... on the holder side
+ * const decrypted = await Message.decrypt(encrypted, decryptCallback);
+ * ```
+ */
+
+import { hexToU8a, stringToU8a, u8aToHex, u8aToString } from '@polkadot/util'
+
+import type {
+  DecryptCallback,
+  DidResolveKey,
+  DidResourceUri,
+  DidUri,
+  EncryptCallback,
+  IEncryptedMessage,
+  IMessage,
+  MessageBody,
+  MessageNonceStore,
+} from '@cord.network/types'
+import { RatingTypeOf } from '@cord.network/types'
+import { DataUtils, SDKErrors, UUID } from '@cord.network/utils'
+import * as Did from '@cord.network/did'
+
+/**
+ * The default time in milliseconds after which a message is rejected on decryption.
+ */
+export const DEFAULT_MESSAGE_MAX_AGE = 5 * 60 * 1000
+
+/**
+ * The tolerated difference in milliseconds between the clocks of the sender and the receiver.
+ */
+const MAX_CLOCK_SKEW = 60 * 1000
+
+/**
+ * Checks that the content of a message body matches its type.
+ *
+ * @param body The message body.
+ */
+export function verifyMessageBody(body: MessageBody): void {
+  switch (body.type) {
+    case 'error': {
+      const { name, message } = body.content
+      if (
+        (name !== undefined && typeof name !== 'string') ||
+        (message !== undefined && typeof message !== 'string')
+      ) {
+        throw new SDKErrors.MessageBodyMalformedError(
+          'The name and message of an error must be strings'
+        )
+      }
+      break
+    }
+    case 'request-credential-document': {
+      const { schemas, challenge } = body.content
+      if (!Array.isArray(schemas) || schemas.length === 0) {
+        throw new SDKErrors.MessageBodyMalformedError(
+          'A credential request must list at least one schema'
+        )
+      }
+      schemas.forEach(({ schemaId, trustedIssuers }) => {
+        if (typeof schemaId !== 'string') {
+          throw new SDKErrors.MessageBodyMalformedError(
+            'A requested schema must have a schemaId'
+          )
+        }
+        trustedIssuers?.forEach((issuer) => Did.validateUri(issuer, 'Did'))
+      })
+      if (challenge !== undefined && typeof challenge !== 'string') {
+        throw new SDKErrors.MessageBodyMalformedError(
+          'The challenge of a credential request must be a string'
+        )
+      }
+      break
+    }
+    case 'submit-credential-document': {
+      if (!Array.isArray(body.content)) {
+        throw new SDKErrors.MessageBodyMalformedError(
+          'A credential submission must be a list of presentations'
+        )
+      }
+      body.content.forEach(({ content, holderSignature }) => {
+        if (
+          typeof content?.holderUri !== 'string' ||
+          typeof holderSignature?.signature !== 'string'
+        ) {
+          throw new SDKErrors.MessageBodyMalformedError(
+            'A submitted presentation must have content and a holder signature'
+          )
+        }
+        Did.validateUri(content.holderUri, 'Did')
+        Did.validateUri(content.issuerUri, 'Did')
+      })
+      break
+    }
+    case 'request-rating': {
+      const { entityId, ratingType } = body.content
+      if (typeof entityId !== 'string' || entityId.length === 0) {
+        throw new SDKErrors.MessageBodyMalformedError(
+          'A rating request must name the entity to rate'
+        )
+      }
+      if (!Object.values(RatingTypeOf).includes(ratingType)) {
+        throw new SDKErrors.MessageBodyMalformedError(
+          `Unknown rating type "${ratingType}"`
+        )
+      }
+      break
+    }
+    default:
+      throw new SDKErrors.UnknownMessageBodyTypeError(
+        `Unknown message body type "${(body as { type: string }).type}"`
+      )
+  }
+}
+
+/**
+ * Checks the envelope of a message: its identifier, creation time, nonce, sender and receiver.
+ *
+ * @param message The message.
+ */
+export function verifyMessageEnvelope(message: IMessage): void {
+  const { messageId, createdAt, nonce, sender, receiver, inReplyTo } = message
+  if (typeof messageId !== 'string' || messageId.length === 0) {
+    throw new SDKErrors.MessageBodyMalformedError('Message id is missing')
+  }
+  if (!Number.isSafeInteger(createdAt) || createdAt < 0) {
+    throw new SDKErrors.MessageBodyMalformedError(
+      'Message creation time must be a timestamp in milliseconds'
+    )
+  }
+  DataUtils.verifyIsHex(nonce, 256)
+  if (inReplyTo !== undefined && typeof inReplyTo !== 'string') {
+    throw new SDKErrors.MessageBodyMalformedError(
+      'The id of the message replied to must be a string'
+    )
+  }
+  Did.validateUri(sender, 'Did')
+  Did.validateUri(receiver, 'Did')
+}
+
+/**
+ * Checks the structure of a message, both its envelope and its body.
+ *
+ * @param message The message.
+ */
+export function verify(message: IMessage): void {
+  verifyMessageEnvelope(message)
+  verifyMessageBody(message.body)
+}
+
+/**
+ * Creates a message from a body, to be sent from one DID to another.
+ *
+ * @param body The body of the message.
+ * @param sender The DID sending the message.
+ * @param receiver The DID the message is sent to.
+ * @param inReplyTo Optional `messageId` of the message this message responds to.
+ * @returns The message, with a new id, creation time and nonce.
+ */
+export function fromBody(
+  body: MessageBody,
+  sender: DidUri,
+  receiver: DidUri,
+  inReplyTo?: IMessage['messageId']
+): IMessage {
+  const message: IMessage = {
+    body,
+    messageId: UUID.generate(),
+    createdAt: Date.now(),
+    sender,
+    receiver,
+    nonce: UUID.generateHex() as IMessage['nonce'],
+    ...(inReplyTo && { inReplyTo }),
+  }
+  verify(message)
+  return message
+}
+
+/**
+ * Encrypts a message for the `keyAgreement` key of its receiver.
+ *
+ * @param message The message to encrypt.
+ * @param encryptCallback The callback encrypting with the `keyAgreement` key of the sender.
+ * @param receiverKeyUri The `keyAgreement` key of the receiver to encrypt the message for.
+ * @param resolveKey Optional function resolving the receiver key. Defaults to [[resolveKey]] of the DID module.
+ * @returns The encrypted message.
+ */
+export async function encrypt(
+  message: IMessage,
+  encryptCallback: EncryptCallback,
+  receiverKeyUri: DidResourceUri,
+  resolveKey: DidResolveKey = Did.resolveKey
+): Promise<IEncryptedMessage> {
+  verify(message)
+  if (Did.parse(receiverKeyUri).did !== message.receiver) {
+    throw new SDKErrors.IdentityMismatchError('receiver key', 'Receiver')
+  }
+  const receiverKey = await resolveKey(receiverKeyUri, 'keyAgreement')
+
+  const { data, nonce, keyUri } = await encryptCallback({
+    data: stringToU8a(JSON.stringify(message)),
+    peerPublicKey: receiverKey.publicKey,
+    did: message.sender,
+  })
+  if (Did.parse(keyUri).did !== message.sender) {
+    throw new SDKErrors.IdentityMismatchError('encryption key', 'Sender')
+  }
+
+  return {
+    receiverKeyUri,
+    senderKeyUri: keyUri,
+    ciphertext: u8aToHex(data),
+    nonce: u8aToHex(nonce),
+  }
+}
+
+/**
+ * Decrypts a message and checks that it was sent by the owner of the key it was encrypted with, to the owner of the
+ * key it was encrypted for.
+ *
+ * Messages created more than `maxAge` milliseconds ago, or in the future, are rejected. To reject messages that are
+ * received more than once, pass a `nonceStore` remembering the nonces of the received messages.
+ *
+ * @param encrypted The encrypted message.
+ * @param decryptCallback The callback decrypting with the `keyAgreement` key of the receiver.
+ * @param options Optional decryption options.
+ * @param options.resolveKey The function resolving the sender key. Defaults to [[resolveKey]] of the DID module.
+ * @param options.maxAge The time in milliseconds after which a message is rejected. Defaults to 5 minutes.
+ * @param options.nonceStore The store of the nonces of received messages.
+ * @returns The decrypted and verified message.
+ */
+export async function decrypt(
+  encrypted: IEncryptedMessage,
+  decryptCallback: DecryptCallback,
+  {
+    resolveKey = Did.resolveKey,
+    maxAge = DEFAULT_MESSAGE_MAX_AGE,
+    nonceStore,
+  }: {
+    resolveKey?: DidResolveKey
+    maxAge?: number
+    nonceStore?: MessageNonceStore
+  } = {}
+): Promise<IMessage> {
+  const { senderKeyUri, receiverKeyUri, ciphertext, nonce } = encrypted
+  const senderKey = await resolveKey(senderKeyUri, 'keyAgreement')
+
+  let message: IMessage
+  try {
+    const { data } = await decryptCallback({
+      data: hexToU8a(ciphertext),
+      nonce: hexToU8a(nonce),
+      peerPublicKey: senderKey.publicKey,
+      keyUri: receiverKeyUri,
+    })
+    message = JSON.parse(u8aToString(data))
+  } catch (cause) {
+    throw new SDKErrors.DecodingMessageError(
+      'Error decrypting or parsing the message',
+      { cause }
+    )
+  }
+
+  verify(message)
+  if (Did.parse(senderKeyUri).did !== message.sender) {
+    throw new SDKErrors.IdentityMismatchError('encryption key', 'Sender')
+  }
+  if (Did.parse(receiverKeyUri).did !== message.receiver) {
+    throw new SDKErrors.IdentityMismatchError('receiver key', 'Receiver')
+  }
+
+  const now = Date.now()
+  if (message.createdAt > now + MAX_CLOCK_SKEW) {
+    throw new SDKErrors.MessageReplayError(
+      'The message was created in the future'
+    )
+  }
+  const expiresAt = message.createdAt + maxAge
+  if (expiresAt < now) {
+    throw new SDKErrors.MessageReplayError('The message is too old')
+  }
+  if (nonceStore) {
+    if (await nonceStore.has(message.nonce)) {
+      throw new SDKErrors.MessageReplayError('The message was received before')
+    }
+    await nonceStore.add(message.nonce, expiresAt + MAX_CLOCK_SKEW)
+  }
+
+  return message
+}
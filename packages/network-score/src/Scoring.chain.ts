@@ -14,6 +14,7 @@
  * - Dispatching ratings: Submit new ratings to the blockchain, ensuring they are recorded and stored securely.
  * - Revoking ratings: Remove existing ratings from the blockchain, used in cases where ratings are no longer valid or relevant.
  * - Revising ratings: Update the details of existing ratings on the blockchain.
+ * - Estimating fees: Compute the fee of dispatching, revoking or revising a rating before submitting it.
  * - Aggregating scores: Gather and decode aggregate score data for entities, useful for analytics and overviews.
  *
  * The module relies on a set of decoding functions to translate blockchain-encoded data into readable formats and
@@ -40,7 +41,7 @@ import {
   EntryTypeOf,
   IAggregateScore,
 } from '@cord.network/types'
-import type { Option } from '@cord.network/types'
+import type { Option, SubmittableExtrinsic } from '@cord.network/types'
 import type {
   PalletNetworkScoreRatingEntry,
   PalletNetworkScoreRatingTypeOf,
@@ -103,6 +104,47 @@ export async function isRatingStored(
   }
 }
 
+/**
+ * Prepares the DID-authorized extrinsic registering a rating entry.
+ *
+ * @param ratingEntry - The rating entry object.
+ * @param authorAccount - The blockchain account of the author, used for signing the transaction.
+ * @param authorizationUri - The URI that provides authorization context for the rating entry.
+ * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @returns - A promise that resolves to the DID-authorized extrinsic.
+ */
+export async function prepareRatingExtrinsic(
+  ratingEntry: IRatingDispatch,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+
+    const tx = api.tx.networkScore.registerRating(
+      ratingEntry.entry,
+      ratingEntry.entryDigest,
+      ratingEntry.messageId,
+      authorizationId
+    )
+    const extrinsic = await Did.authorizeTx(
+      ratingEntry.authorUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+    return extrinsic
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${errorMessage}".`
+    )
+  }
+}
+
 /**
  * Dispatches a rating entry to the blockchain.
  *
@@ -116,6 +158,7 @@ export async function isRatingStored(
  * @param authorAccount - The blockchain account of the author, used for signing the transaction.
  * @param authorizationUri - The URI that provides authorization context for the rating entry dispatch.
  * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @param options - See `Chain.DispatchOptions`.
  *
  * @returns - A promise that resolves to the URI of the rating entry. If the entry was already on the chain, it returns the existing URI.
  *
@@ -141,38 +184,102 @@ export async function dispatchRatingToChain(
   ratingEntry: IRatingDispatch,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<RatingEntryUri> {
+  const exists = await isRatingStored(ratingEntry.entryUri)
+  if (exists) {
+    return ratingEntry.entryUri
+  }
+
+  const extrinsic = await prepareRatingExtrinsic(
+    ratingEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+
+    return ratingEntry.entryUri
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${errorMessage}".`
+    )
+  }
+}
+
+/**
+ * Estimates the fee of [[dispatchRatingToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param ratingEntry - The rating entry object.
+ * @param authorAccount - The blockchain account of the author, that would sign the transaction.
+ * @param authorizationUri - The URI that provides authorization context for the rating entry.
+ * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateRatingFee(
+  ratingEntry: IRatingDispatch,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareRatingExtrinsic(
+    ratingEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Prepares the DID-authorized extrinsic revoking a rating entry.
+ *
+ * @param ratingEntry - The rating entry object.
+ * @param authorAccount - The blockchain account of the author, used for signing the transaction.
+ * @param authorizationUri - The URI that provides authorization context for the rating entry.
+ * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @returns - A promise that resolves to the DID-authorized extrinsic.
+ */
+export async function prepareRevokeRatingExtrinsic(
+  ratingEntry: IRatingDispatch,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
   try {
     const api = ConfigService.get('api')
     const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
-    const exists = await isRatingStored(ratingEntry.entryUri)
-    if (exists) {
-      return ratingEntry.entryUri
-    }
+    const ratingEntryId: RatingEntryId = uriToIdentifier(
+      ratingEntry.entry.referenceId
+    )
 
-    const tx = api.tx.networkScore.registerRating(
-      ratingEntry.entry,
-      ratingEntry.entryDigest,
+    const tx = api.tx.networkScore.revokeRating(
+      ratingEntryId,
       ratingEntry.messageId,
+      ratingEntry.entryDigest,
       authorizationId
     )
-
     const extrinsic = await Did.authorizeTx(
       ratingEntry.authorUri,
       tx,
       signCallback,
       authorAccount.address
     )
-
-    await Chain.signAndSubmitTx(extrinsic, authorAccount)
-
-    return ratingEntry.entryUri
+    return extrinsic
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : JSON.stringify(error)
     throw new SDKErrors.CordDispatchError(
-      `Error dispatching to chain: "${errorMessage}".`
+      `Error preparing extrinsic: "${errorMessage}".`
     )
   }
 }
@@ -192,6 +299,7 @@ export async function dispatchRatingToChain(
  * @param authorAccount - The blockchain account of the author, used for transaction signing.
  * @param authorizationUri - The URI providing the authorization context for the revocation.
  * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @param options - See `Chain.DispatchOptions`.
  *
  * @returns - A promise that resolves to the URI of the revoked rating entry.
  *
@@ -218,47 +326,107 @@ export async function dispatchRevokeRatingToChain(
   ratingEntry: IRatingDispatch,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<RatingEntryUri> {
-  try {
-    const api = ConfigService.get('api')
+  const exists = await isRatingStored(
+    ratingEntry.entry.referenceId as RatingEntryUri
+  )
 
-    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+  if (!exists) {
+    throw new SDKErrors.CordDispatchError(`Rating Entry not found on chain.`)
+  }
+
+  const extrinsic = await prepareRevokeRatingExtrinsic(
+    ratingEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
 
-    const exists = await isRatingStored(
-      ratingEntry.entry.referenceId as RatingEntryUri
+  try {
+    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+
+    return ratingEntry.entryUri
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${errorMessage}".`
     )
+  }
+}
 
-    if (!exists) {
-      throw new SDKErrors.CordDispatchError(`Rating Entry not found on chain.`)
-    }
+/**
+ * Estimates the fee of [[dispatchRevokeRatingToChain]], building the same DID-authorized extrinsic
+ * without submitting it.
+ *
+ * @param ratingEntry - The rating entry object.
+ * @param authorAccount - The blockchain account of the author, that would sign the transaction.
+ * @param authorizationUri - The URI that provides authorization context for the rating entry.
+ * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateRevokeRatingFee(
+  ratingEntry: IRatingDispatch,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareRevokeRatingExtrinsic(
+    ratingEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
 
-    const ratingEntryId: RatingEntryId = uriToIdentifier(
+/**
+ * Prepares the DID-authorized extrinsic revising a rating entry.
+ *
+ * @param ratingEntry - The rating entry object.
+ * @param authorAccount - The blockchain account of the author, used for signing the transaction.
+ * @param authorizationUri - The URI that provides authorization context for the rating entry.
+ * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @returns - A promise that resolves to the DID-authorized extrinsic.
+ */
+export async function prepareReviseRatingExtrinsic(
+  ratingEntry: IRatingDispatch,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+    const refEntryId: RatingEntryId = uriToIdentifier(
       ratingEntry.entry.referenceId
     )
 
-    const tx = api.tx.networkScore.revokeRating(
-      ratingEntryId,
-      ratingEntry.messageId,
+    const tx = api.tx.networkScore.reviseRating(
+      ratingEntry.entry,
       ratingEntry.entryDigest,
+      ratingEntry.messageId,
+      refEntryId,
       authorizationId
     )
-
     const extrinsic = await Did.authorizeTx(
       ratingEntry.authorUri,
       tx,
       signCallback,
       authorAccount.address
     )
-
-    await Chain.signAndSubmitTx(extrinsic, authorAccount)
-
-    return ratingEntry.entryUri
+    return extrinsic
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : JSON.stringify(error)
     throw new SDKErrors.CordDispatchError(
-      `Error dispatching to chain: "${errorMessage}".`
+      `Error preparing extrinsic: "${errorMessage}".`
     )
   }
 }
@@ -278,6 +446,7 @@ export async function dispatchRevokeRatingToChain(
  * @param authorAccount - The blockchain account of the author, used for signing the transaction.
  * @param authorizationUri - The URI that provides authorization context for the rating revision dispatch.
  * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @param options - See `Chain.DispatchOptions`.
  *
  * @returns - A promise that resolves to the URI of the revised rating entry.
  *                                      If the entry was already on the chain, it returns the existing URI.
@@ -305,35 +474,24 @@ export async function dispatchReviseRatingToChain(
   ratingEntry: IRatingDispatch,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<RatingEntryUri> {
-  try {
-    const api = ConfigService.get('api')
-    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
-    const refEntryId: RatingEntryId = uriToIdentifier(
-      ratingEntry.entry.referenceId
-    )
-
-    const exists = await isRatingStored(ratingEntry.entryUri)
-    if (exists) {
-      return ratingEntry.entryUri
-    }
+  const exists = await isRatingStored(ratingEntry.entryUri)
+  if (exists) {
+    return ratingEntry.entryUri
+  }
 
-    const tx = api.tx.networkScore.reviseRating(
-      ratingEntry.entry,
-      ratingEntry.entryDigest,
-      ratingEntry.messageId,
-      refEntryId,
-      authorizationId
-    )
+  const extrinsic = await prepareReviseRatingExtrinsic(
+    ratingEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
 
-    const extrinsic = await Did.authorizeTx(
-      ratingEntry.authorUri,
-      tx,
-      signCallback,
-      authorAccount.address
-    )
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
 
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return ratingEntry.entryUri
@@ -346,6 +504,33 @@ export async function dispatchReviseRatingToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchReviseRatingToChain]], building the same DID-authorized extrinsic
+ * without submitting it.
+ *
+ * @param ratingEntry - The rating entry object.
+ * @param authorAccount - The blockchain account of the author, that would sign the transaction.
+ * @param authorizationUri - The URI that provides authorization context for the rating entry.
+ * @param signCallback - A callback function for signing the extrinsic (blockchain transaction).
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateReviseRatingFee(
+  ratingEntry: IRatingDispatch,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareReviseRatingExtrinsic(
+    ratingEntry,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
 /**
  * Extracts the index from a Rust enum representation.
  *
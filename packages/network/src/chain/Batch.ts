@@ -0,0 +1,342 @@
+/**
+ * Packs many extrinsics into `utility` batches that fit into a block, and submits them.
+ *
+ * Unlike [[getMaxBatchable]], which counts how many copies of a single extrinsic fit into a block, the extrinsics
+ * may be of any kind: [[packBatches]] queries the weight of every extrinsic and fills the chunks up to 75% of the
+ * maximum block weight and length. [[dispatchBatchesToChain]] wraps every chunk into a batch call, optionally
+ * DID-authorizes it, submits the chunks one after the other or in parallel, and reports the outcome of every single
+ * extrinsic, decoded from the events of the `utility` pallet.
+ *
+ * @example
+ * ```typescript
+ * const firstNonce = await Did.getNextNonce(didUri);
+ * const results = await Batch.dispatchBatchesToChain(extrinsics, authorAccount, {
+ *   mode: 'forceBatch',
+ *   parallel: true,
+ *   groupBy: (tx) => Did.getKeyRelationshipForTx(tx),
+ *   authorize: (call, chunk) =>
+ *     Did.authorizeTx(didUri, call, signCallback, authorAccount.address, {
+ *       txCounter: Did.increaseNonce(firstNonce, chunk),
+ *     }),
+ * });
+ * const failed = results.filter(({ success }) => !success);
+ * ```
+ *
+ * @packageDocumentation
+ * @module Batch
+ */
+import { SubmittableResult } from '@polkadot/api'
+import type { DispatchError } from '@polkadot/types/interfaces'
+import type { RegistryError } from '@polkadot/types/types'
+
+import { ConfigService } from '@cord.network/config'
+import type {
+  BN,
+  HexString,
+  ISubmittableResult,
+  KeyringPair,
+  SubmittableExtrinsic,
+  SubscriptionPromise,
+} from '@cord.network/types'
+import { SDKErrors } from '@cord.network/utils'
+import type {
+  RuntimeDispatchWeightInfoV1,
+  RuntimeDispatchWeightInfoV2,
+} from '@cord.network/augment-api'
+import { convertWeight } from './Chain.js'
+import { createTxManager } from './TxManager.js'
+
+/**
+ * The `utility` call wrapping the extrinsics of a chunk.
+ *
+ * - `batchAll` reverts the whole chunk if one extrinsic fails.
+ * - `forceBatch` executes every extrinsic, whether the others fail or not.
+ * - `batch` stops at the first failing extrinsic, keeping the effects of the ones before it.
+ */
+export type BatchMode = 'batch' | 'batchAll' | 'forceBatch'
+
+/**
+ * A group of extrinsics that fits into a single batch call.
+ */
+export interface BatchChunk {
+  /**
+   * The positions of the extrinsics in the list passed to [[packBatches]].
+   */
+  indices: number[]
+  extrinsics: SubmittableExtrinsic[]
+  /**
+   * The summed up reference time of the extrinsics.
+   */
+  weight: BN
+  /**
+   * The summed up encoded length of the calls of the extrinsics.
+   */
+  length: number
+}
+
+/**
+ * The outcome of a single extrinsic submitted by [[dispatchBatchesToChain]].
+ */
+export interface BatchItemResult {
+  /**
+   * The position of the extrinsic in the list passed to [[dispatchBatchesToChain]].
+   */
+  index: number
+  /**
+   * The index of the chunk the extrinsic was submitted with.
+   */
+  chunk: number
+  success: boolean
+  /**
+   * Why the extrinsic failed or was not executed, as `section.Error` for module errors.
+   */
+  error?: string
+  /**
+   * The hash of the transaction carrying the chunk, if it was included in a block.
+   */
+  txHash?: HexString
+}
+
+type ItemOutcome = Pick<BatchItemResult, 'success' | 'error'>
+
+/**
+ * Splits a list of extrinsics into chunks that fit into a block, by their weight as reported by the runtime and by
+ * the encoded length of their calls. Each chunk uses at most 75% of the maximum block weight and length, which leaves
+ * room for the batch call, a DID authorization wrapped around it and other transactions.
+ *
+ * @remarks
+ * The extrinsics keep their order within a chunk, and chunks are ordered by their first extrinsic. With `groupBy`,
+ * only extrinsics with the same key end up in a chunk, for example those authorized with the same DID key.
+ *
+ * @param extrinsics The unsigned extrinsics to pack.
+ * @param options - The object with named parameters.
+ * @param options.groupBy - (Optional) Computes the key of an extrinsic; extrinsics with different keys are packed
+ * into different chunks.
+ * @returns The chunks.
+ * @throws {SDKErrors.BatchError} If the list is empty or a single extrinsic does not fit into a chunk.
+ */
+export async function packBatches(
+  extrinsics: SubmittableExtrinsic[],
+  {
+    groupBy,
+  }: {
+    groupBy?: (tx: SubmittableExtrinsic) => unknown
+  } = {}
+): Promise<BatchChunk[]> {
+  if (extrinsics.length === 0) {
+    throw new SDKErrors.BatchError('Cannot build a batch with no transactions')
+  }
+  const api = ConfigService.get('api')
+  type Weight = RuntimeDispatchWeightInfoV1 | RuntimeDispatchWeightInfoV2
+
+  // Use only 75% of the max block weight and length
+  const maxWeight = convertWeight(api.consts.system.blockWeights.maxBlock)
+    .muln(75)
+    .divn(100)
+  const maxLength = Math.floor(
+    (api.consts.system.blockLength.max.normal.toNumber() * 75) / 100
+  )
+
+  const weights = await Promise.all(
+    extrinsics.map(async (tx) => {
+      const { weight } = (await api.call.transactionWeightApi.queryWeightInfo(
+        tx
+      )) as Weight
+      return convertWeight(weight)
+    })
+  )
+
+  const chunks: BatchChunk[] = []
+  const openChunks = new Map<unknown, BatchChunk>()
+  extrinsics.forEach((tx, index) => {
+    const weight = weights[index]
+    const length = tx.method.encodedLength
+    if (weight.gt(maxWeight) || length > maxLength) {
+      throw new SDKErrors.BatchError(
+        `Transaction ${index} exceeds the weight or length available to a batch`
+      )
+    }
+
+    const key = groupBy?.(tx)
+    const chunk = openChunks.get(key)
+    if (
+      chunk === undefined ||
+      chunk.weight.add(weight).gt(maxWeight) ||
+      chunk.length + length > maxLength
+    ) {
+      const next = { indices: [index], extrinsics: [tx], weight, length }
+      chunks.push(next)
+      openChunks.set(key, next)
+      return
+    }
+    chunk.indices.push(index)
+    chunk.extrinsics.push(tx)
+    chunk.weight = chunk.weight.add(weight)
+    chunk.length += length
+  })
+
+  return chunks
+}
+
+function describeDispatchError(error: DispatchError): string {
+  if (error.isModule) {
+    try {
+      const { section, name } = error.registry.findMetaError(error.asModule)
+      return `${section}.${name}`
+    } catch {
+      // handled with last return
+    }
+  }
+  return error.toString()
+}
+
+function describeError(error: unknown): string {
+  // a failed extrinsic rejects with its submission result, carrying the dispatch error
+  const { dispatchError } = (error ?? {}) as Partial<ISubmittableResult>
+  if (dispatchError) {
+    return describeDispatchError(dispatchError)
+  }
+  // a result without dispatch error was dropped or invalidated by the pool
+  if (error instanceof SubmittableResult) {
+    return `Transaction ${error.status.type}`
+  }
+  if (error instanceof Error) {
+    return error.message
+  }
+  const { section, name } = error as Partial<RegistryError>
+  if (section !== undefined && name !== undefined) {
+    return `${section}.${name}`
+  }
+  return String(error)
+}
+
+/**
+ * Decodes the outcome of every call of a batch from the `ItemCompleted`, `ItemFailed` and `BatchInterrupted` events
+ * of the `utility` pallet.
+ *
+ * @remarks
+ * The calls must not be batches themselves, as the events of nested batches cannot be told apart.
+ *
+ * @param result The result of submitting the batch.
+ * @param count The number of calls in the batch.
+ * @returns The outcome of every call, in the order of the calls.
+ */
+export function decodeBatchResult(
+  result: ISubmittableResult,
+  count: number
+): ItemOutcome[] {
+  const outcomes: ItemOutcome[] = []
+  let interruption: string | undefined
+
+  result.events.forEach(({ event }) => {
+    if (event.section !== 'utility') return
+    if (event.method === 'ItemCompleted') {
+      outcomes.push({ success: true })
+    } else if (event.method === 'ItemFailed') {
+      outcomes.push({
+        success: false,
+        error: describeDispatchError(event.data[0] as DispatchError),
+      })
+    } else if (event.method === 'BatchInterrupted') {
+      const error = describeDispatchError(event.data[1] as DispatchError)
+      outcomes.push({ success: false, error })
+      interruption = `Not executed, the batch was interrupted by ${error}`
+    }
+  })
+
+  while (outcomes.length < count) {
+    outcomes.push({
+      success: false,
+      error: interruption ?? 'No outcome found in the batch events',
+    })
+  }
+  return outcomes
+}
+
+/**
+ * Packs a list of extrinsics into batches with [[packBatches]], signs them with the account and submits them,
+ * reporting the outcome of every extrinsic.
+ *
+ * @remarks
+ * If a chunk is not included, or fails as a whole as a `batchAll` with a failing extrinsic does, all its extrinsics
+ * are reported as failed with the error of the chunk. The nonces of parallel chunks are managed by a [[TxManager]],
+ * so the chunks are included in order.
+ *
+ * Calls requiring a DID origin have to be DID-authorized with `authorize`. Every chunk needs its own DID transaction
+ * counter, which `authorize` can compute from the index of the chunk, and a single DID key, which `groupBy` can
+ * enforce with `Did.getKeyRelationshipForTx`.
+ *
+ * @param extrinsics The unsigned extrinsics to submit.
+ * @param signer The account signing and paying for the batches.
+ * @param options - The object with named parameters.
+ * @param options.mode - (Optional) The batch call to use, see [[BatchMode]]. Defaults to `batchAll`.
+ * @param options.parallel - (Optional) Whether to submit all chunks at once instead of waiting for each chunk to
+ * settle before submitting the next. Defaults to false.
+ * @param options.groupBy - (Optional) See [[packBatches]].
+ * @param options.authorize - (Optional) Wraps the batch call of a chunk, for example into a DID-authorized call.
+ * Receives the call and the index of the chunk.
+ * @param options.submitOptions - (Optional) The options passed to `Chain.submitSignedTx`.
+ * @returns The outcome of every extrinsic, in the order of the list.
+ */
+export async function dispatchBatchesToChain(
+  extrinsics: SubmittableExtrinsic[],
+  signer: KeyringPair,
+  {
+    mode = 'batchAll',
+    parallel = false,
+    groupBy,
+    authorize,
+    submitOptions = {},
+  }: {
+    mode?: BatchMode
+    parallel?: boolean
+    groupBy?: (tx: SubmittableExtrinsic) => unknown
+    authorize?: (
+      call: SubmittableExtrinsic,
+      chunk: number
+    ) => Promise<SubmittableExtrinsic>
+    submitOptions?: Partial<SubscriptionPromise.Options>
+  } = {}
+): Promise<BatchItemResult[]> {
+  const api = ConfigService.get('api')
+  const chunks = await packBatches(extrinsics, { groupBy })
+
+  const txs = await Promise.all(
+    chunks.map(async (chunk, index) => {
+      const call = api.tx.utility[mode](chunk.extrinsics)
+      return authorize ? authorize(call, index) : call
+    })
+  )
+
+  const manager = createTxManager({
+    signer,
+    maxInFlight: parallel ? txs.length : 1,
+    submitOptions,
+  })
+
+  const results: BatchItemResult[] = []
+  await Promise.all(
+    txs.map(async (tx, chunkIndex) => {
+      const { indices } = chunks[chunkIndex]
+      let outcomes: ItemOutcome[]
+      let txHash: HexString | undefined
+      try {
+        const result = await manager.submit(tx)
+        outcomes = decodeBatchResult(result, indices.length)
+        txHash = result.txHash.toHex()
+      } catch (error) {
+        const message = describeError(error)
+        outcomes = indices.map(() => ({ success: false, error: message }))
+      }
+      indices.forEach((index, position) => {
+        results[index] = {
+          index,
+          chunk: chunkIndex,
+          ...outcomes[position],
+          ...(txHash !== undefined && { txHash }),
+        }
+      })
+    })
+  )
+  return results
+}
@@ -16,7 +16,7 @@ import type {
   SubmittableExtrinsic,
   SubscriptionPromise,
 } from '@cord.network/types'
-import { SDKErrors } from '@cord.network/utils'
+import { Balance, SDKErrors } from '@cord.network/utils'
 import { V1Weight, V2Weight, BN } from '@cord.network/types'
 import type {
   RuntimeDispatchWeightInfoV1,
@@ -28,6 +28,83 @@ import { makeSubscriptionPromise } from './SubscriptionPromise.js'
 export const TxOutdated = 'Transaction is outdated'
 export const TxPriority = 'Priority is too low:'
 export const TxDuplicate = 'Transaction Already Imported'
+
+/**
+ * The transaction pool errors a submission can recover from by signing the transaction again.
+ */
+export type TxRetryReason = 'outdated' | 'priority'
+
+/**
+ * Describes a failed submission attempt, reported to [[TxRetryOptions.onAttempt]].
+ */
+export interface TxAttempt {
+  /**
+   * The number of the attempt, starting at 1.
+   */
+  attempt: number
+  error: unknown
+  /**
+   * Why the attempt can be retried, or undefined if the error is not a transaction pool error.
+   */
+  reason?: TxRetryReason
+  /**
+   * The delay in ms before the next attempt, or undefined if the submission is given up.
+   */
+  retryIn?: number
+}
+
+/**
+ * Configures the resubmission of transactions rejected by the transaction pool.
+ */
+export interface TxRetryOptions {
+  /**
+   * The maximum number of submission attempts, including the first one. Defaults to 5.
+   */
+  maxAttempts: number
+  /**
+   * The delay in ms before the first retry, doubled for every further retry. Defaults to 1000.
+   */
+  initialDelay: number
+  /**
+   * The upper bound of the delay in ms between two attempts. Defaults to 30000.
+   */
+  maxDelay: number
+  /**
+   * The amount added to the tip whenever an attempt failed because its priority was too low. Defaults to 0.
+   */
+  tipIncrement: AnyNumber
+  /**
+   * Called after every failed attempt.
+   */
+  onAttempt?: (attempt: TxAttempt) => void
+}
+
+/**
+ * Classifies the error a submission was rejected with.
+ *
+ * The transaction pool rejects transactions whose nonce was already used (outdated), or that compete with a
+ * transaction of higher priority for the same nonce. Transactions dropped from the pool or invalidated while waiting
+ * for inclusion are classified as low priority and outdated respectively. All of these can succeed when signed again
+ * with a fresh nonce or a higher tip.
+ *
+ * Transactions the pool already holds are not retryable: [[submitSignedTx]] rejects them with a
+ * `TxDuplicateError`, as signing them again with a fresh nonce would execute the call twice.
+ *
+ * @param error The error thrown by [[submitSignedTx]].
+ * @returns The reason the transaction can be signed and submitted again, or undefined if it can not.
+ */
+export function getTxRetryReason(error: unknown): TxRetryReason | undefined {
+  if (error instanceof Error) {
+    if (error.message.includes(TxOutdated)) return 'outdated'
+    if (error.message.includes(TxPriority)) return 'priority'
+    return undefined
+  }
+  const { status } = (error ?? {}) as Partial<ISubmittableResult>
+  if (status?.isInvalid === true || status?.isUsurped === true)
+    return 'outdated'
+  if (status?.isDropped === true) return 'priority'
+  return undefined
+}
 /**
  * Evaluator resolves on extrinsic reaching status "is ready".
  *
@@ -153,12 +230,200 @@ export async function getMaxBatchable(
   return count
 }
 
+/**
+ * The fee the submitter of an extrinsic pays, as computed by the transaction payment pallet.
+ */
+export interface TxFeeEstimate {
+  /**
+   * The fee for including the extrinsic, without tip: the sum of the base fee, the length fee and the weight fee.
+   */
+  partialFee: BN
+  baseFee: BN
+  lenFee: BN
+  adjustedWeightFee: BN
+  tip: BN
+  /**
+   * The amount withdrawn from the submitter: the partial fee and the tip.
+   */
+  total: BN
+  /**
+   * The weight of the extrinsic.
+   */
+  weight: BN
+  /**
+   * The amounts formatted with [[formatWayBalance]].
+   */
+  formatted: {
+    partialFee: string
+    baseFee: string
+    lenFee: string
+    adjustedWeightFee: string
+    tip: string
+    total: string
+  }
+}
+
+/**
+ * Options for [[estimateTxFee]], also taken by the `estimate*Fee` functions of the SDK modules, which build the
+ * extrinsic of the matching dispatch function and estimate its fee without submitting it.
+ */
+export interface TxFeeOptions {
+  /**
+   * The tip the extrinsic will be submitted with. Defaults to 0.
+   */
+  tip?: AnyNumber
+  /**
+   * Whether to check that the free balance of the submitter covers the fee, throwing an
+   * [[InsufficientBalanceError]] otherwise. Defaults to false.
+   */
+  checkBalance?: boolean
+}
+
+/**
+ * Options taken by the `dispatch*` functions of the SDK modules.
+ */
+export interface DispatchOptions {
+  /**
+   * Whether to estimate the fee of the prepared extrinsic before submitting it, and throw an
+   * [[InsufficientBalanceError]] instead of submitting if the free balance of the author account does not cover it.
+   * Defaults to false.
+   */
+  checkBalance?: boolean
+}
+
+/**
+ * Checks that the free balance of an account covers an amount, for example the summed up totals of several
+ * [[TxFeeEstimate]]s.
+ *
+ * @param submitter The address of the account.
+ * @param amount The amount to cover.
+ * @throws {SDKErrors.InsufficientBalanceError} If the free balance is lower than the amount.
+ */
+export async function checkFreeBalance(
+  submitter: string,
+  amount: BN
+): Promise<void> {
+  const api = ConfigService.get('api')
+  const { data } = await api.query.system.account(submitter)
+  if (data.free.toBn().lt(amount)) {
+    throw new SDKErrors.InsufficientBalanceError(
+      submitter,
+      Balance.formatWayBalance(amount),
+      Balance.formatWayBalance(data.free.toBn())
+    )
+  }
+}
+
+/**
+ * Estimates the fee of an extrinsic by querying `payment.queryInfo` and `payment.queryFeeDetails`.
+ *
+ * The fee depends on the length of the signed extrinsic, so a copy of the extrinsic is signed with a fake signature of
+ * the submitter; the extrinsic itself is not modified and nothing is submitted.
+ *
+ * @param tx The extrinsic, for example a DID-authorized extrinsic prepared for a dispatch function.
+ * @param submitter The address of the account that will sign and submit the extrinsic.
+ * @param options Optional parameters.
+ * @param options.tip The tip the extrinsic will be submitted with. Defaults to 0.
+ * @param options.checkBalance Whether to throw an [[InsufficientBalanceError]] if the free balance of the submitter
+ * does not cover the fee. Defaults to false.
+ * @returns The fee breakdown.
+ */
+export async function estimateTxFee(
+  tx: SubmittableExtrinsic,
+  submitter: string,
+  { tip = 0, checkBalance = false }: TxFeeOptions = {}
+): Promise<TxFeeEstimate> {
+  const api = ConfigService.get('api')
+
+  const nonce = await api.rpc.system.accountNextIndex(submitter)
+  const fakeSigned = api
+    .tx(tx.toHex())
+    .signFake(submitter, {
+      blockHash: api.genesisHash,
+      genesisHash: api.genesisHash,
+      nonce,
+      runtimeVersion: api.runtimeVersion,
+      tip,
+    })
+    .toHex()
+  const [info, details] = await Promise.all([
+    api.rpc.payment.queryInfo(fakeSigned),
+    api.rpc.payment.queryFeeDetails(fakeSigned),
+  ])
+
+  const zero = api.createType('Balance', 0).toBn()
+  const inclusionFee = details.inclusionFee.unwrapOr(undefined)
+  const fees = {
+    partialFee: info.partialFee.toBn(),
+    baseFee: inclusionFee?.baseFee.toBn() ?? zero,
+    lenFee: inclusionFee?.lenFee.toBn() ?? zero,
+    adjustedWeightFee: inclusionFee?.adjustedWeightFee.toBn() ?? zero,
+    tip: api.createType('Balance', tip).toBn(),
+  }
+  const total = fees.partialFee.add(fees.tip)
+  const estimate: TxFeeEstimate = {
+    ...fees,
+    total,
+    weight: convertWeight(info.weight),
+    formatted: {
+      partialFee: Balance.formatWayBalance(fees.partialFee),
+      baseFee: Balance.formatWayBalance(fees.baseFee),
+      lenFee: Balance.formatWayBalance(fees.lenFee),
+      adjustedWeightFee: Balance.formatWayBalance(fees.adjustedWeightFee),
+      tip: Balance.formatWayBalance(fees.tip),
+      total: Balance.formatWayBalance(total),
+    },
+  }
+
+  if (checkBalance) {
+    await checkFreeBalance(submitter, total)
+  }
+
+  return estimate
+}
+
+/**
+ * The pre-flight check of the `dispatch*` functions of the SDK modules, run on the prepared extrinsic before it is
+ * submitted. With `checkBalance`, the fee of the extrinsic is estimated with [[estimateTxFee]] and checked against the
+ * free balance of the submitter; without it, nothing is checked.
+ *
+ * @param tx The extrinsic prepared by the dispatch function.
+ * @param submitter The address of the account that will sign and submit the extrinsic.
+ * @param options The options of the dispatch function.
+ * @param options.checkBalance Whether to check that the free balance of the submitter covers the fee. Defaults to
+ * false.
+ * @throws {SDKErrors.InsufficientBalanceError} If the free balance does not cover the fee.
+ * @throws {SDKErrors.CordDispatchError} If the fee cannot be estimated.
+ */
+export async function assertCanPay(
+  tx: SubmittableExtrinsic,
+  submitter: string,
+  { checkBalance = false }: DispatchOptions = {}
+): Promise<void> {
+  if (!checkBalance) {
+    return
+  }
+  try {
+    await estimateTxFee(tx, submitter, { checkBalance })
+  } catch (error) {
+    if (error instanceof SDKErrors.InsufficientBalanceError) {
+      throw error
+    }
+    throw new SDKErrors.CordDispatchError(
+      `Error estimating the fee: "${error}".`
+    )
+  }
+}
+
 /**
  * Submits a signed SubmittableExtrinsic and attaches a callback to monitor the inclusion status of the transaction
  * and possible errors in the execution of extrinsics. Returns a promise to that end which by default resolves upon
  * finalization or rejects if any errors occur during submission or execution of extrinsics. This behavior can be adjusted via optional parameters or via the [[ConfigService]].
  *
  * Transaction fees will apply whenever a transaction fee makes it into a block, even if extrinsics fail to execute correctly!
+ * A signed transaction rejected by the transaction pool can not be fixed without signing it again; use
+ * [[signAndSubmitTx]] with the `retry` option to resubmit such transactions, or [[getTxRetryReason]] to classify the
+ * error.
  *
  * @param tx The SubmittableExtrinsic to be submitted. Most transactions need to be signed, this must be done beforehand.
  * @param opts Allows overwriting criteria for resolving/rejecting the transaction result subscription promise. These options take precedent over configuration via the ConfigService.
@@ -187,10 +452,21 @@ export async function submitSignedTx(
   })
 
   let latestResult: SubmittableResult | undefined
-  const unsubscribe = await tx.send((result) => {
-    latestResult = result
-    subscription(result)
-  })
+  let unsubscribe: () => void
+  try {
+    unsubscribe = await tx.send((result) => {
+      latestResult = result
+      subscription(result)
+    })
+  } catch (error) {
+    if (error instanceof Error && error.message.includes(TxDuplicate)) {
+      throw new SDKErrors.TxDuplicateError(
+        `${error.message}: ${tx.hash.toHex()} is already in the transaction pool`,
+        { cause: error }
+      )
+    }
+    throw error
+  }
 
   function handleDisconnect(): void {
     const result = new SubmittableResult({
@@ -221,10 +497,17 @@ export const dispatchTx = submitSignedTx
 /**
  * Signs and submits the SubmittableExtrinsic with optional resolution and rejection criteria.
  *
+ * With the `retry` option, transactions rejected by the transaction pool because they are outdated or their priority
+ * is too low, see [[getTxRetryReason]], are signed again with a fresh nonce and resubmitted after an exponentially
+ * growing delay. Retries after a priority error raise the tip by
+ * `tipIncrement`. Other errors, and the last error once `maxAttempts` is reached, are thrown.
+ *
  * @param tx The generated unsigned SubmittableExtrinsic to submit.
  * @param signer The [[CordKeyringPair]] used to sign the tx.
  * @param opts - Optional parameters including nonce and subscription options.
  * @param opts.nonce Optional nonce value for the transaction.
+ * @param opts.tip Optional tip for the block author.
+ * @param opts.retry Optional retry configuration, see [[TxRetryOptions]]. Pass `{}` to retry with the defaults.
  * @returns Promise result of executing the extrinsic, of type ISubmittableResult.
  */
 export async function signAndSubmitTx(
@@ -232,9 +515,62 @@ export async function signAndSubmitTx(
   signer: KeyringPair,
   {
     nonce = -1,
+    tip,
+    retry,
     ...opts
-  }: Partial<SubscriptionPromise.Options> & Partial<{ nonce: AnyNumber }> = {}
+  }: Partial<SubscriptionPromise.Options> &
+    Partial<{
+      nonce: AnyNumber
+      tip: AnyNumber
+      retry: Partial<TxRetryOptions>
+    }> = {}
 ): Promise<ISubmittableResult> {
-  const signedTx = await tx.signAsync(signer, { nonce })
-  return submitSignedTx(signedTx, opts)
+  if (retry === undefined) {
+    const signedTx = await tx.signAsync(signer, { nonce, tip })
+    return submitSignedTx(signedTx, opts)
+  }
+
+  const {
+    maxAttempts = 5,
+    initialDelay = 1000,
+    maxDelay = 30000,
+    tipIncrement = 0,
+    onAttempt,
+  } = retry
+  const api = ConfigService.get('api')
+
+  async function attemptSubmit(
+    attempt: number,
+    currentNonce: AnyNumber,
+    currentTip: AnyNumber
+  ): Promise<ISubmittableResult> {
+    try {
+      const signedTx = await tx.signAsync(signer, {
+        nonce: currentNonce,
+        tip: currentTip,
+      })
+      return await submitSignedTx(signedTx, opts)
+    } catch (error) {
+      const reason = getTxRetryReason(error)
+      const retryIn =
+        reason !== undefined && attempt < maxAttempts
+          ? Math.min(initialDelay * 2 ** (attempt - 1), maxDelay)
+          : undefined
+      onAttempt?.({ attempt, error, reason, retryIn })
+      if (retryIn === undefined) throw error
+
+      await new Promise((resolve) => {
+        setTimeout(resolve, retryIn)
+      })
+      const nextTip =
+        reason === 'priority'
+          ? api
+              .createType('Balance', currentTip)
+              .add(api.createType('Balance', tipIncrement))
+          : currentTip
+      return attemptSubmit(attempt + 1, -1, nextTip)
+    }
+  }
+
+  return attemptSubmit(1, nonce, tip ?? 0)
 }
@@ -0,0 +1,350 @@
+/**
+ * Helpers for the `multisig` pallet, to submit transactions on behalf of an account controlled by several
+ * signatories.
+ *
+ * An SDK-built extrinsic is wrapped with [[prepareApprovalExtrinsic]] for every signatory in turn: the first
+ * signatories approve the hash of the call, and the one reaching the threshold submits the call itself, together with
+ * the timepoint of the operation and the weight the call may consume.
+ *
+ * @example
+ * ```typescript
+ * const account = Multisig.createMultisigAccount([alice.address, bob.address, charlie.address], 2);
+ * // the multisig account has to pay for the call, e.g. a transfer funded beforehand
+ * await Multisig.dispatchApprovalToChain(account, alice, call);
+ * await Multisig.dispatchApprovalToChain(account, bob, call); // executes the call
+ * ```
+ *
+ * @packageDocumentation
+ * @module Multisig
+ */
+import {
+  createKeyMulti,
+  encodeAddress,
+  sortAddresses,
+} from '@polkadot/util-crypto'
+
+import { ConfigService } from '@cord.network/config'
+import type {
+  CordAddress,
+  HexString,
+  ISubmittableResult,
+  KeyringPair,
+  MultisigAccount,
+  Option,
+  PendingMultisig,
+  SubmittableExtrinsic,
+} from '@cord.network/types'
+import { SDKErrors, ss58Format } from '@cord.network/utils'
+import type {
+  PalletMultisigMultisig,
+  RuntimeDispatchWeightInfoV1,
+  RuntimeDispatchWeightInfoV2,
+} from '@cord.network/augment-api'
+import { signAndSubmitTx } from './Chain.js'
+
+/**
+ * The weight limit passed along with the final approval of a multisig operation.
+ */
+export interface MultisigCallWeight {
+  refTime: bigint
+  proofSize: bigint
+}
+
+/**
+ * Derives the address of the account controlled by the signatories and the threshold.
+ *
+ * @param signatories The addresses of the signatories, in any order.
+ * @param threshold The number of signatories that have to approve a call.
+ * @returns The multisig address.
+ */
+export function getMultisigAddress(
+  signatories: CordAddress[],
+  threshold: number
+): CordAddress {
+  return encodeAddress(
+    createKeyMulti(signatories, threshold),
+    ss58Format
+  ) as CordAddress
+}
+
+/**
+ * Checks the signatories and the threshold, and derives the multisig account they control.
+ *
+ * @param signatories The addresses of the signatories, in any order.
+ * @param threshold The number of signatories that have to approve a call.
+ * @returns The multisig account.
+ */
+export function createMultisigAccount(
+  signatories: CordAddress[],
+  threshold: number
+): MultisigAccount {
+  const sorted = sortAddresses(signatories, ss58Format) as CordAddress[]
+  if (new Set(sorted).size !== sorted.length) {
+    throw new SDKErrors.MultisigError('Signatories must be unique')
+  }
+  if (sorted.length < 2) {
+    throw new SDKErrors.MultisigError(
+      'A multisig account needs at least two signatories'
+    )
+  }
+  if (
+    !Number.isInteger(threshold) ||
+    threshold < 1 ||
+    threshold > sorted.length
+  ) {
+    throw new SDKErrors.MultisigError(
+      `Threshold must be between 1 and ${sorted.length}`
+    )
+  }
+  return {
+    address: getMultisigAddress(sorted, threshold),
+    signatories: sorted,
+    threshold,
+  }
+}
+
+function getOtherSignatories(
+  { signatories }: MultisigAccount,
+  signer: CordAddress
+): CordAddress[] {
+  if (!signatories.includes(signer)) {
+    throw new SDKErrors.MultisigError(
+      `${signer} is not a signatory of the multisig account`
+    )
+  }
+  return signatories.filter((signatory) => signatory !== signer)
+}
+
+/**
+ * Computes the hash of a call, identifying the multisig operation executing it.
+ *
+ * @param call The call the multisig account should execute.
+ * @returns The call hash.
+ */
+export function getCallHash(call: SubmittableExtrinsic): HexString {
+  return call.method.hash.toHex()
+}
+
+function pendingFromChain(
+  encoded: PalletMultisigMultisig,
+  callHash: HexString
+): PendingMultisig {
+  const { when, deposit, depositor, approvals } = encoded
+  return {
+    callHash,
+    when: { height: when.height.toNumber(), index: when.index.toNumber() },
+    deposit: deposit.toBn(),
+    depositor: depositor.toString() as CordAddress,
+    approvals: approvals.map((approval) => approval.toString() as CordAddress),
+  }
+}
+
+/**
+ * Fetches an open multisig operation.
+ *
+ * @param account The multisig account.
+ * @param callHash The hash of the call executed by the operation.
+ * @returns The operation, or null if no operation is open for the call.
+ */
+export async function fetchPendingMultisig(
+  account: MultisigAccount,
+  callHash: HexString
+): Promise<PendingMultisig | null> {
+  const api = ConfigService.get('api')
+  const encoded = (await api.query.multisig.multisigs(
+    account.address,
+    callHash
+  )) as Option<PalletMultisigMultisig>
+  if (encoded.isNone) return null
+  return pendingFromChain(encoded.unwrap(), callHash)
+}
+
+/**
+ * Fetches all open operations of a multisig account.
+ *
+ * @param account The multisig account.
+ * @returns The open operations.
+ */
+export async function fetchPendingMultisigs(
+  account: MultisigAccount
+): Promise<PendingMultisig[]> {
+  const api = ConfigService.get('api')
+  const entries = await api.query.multisig.multisigs.entries(account.address)
+  return entries
+    .filter(([, encoded]) => encoded.isSome)
+    .map(([key, encoded]) =>
+      pendingFromChain(encoded.unwrap(), key.args[1].toHex())
+    )
+}
+
+/**
+ * Queries the weight of a call, the limit to pass along with the final approval.
+ *
+ * @param call The call the multisig account should execute.
+ * @returns The weight of the call.
+ */
+export async function getCallWeight(
+  call: SubmittableExtrinsic
+): Promise<MultisigCallWeight> {
+  const api = ConfigService.get('api')
+  type Weight = RuntimeDispatchWeightInfoV1 | RuntimeDispatchWeightInfoV2
+
+  const { weight } = (await api.call.transactionWeightApi.queryWeightInfo(
+    call
+  )) as Weight
+  if ('refTime' in weight) {
+    return {
+      refTime: weight.refTime.toBigInt(),
+      proofSize: weight.proofSize.toBigInt(),
+    }
+  }
+  // V1 weight, without proof size
+  return { refTime: weight.toBigInt(), proofSize: BigInt(0) }
+}
+
+/**
+ * Wraps a call in the approval of one signatory of a multisig account.
+ *
+ * Looks up the open operation for the call: the first signatory opens the operation, the next ones approve it with
+ * its timepoint, and the one reaching the threshold submits the call, together with its weight, to execute it. The
+ * returned extrinsic has to be signed by the signatory.
+ *
+ * @param account The multisig account.
+ * @param signer The address of the signatory approving.
+ * @param call The call the multisig account should execute.
+ * @returns The extrinsic to sign and submit.
+ */
+export async function prepareApprovalExtrinsic(
+  account: MultisigAccount,
+  signer: CordAddress,
+  call: SubmittableExtrinsic
+): Promise<SubmittableExtrinsic> {
+  const api = ConfigService.get('api')
+  const otherSignatories = getOtherSignatories(account, signer)
+
+  if (account.threshold === 1) {
+    return api.tx.multisig.asMultiThreshold1(otherSignatories, call.method)
+  }
+
+  const callHash = getCallHash(call)
+  const pending = await fetchPendingMultisig(account, callHash)
+  if (pending?.approvals.includes(signer)) {
+    throw new SDKErrors.MultisigError(
+      `${signer} has already approved the call ${callHash}`
+    )
+  }
+
+  const approvals = pending?.approvals.length ?? 0
+  if (approvals + 1 >= account.threshold) {
+    return api.tx.multisig.asMulti(
+      account.threshold,
+      otherSignatories,
+      pending?.when ?? null,
+      call.method,
+      await getCallWeight(call)
+    )
+  }
+  return api.tx.multisig.approveAsMulti(
+    account.threshold,
+    otherSignatories,
+    pending?.when ?? null,
+    callHash,
+    { refTime: 0, proofSize: 0 }
+  )
+}
+
+/**
+ * Approves a call on behalf of one signatory of a multisig account, executing it once the threshold is reached.
+ *
+ * @param account The multisig account.
+ * @param signer The keypair of the signatory approving.
+ * @param call The call the multisig account should execute.
+ * @param opts Optional nonce and subscription options, see [[signAndSubmitTx]].
+ * @returns The result of submitting the approval.
+ */
+export async function dispatchApprovalToChain(
+  account: MultisigAccount,
+  signer: KeyringPair,
+  call: SubmittableExtrinsic,
+  opts: Parameters<typeof signAndSubmitTx>[2] = {}
+): Promise<ISubmittableResult> {
+  try {
+    const tx = await prepareApprovalExtrinsic(
+      account,
+      encodeAddress(signer.publicKey, ss58Format) as CordAddress,
+      call
+    )
+    return await signAndSubmitTx(tx, signer, opts)
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching multisig approval: ${errorMessage}`
+    )
+  }
+}
+
+/**
+ * Wraps the cancellation of an open multisig operation. Only the signatory that opened the operation can cancel it,
+ * which unreserves its deposit.
+ *
+ * @param account The multisig account.
+ * @param signer The address of the signatory that opened the operation.
+ * @param callHash The hash of the call executed by the operation.
+ * @returns The extrinsic to sign and submit.
+ */
+export async function prepareCancelExtrinsic(
+  account: MultisigAccount,
+  signer: CordAddress,
+  callHash: HexString
+): Promise<SubmittableExtrinsic> {
+  const api = ConfigService.get('api')
+  const otherSignatories = getOtherSignatories(account, signer)
+
+  const pending = await fetchPendingMultisig(account, callHash)
+  if (pending === null) {
+    throw new SDKErrors.MultisigError(`No open operation for call ${callHash}`)
+  }
+  if (pending.depositor !== signer) {
+    throw new SDKErrors.MultisigError(
+      'Only the signatory that opened the operation can cancel it'
+    )
+  }
+  return api.tx.multisig.cancelAsMulti(
+    account.threshold,
+    otherSignatories,
+    pending.when,
+    callHash
+  )
+}
+
+/**
+ * Cancels an open multisig operation.
+ *
+ * @param account The multisig account.
+ * @param signer The keypair of the signatory that opened the operation.
+ * @param callHash The hash of the call executed by the operation.
+ * @param opts Optional nonce and subscription options, see [[signAndSubmitTx]].
+ * @returns The result of submitting the cancellation.
+ */
+export async function dispatchCancelToChain(
+  account: MultisigAccount,
+  signer: KeyringPair,
+  callHash: HexString,
+  opts: Parameters<typeof signAndSubmitTx>[2] = {}
+): Promise<ISubmittableResult> {
+  try {
+    const tx = await prepareCancelExtrinsic(
+      account,
+      encodeAddress(signer.publicKey, ss58Format) as CordAddress,
+      callHash
+    )
+    return await signAndSubmitTx(tx, signer, opts)
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : JSON.stringify(error)
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching multisig cancellation: ${errorMessage}`
+    )
+  }
+}
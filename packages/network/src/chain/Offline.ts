@@ -0,0 +1,246 @@
+/**
+ * Two-phase signing of transactions, for keys kept on a machine without network access.
+ *
+ * On an online machine, [[prepareOfflineTx]] collects everything the signature depends on (the nonce, era and tip,
+ * the genesis and checkpoint block hashes and the runtime version) into an [[OfflineTxPayload]], which
+ * [[toOfflineBytes]] turns into bytes that can be moved by QR code or removable media. On the offline machine,
+ * [[signOfflineTx]] signs the payload without any chain connection, first with the DID key if the call has to be
+ * DID-authorized (see `Did.prepareOfflineDidTx`) and then with the account. Back online, [[submitOfflineTx]] attaches
+ * the signature and submits the transaction.
+ *
+ * @example
+ * ```typescript
+ * // online
+ * const payload = await Offline.prepareOfflineTx(tx, authorAccount.address);
+ * const request = Offline.toOfflineBytes(payload);
+ * // offline
+ * const signature = await Offline.signOfflineTx(Offline.fromOfflineBytes(request), authorAccount);
+ * const response = Offline.toOfflineBytes(signature);
+ * // online
+ * await Offline.submitOfflineTx(payload, Offline.fromOfflineBytes(response));
+ * ```
+ *
+ * @packageDocumentation
+ * @module Offline
+ */
+import type { SignerPayload } from '@polkadot/types/interfaces'
+import {
+  hexToU8a,
+  stringToU8a,
+  u8aConcat,
+  u8aToHex,
+  u8aToString,
+} from '@polkadot/util'
+import { blake2AsHex, blake2AsU8a } from '@polkadot/util-crypto'
+
+import { ConfigService } from '@cord.network/config'
+import type {
+  AnyNumber,
+  CordAddress,
+  HexString,
+  ISubmittableResult,
+  KeyringPair,
+  OfflineTxPayload,
+  OfflineTxSignature,
+  SignExtrinsicCallback,
+  SubmittableExtrinsic,
+  SubscriptionPromise,
+} from '@cord.network/types'
+import { SDKErrors } from '@cord.network/utils'
+import { submitSignedTx } from './Chain.js'
+
+/**
+ * Computes the hash of the runtime metadata the connected chain currently uses.
+ *
+ * @returns The blake2 hash of the metadata.
+ */
+export function getMetadataHash(): HexString {
+  const api = ConfigService.get('api')
+  return blake2AsHex(api.runtimeMetadata.toU8a())
+}
+
+/**
+ * Builds the payload for signing a transaction on an offline machine.
+ *
+ * @remarks
+ * The era is anchored at the last finalized block, so the transaction has to be submitted within `mortality` blocks;
+ * `validUntil` holds the last block in which it can be included. The nonce is the next nonce of the account, unless
+ * given: transactions prepared at the same time have to be given consecutive nonces.
+ *
+ * @param tx The unsigned transaction.
+ * @param address The address of the account that will sign and pay for the transaction.
+ * @param options - The object with named parameters.
+ * @param options.nonce - (Optional) The nonce to sign the transaction with. Defaults to the next nonce of the account.
+ * @param options.tip - (Optional) The tip to pay. Defaults to 0.
+ * @param options.mortality - (Optional) The number of blocks the transaction is valid for. Defaults to 256.
+ * @returns The payload to sign.
+ */
+export async function prepareOfflineTx(
+  tx: SubmittableExtrinsic,
+  address: CordAddress,
+  {
+    nonce,
+    tip = 0,
+    mortality = 256,
+  }: {
+    nonce?: AnyNumber
+    tip?: AnyNumber
+    mortality?: number
+  } = {}
+): Promise<OfflineTxPayload> {
+  const api = ConfigService.get('api')
+  const finalizedHash = await api.rpc.chain.getFinalizedHead()
+  const header = await api.rpc.chain.getHeader(finalizedHash)
+  const era = api.registry.createType('ExtrinsicEra', {
+    current: header.number,
+    period: mortality,
+  })
+
+  const signerPayload = api.registry.createType<SignerPayload>(
+    'SignerPayload',
+    {
+      address,
+      blockHash: header.hash,
+      blockNumber: header.number,
+      era,
+      genesisHash: api.genesisHash,
+      method: tx.method,
+      nonce: nonce ?? (await api.rpc.system.accountNextIndex(address)),
+      runtimeVersion: api.runtimeVersion,
+      signedExtensions: api.registry.signedExtensions,
+      tip,
+      version: api.extrinsicVersion,
+    }
+  )
+
+  // the signed data is the call, without length prefix, followed by the signed extensions
+  const data = hexToU8a(signerPayload.toRaw().data)
+  return {
+    payload: signerPayload.toPayload(),
+    extra: u8aToHex(data.subarray(tx.method.encodedLength)),
+    metadataHash: getMetadataHash(),
+    validUntil: era.asMortalEra.death(header.number.toBn()) - 1,
+  }
+}
+
+/**
+ * Signs an [[OfflineTxPayload]]. Needs no chain connection.
+ *
+ * @remarks
+ * If the payload carries a DID authorization, the DID key signs it through `sign` first, and the account signs the
+ * call that includes the DID signature.
+ *
+ * @param payload The payload built by [[prepareOfflineTx]] or `Did.prepareOfflineDidTx`.
+ * @param account The keypair of the account the payload was built for.
+ * @param sign (Optional) The callback signing with the DID key, required if the payload carries a DID authorization.
+ * @returns The signature to submit the transaction with.
+ * @throws {SDKErrors.OfflineTxError} If the account does not match the payload, or the DID authorization cannot be
+ * signed.
+ */
+export async function signOfflineTx(
+  payload: OfflineTxPayload,
+  account: KeyringPair,
+  sign?: SignExtrinsicCallback
+): Promise<OfflineTxSignature> {
+  if (account.address !== payload.payload.address) {
+    throw new SDKErrors.OfflineTxError(
+      `The payload has to be signed by ${payload.payload.address}`
+    )
+  }
+
+  let method = payload.payload.method as HexString
+  const { didAuthorization } = payload
+  if (didAuthorization !== undefined) {
+    if (sign === undefined) {
+      throw new SDKErrors.OfflineTxError(
+        'A sign callback is required to DID-authorize the call'
+      )
+    }
+    const { did, keyRelationship, operation, callPrefix, signatureIndexes } =
+      didAuthorization
+    const { signature, keyType } = await sign({
+      data: hexToU8a(operation),
+      keyRelationship,
+      did,
+    })
+    const signatureIndex = signatureIndexes[keyType]
+    if (signatureIndex === undefined) {
+      throw new SDKErrors.OfflineTxError(
+        `Signatures of type "${keyType}" are not supported by the chain`
+      )
+    }
+    method = u8aToHex(
+      u8aConcat(callPrefix, new Uint8Array([signatureIndex]), signature)
+    )
+  }
+
+  const data = u8aConcat(method, payload.extra)
+  const signature = account.sign(data.length > 256 ? blake2AsU8a(data) : data, {
+    withType: true,
+  })
+  return { method, signature: u8aToHex(signature) }
+}
+
+/**
+ * Attaches an offline signature to its transaction and submits it.
+ *
+ * @param payload The payload the signature was created for.
+ * @param signature The signature returned by [[signOfflineTx]].
+ * @param opts Optional partial criteria for resolving/rejecting the promise, see `Chain.submitSignedTx`.
+ * @returns A promise resolving to the submission result.
+ * @throws {SDKErrors.OfflineTxError} If the payload was built for another chain or runtime.
+ */
+export async function submitOfflineTx(
+  payload: OfflineTxPayload,
+  signature: OfflineTxSignature,
+  opts: Partial<SubscriptionPromise.Options> = {}
+): Promise<ISubmittableResult> {
+  const api = ConfigService.get('api')
+  if (payload.payload.genesisHash !== api.genesisHash.toHex()) {
+    throw new SDKErrors.OfflineTxError(
+      'The payload was built for another chain'
+    )
+  }
+  if (payload.metadataHash !== getMetadataHash()) {
+    throw new SDKErrors.OfflineTxError(
+      'The runtime has been upgraded since the payload was built'
+    )
+  }
+
+  const tx = api.tx(api.registry.createType('Call', signature.method))
+  tx.addSignature(payload.payload.address, signature.signature, {
+    ...payload.payload,
+    method: signature.method,
+  })
+  return submitSignedTx(tx, opts)
+}
+
+/**
+ * Encodes an [[OfflineTxPayload]] or [[OfflineTxSignature]] as the UTF-8 bytes of its JSON representation, to be
+ * moved between machines, for example in a QR code.
+ *
+ * @param value The payload or signature.
+ * @returns The encoded bytes.
+ */
+export function toOfflineBytes(
+  value: OfflineTxPayload | OfflineTxSignature
+): Uint8Array {
+  return stringToU8a(JSON.stringify(value))
+}
+
+/**
+ * Decodes the bytes created by [[toOfflineBytes]].
+ *
+ * @param bytes The encoded bytes.
+ * @returns The decoded payload or signature.
+ * @throws {SDKErrors.OfflineTxError} If the bytes are not valid JSON.
+ */
+export function fromOfflineBytes<
+  T extends OfflineTxPayload | OfflineTxSignature,
+>(bytes: Uint8Array): T {
+  try {
+    return JSON.parse(u8aToString(bytes)) as T
+  } catch {
+    throw new SDKErrors.OfflineTxError('Invalid offline transaction data')
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * @packageDocumentation
+ * @module TxManager
+ *
+ * A `TxManager` submits many transactions of a single account at once. Every transaction carries the nonce of the
+ * account, and `Chain.signAndSubmitTx` reads it from `system.accountNextIndex` for each call, so transactions submitted
+ * in parallel end up with the same nonce and all but one of them fail.
+ *
+ * The manager hands out nonces locally instead. Transactions are signed and handed to the transaction pool one after
+ * the other, in the order they were submitted, and up to `maxInFlight` of them then wait for inclusion concurrently.
+ * Transactions that are dropped or invalidated by the pool leave a gap in the nonces, which keeps all later
+ * transactions from being included; they are signed again with the nonce read from the chain, which closes the gap.
+ *
+ * @example
+ * ```typescript
+ * const manager = createTxManager({ signer: authorAccount, maxInFlight: 32 });
+ * const unsubscribe = manager.subscribe(({ succeeded, failed }) =>
+ *   console.log(`${succeeded} succeeded, ${failed} failed`)
+ * );
+ * const results = await Promise.all(extrinsics.map((tx) => manager.submit(tx)));
+ * unsubscribe();
+ * ```
+ */
+
+import { ConfigService } from '@cord.network/config'
+import type {
+  BN,
+  ISubmittableResult,
+  KeyringPair,
+  SubmittableExtrinsic,
+  SubscriptionPromise,
+} from '@cord.network/types'
+
+import {
+  EXTRINSIC_FAILED,
+  IS_ERROR,
+  getTxRetryReason,
+  submitSignedTx,
+} from './Chain.js'
+
+/**
+ * A snapshot of the transactions handled by a [[TxManager]].
+ */
+export interface TxManagerProgress {
+  /**
+   * Transactions waiting for a free slot.
+   */
+  queued: number
+  /**
+   * Transactions being signed, submitted or waiting for inclusion.
+   */
+  inFlight: number
+  succeeded: number
+  failed: number
+  /**
+   * How often transactions were signed again after being rejected, dropped or invalidated by the pool.
+   */
+  retried: number
+}
+
+/**
+ * Submits the transactions of a single account concurrently, managing its nonce locally.
+ */
+export interface TxManager {
+  /**
+   * Signs a transaction with the account of the manager and submits it, once fewer than `maxInFlight` transactions
+   * are in flight.
+   *
+   * @param tx The unsigned transaction.
+   * @returns A promise resolving to the submission result, according to the submit options of the manager.
+   */
+  submit: (tx: SubmittableExtrinsic) => Promise<ISubmittableResult>
+  /**
+   * Registers a listener that receives a [[TxManagerProgress]] snapshot whenever a transaction changes state.
+   *
+   * @param listener The listener.
+   * @returns A function removing the listener.
+   */
+  subscribe: (listener: (progress: TxManagerProgress) => void) => () => void
+  /**
+   * @returns The current [[TxManagerProgress]].
+   */
+  getProgress: () => TxManagerProgress
+  /**
+   * Waits until every submitted transaction has settled.
+   *
+   * @returns A promise resolving once no transaction is queued or in flight.
+   */
+  onIdle: () => Promise<void>
+  /**
+   * Discards the locally tracked nonce, so it is read from the chain again before the next transaction is signed.
+   * Needed when the account was used outside of the manager.
+   */
+  resync: () => void
+}
+
+/**
+ * Creates a manager submitting the transactions of an account concurrently.
+ *
+ * @remarks
+ * A transaction only holds its nonce once the pool has accepted it, so a transaction failing before that, for
+ * example because the pool rejects it for insufficient funds, does not leave a gap. Transactions that the pool
+ * rejects as outdated or of too low priority, or drops or invalidates after accepting them, are signed again with
+ * the nonce read from the chain, up to `maxRetries` times, so they may be included out of order. Other failures,
+ * including a `TxDuplicateError` for a transaction the pool already holds, reject the promise returned by `submit`.
+ *
+ * @param options - The object with named parameters.
+ * @param options.signer - The account signing and submitting the transactions.
+ * @param options.maxInFlight - (Optional) How many transactions may be in flight at once. Defaults to 16.
+ * @param options.maxRetries - (Optional) How often a transaction is signed again after a pool error. Defaults to 3.
+ * @param options.submitOptions - (Optional) The options passed to `Chain.submitSignedTx`, for example to resolve
+ * transactions on inclusion instead of finalization, or to time out transactions that are stuck in the pool.
+ * @returns The transaction manager.
+ */
+export function createTxManager({
+  signer,
+  maxInFlight = 16,
+  maxRetries = 3,
+  submitOptions = {},
+}: {
+  signer: KeyringPair
+  maxInFlight?: number
+  maxRetries?: number
+  submitOptions?: Partial<SubscriptionPromise.Options>
+}): TxManager {
+  const rejectOn =
+    submitOptions.rejectOn ??
+    ((result: ISubmittableResult) =>
+      EXTRINSIC_FAILED(result) || IS_ERROR(result))
+
+  let nextNonce: BN | undefined
+  // bumped whenever the nonce is reset, so submissions started before cannot overwrite the reset
+  let nonceEpoch = 0
+  let submissionLock: Promise<unknown> = Promise.resolve()
+  const slotWaiters: Array<() => void> = []
+  let idleWaiters: Array<() => void> = []
+  const listeners = new Set<(progress: TxManagerProgress) => void>()
+  const progress: TxManagerProgress = {
+    queued: 0,
+    inFlight: 0,
+    succeeded: 0,
+    failed: 0,
+    retried: 0,
+  }
+
+  function report(): void {
+    const snapshot = { ...progress }
+    listeners.forEach((listener) => listener(snapshot))
+  }
+
+  async function acquireSlot(): Promise<void> {
+    if (progress.inFlight >= maxInFlight) {
+      await new Promise<void>((resolve) => {
+        slotWaiters.push(resolve)
+      })
+      // all waiters are woken when a slot is released, so the slot may be taken again
+      await acquireSlot()
+      return
+    }
+    // take the slot right away, before another woken transaction sees it free
+    progress.queued -= 1
+    progress.inFlight += 1
+  }
+
+  function resetNonce(): void {
+    nonceEpoch += 1
+    nextNonce = undefined
+  }
+
+  function releaseSlot(): void {
+    slotWaiters.splice(0).forEach((resolve) => resolve())
+  }
+
+  /*
+   * Signs and submits a transaction; only ever runs for one transaction at a time. Resolves once the transaction pool
+   * has accepted the transaction, with the promise tracking it from there on.
+   */
+  async function signAndSend(
+    tx: SubmittableExtrinsic
+  ): Promise<{ result: Promise<ISubmittableResult> }> {
+    const epoch = nonceEpoch
+    let nonce = nextNonce
+    if (nonce === undefined) {
+      const api = ConfigService.get('api')
+      nonce = (await api.rpc.system.accountNextIndex(signer.address)).toBn()
+    }
+
+    const signed = await tx.signAsync(signer, { nonce })
+
+    let markAccepted: () => void
+    const accepted = new Promise<void>((resolve) => {
+      markAccepted = resolve
+    })
+    const result = submitSignedTx(signed, {
+      ...submitOptions,
+      rejectOn: (update: ISubmittableResult) => {
+        markAccepted()
+        return rejectOn(update)
+      },
+    })
+    await Promise.race([accepted, result])
+
+    if (epoch === nonceEpoch) {
+      nextNonce = nonce.addn(1)
+    }
+    return { result }
+  }
+
+  async function run(
+    tx: SubmittableExtrinsic,
+    retriesLeft: number
+  ): Promise<ISubmittableResult> {
+    try {
+      const submission = submissionLock.then(() => signAndSend(tx))
+      submissionLock = submission.catch(() => undefined)
+      const { result } = await submission
+      return await result
+    } catch (error) {
+      if (getTxRetryReason(error) === undefined) {
+        throw error
+      }
+      // the nonce was used elsewhere, or a dropped transaction left a gap
+      resetNonce()
+      if (retriesLeft <= 0) {
+        throw error
+      }
+      progress.retried += 1
+      report()
+      return run(tx, retriesLeft - 1)
+    }
+  }
+
+  return {
+    submit: async (tx) => {
+      progress.queued += 1
+      report()
+      await acquireSlot()
+      report()
+      try {
+        const result = await run(tx, maxRetries)
+        progress.succeeded += 1
+        return result
+      } catch (error) {
+        progress.failed += 1
+        throw error
+      } finally {
+        progress.inFlight -= 1
+        report()
+        releaseSlot()
+        if (progress.queued === 0 && progress.inFlight === 0) {
+          const waiters = idleWaiters
+          idleWaiters = []
+          waiters.forEach((resolve) => resolve())
+        }
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    getProgress: () => ({ ...progress }),
+    onIdle: () => {
+      if (progress.queued === 0 && progress.inFlight === 0) {
+        return Promise.resolve()
+      }
+      return new Promise((resolve) => {
+        idleWaiters.push(resolve)
+      })
+    },
+    resync: resetNonce,
+  }
+}
@@ -1,2 +1,6 @@
 export * as Chain from './Chain.js'
 export * as SubscriptionPromise from './SubscriptionPromise.js'
+export * as Multisig from './Multisig.js'
+export * as Batch from './Batch.js'
+export * as Offline from './Offline.js'
+export * from './TxManager.js'
@@ -1,2 +1,10 @@
 export { ErrorHandler } from './errorhandling/index.js'
-export { Chain, SubscriptionPromise } from './chain/index.js'
+export {
+  Chain,
+  SubscriptionPromise,
+  Multisig,
+  Batch,
+  Offline,
+  createTxManager,
+} from './chain/index.js'
+export type { TxManager, TxManagerProgress } from './chain/index.js'
@@ -11,6 +11,7 @@
  * - Convert schema objects to a format suitable for blockchain storage (`toChain`).
  * - Fetch schema data from the blockchain and reconstruct it into usable schema objects (`fetchFromChain`, `fromChain`).
  * - Verify the existence and integrity of schemas on the blockchain (`isSchemaStored`).
+ * - Estimate the fee of storing a schema before dispatching it (`estimateCreateFee`).
  * - Generate and validate unique identifiers for schemas based on their content and creator (`getUriForSchema`).
  *
  * This module is crucial for ensuring that schemas are correctly stored, retrieved, and validated in a blockchain
@@ -31,6 +32,7 @@ import type {
   AuthorizationId,
   SpaceId,
   SchemaUri,
+  SubmittableExtrinsic,
 } from '@cord.network/types'
 import type { PalletSchemaSchemaEntry } from '@cord.network/augment-api'
 import {
@@ -139,6 +141,43 @@ export function getUriForSchema(
   return { uri: schemaUri, digest }
 }
 
+/**
+ * Prepares the DID-authorized extrinsic storing a schema on the blockchain.
+ *
+ * @param schema - The schema object to be stored.
+ * @param creator - The DID URI of the creator of the schema, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that signs and submits the transaction.
+ * @param authorization - The authorization ID of the space the schema is stored in.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @returns A promise that resolves to the DID-authorized extrinsic.
+ */
+export async function prepareCreateSchemaExtrinsic(
+  schema: ISchema,
+  creator: DidUri,
+  authorAccount: CordKeyringPair,
+  authorization: AuthorizationId,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    const authorizationId = uriToIdentifier(authorization)
+
+    const encodedSchema = encodeCborSchema(schema)
+    const tx = api.tx.schema.create(encodedSchema, authorizationId)
+    const extrinsic = await Did.authorizeTx(
+      creator,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+    return extrinsic
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error preparing extrinsic: "${error}".`
+    )
+  }
+}
+
 /**
  * Dispatches a schema to the blockchain for storage and tracking. This function handles
  * the submission of a schema object to the blockchain, ensuring its uniqueness, immutability,
@@ -157,6 +196,7 @@ export function getUriForSchema(
  *        often associated with specific permissions.
  * @param signCallback - A callback function that handles the signing
  *        of the blockchain transaction (extrinsic).
+ * @param options - See `Chain.DispatchOptions`.
  * @returns A promise that resolves to the unique ID of the dispatched schema
  *          upon successful processing by the blockchain.
  *
@@ -191,27 +231,25 @@ export async function dispatchToChain(
   creator: DidUri,
   authorAccount: CordKeyringPair,
   authorization: AuthorizationId,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<SchemaId> {
-  try {
-    const api = ConfigService.get('api')
+  const exists = await isSchemaStored(schema)
+  if (exists) {
+    return schema.$id
+  }
 
-    const exists = await isSchemaStored(schema)
-    if (exists) {
-      return schema.$id
-    }
+  const extrinsic = await prepareCreateSchemaExtrinsic(
+    schema,
+    creator,
+    authorAccount,
+    authorization,
+    signCallback
+  )
 
-    const authorizationId = uriToIdentifier(authorization)
-
-    const encodedSchema = encodeCborSchema(schema)
-    const tx = api.tx.schema.create(encodedSchema, authorizationId)
-    const extrinsic = await Did.authorizeTx(
-      creator,
-      tx,
-      signCallback,
-      authorAccount.address
-    )
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
 
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return schema.$id
@@ -222,6 +260,35 @@ export async function dispatchToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param schema - The schema object to be stored.
+ * @param creator - The DID URI of the creator of the schema, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorization - The authorization ID of the space the schema is stored in.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateCreateFee(
+  schema: ISchema,
+  creator: DidUri,
+  authorAccount: CordKeyringPair,
+  authorization: AuthorizationId,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareCreateSchemaExtrinsic(
+    schema,
+    creator,
+    authorAccount,
+    authorization,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
 /**
  * (Internal Function) - Fetches and reconstructs a schema object from the blockchain using its URI.
  * This function retrieves encoded schema data from the blockchain, decodes it, and constructs a structured
@@ -8,5 +8,8 @@ export * as Schema from '@cord.network/schema'
 export * as Statement from '@cord.network/statement'
 export * as Score from '@cord.network/network-score'
 export * as Asset from '@cord.network/asset'
+export * as Document from '@cord.network/document'
+export { Content } from '@cord.network/document'
+export * as Message from '@cord.network/messaging'
 export * as Utils from '@cord.network/utils'
 export * from '@cord.network/types'
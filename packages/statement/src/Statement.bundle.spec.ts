@@ -0,0 +1,131 @@
+/**
+ * @group unit/statement
+ */
+
+import type {
+  DidResourceUri,
+  DidUri,
+  HexString,
+  IStatementVerificationBundle,
+  ResolvedDidKey,
+  SchemaUri,
+  SpaceUri,
+} from '@cord.network/types'
+import { cryptoWaitReady } from '@polkadot/util-crypto'
+
+import fixture from './__fixtures__/verificationBundle.json'
+import { verifyVerificationBundle } from './Statement.bundle'
+
+/*
+ * The fixture holds a block header and two bundles taken at that block: one of an active statement and one of a
+ * revoked statement, both created by `creatorUri` and signed by the `exporter` DID. The state behind the header is a
+ * state version 1 trie holding the two statements among unrelated entries, so the proofs carry inline and hashed
+ * values and branch nodes shared with other keys.
+ */
+const header = fixture.header as HexString
+const creatorUri = fixture.creatorUri as DidUri
+const spaceUri = fixture.spaceUri as SpaceUri
+const schemaUri = fixture.schemaUri as SchemaUri
+const activeBundle = fixture.activeBundle as IStatementVerificationBundle
+const revokedBundle = fixture.revokedBundle as IStatementVerificationBundle
+
+async function didResolveKey(keyUri: DidResourceUri): Promise<ResolvedDidKey> {
+  if (keyUri !== fixture.exporter.keyUri) {
+    throw new Error(`Unknown key "${keyUri}"`)
+  }
+  return {
+    id: keyUri,
+    controller: fixture.exporter.uri as DidUri,
+    publicKey: Buffer.from(fixture.exporter.publicKey.slice(2), 'hex'),
+    type: 'ed25519',
+  }
+}
+
+beforeAll(async () => {
+  await cryptoWaitReady()
+})
+
+describe('verifyVerificationBundle', () => {
+  it('accepts a bundle proven by the trusted header', async () => {
+    const result = await verifyVerificationBundle(activeBundle, header, {
+      creatorUri,
+      spaceUri,
+      schemaUri,
+      signerUri: fixture.exporter.uri as DidUri,
+      didResolveKey,
+    })
+    expect(result).toMatchObject({ isValid: true })
+  })
+
+  it('rejects a bundle of a revoked statement', async () => {
+    const result = await verifyVerificationBundle(revokedBundle, header)
+    expect(result).toMatchObject({ isValid: false })
+    expect(result.message).toContain('Revoked')
+  })
+
+  it('rejects a header of another block', async () => {
+    const otherHeader =
+      `${header.slice(0, 10)}00${header.slice(12)}` as HexString
+    const result = await verifyVerificationBundle(activeBundle, otherHeader)
+    expect(result).toStrictEqual({
+      isValid: false,
+      message: 'Bundle was not taken at the trusted block.',
+    })
+  })
+
+  it('rejects values that are not proven', async () => {
+    const tampered = {
+      ...activeBundle,
+      entry: `${activeBundle.entry?.slice(0, -2)}00` as HexString,
+    }
+    const result = await verifyVerificationBundle(tampered, header)
+    expect(result).toStrictEqual({
+      isValid: false,
+      message: 'Bundle values are not proven by the trusted header.',
+    })
+  })
+
+  it('rejects a bundle claiming a revoked statement is active', async () => {
+    const result = await verifyVerificationBundle(
+      { ...revokedBundle, revocation: null },
+      header
+    )
+    expect(result).toMatchObject({ isValid: false })
+  })
+
+  it('rejects a proof missing trie nodes', async () => {
+    const result = await verifyVerificationBundle(
+      { ...activeBundle, proof: activeBundle.proof.slice(1) },
+      header
+    )
+    expect(result).toMatchObject({ isValid: false })
+    expect(result.message).toContain('missing from the proof')
+  })
+
+  it('rejects a mismatching creator', async () => {
+    const result = await verifyVerificationBundle(activeBundle, header, {
+      creatorUri: fixture.exporter.uri as DidUri,
+    })
+    expect(result).toStrictEqual({
+      isValid: false,
+      message: 'Statement and Digest creator does not match.',
+    })
+  })
+
+  it('rejects a bundle not signed by the expected signer', async () => {
+    const result = await verifyVerificationBundle(activeBundle, header, {
+      signerUri: creatorUri,
+      didResolveKey,
+    })
+    expect(result).toMatchObject({ isValid: false })
+  })
+
+  it('rejects a bundle whose signature does not cover its contents', async () => {
+    const result = await verifyVerificationBundle(
+      { ...activeBundle, signature: revokedBundle.signature },
+      header,
+      { didResolveKey }
+    )
+    expect(result).toMatchObject({ isValid: false })
+  })
+})
@@ -0,0 +1,364 @@
+/**
+ * @packageDocumentation
+ * @module Statement/Bundle
+ *
+ * The `Statement/Bundle` submodule lets statements be verified without a connection to a CORD node. A verification
+ * bundle holds the `statements`, `entries` and `revocationList` storage values of a statement together with a
+ * storage proof (`state_getReadProof`) at a finalized block, and is signed by the DID that exported it. An offline
+ * verifier checks the proof against the state root of a header it trusts, e.g. one obtained from a light client or
+ * distributed as a checkpoint, and then applies the same checks as `verifyAgainstProperties`.
+ *
+ * Key functionalities include:
+ * - `exportVerificationBundle`: Reads the storage values and proof of a statement at the finalized head and signs them.
+ * - `verifyVerificationBundle`: Verifies a bundle against a trusted header, without any network access.
+ *
+ * @example
+ * ```typescript
+ * // Online, e.g. when issuing a credential
+ * const bundle = await exportVerificationBundle(stmtUri, exporterUri, signCallback);
+ *
+ * // Offline, in the field
+ * const { isValid, message } = await verifyVerificationBundle(bundle, trustedHeader);
+ * ```
+ */
+
+import { TypeRegistry } from '@polkadot/types'
+import { compactAddLength, stringToU8a, u8aConcat } from '@polkadot/util'
+import { blake2AsU8a, xxhashAsU8a } from '@polkadot/util-crypto'
+import type {
+  PalletStatementStatementDetails,
+  PalletStatementStatementEntryStatus,
+} from '@cord.network/augment-api'
+import type {
+  AccountId32,
+  DidResolveKey,
+  DidUri,
+  HexString,
+  IStatementStatus,
+  IStatementVerificationBundle,
+  Option,
+  SchemaUri,
+  SignCallback,
+  SpaceUri,
+  StatementUri,
+} from '@cord.network/types'
+import { ConfigService } from '@cord.network/config'
+import * as Did from '@cord.network/did'
+import { uriToStatementIdAndDigest } from '@cord.network/identifier'
+import { Crypto, SDKErrors, TrieProof } from '@cord.network/utils'
+import { decodeStatementDetailsfromChain } from './Statement.chain.js'
+import { checkStatementStatus } from './Statement.js'
+
+/**
+ * Registry used to decode headers and statement storage values without a connection to a node.
+ */
+const offlineRegistry = new TypeRegistry()
+offlineRegistry.register({
+  PalletStatementStatementDetails: {
+    digest: 'H256',
+    space: 'Bytes',
+    schema: 'Option<Bytes>',
+  },
+  PalletStatementStatementEntryStatus: {
+    creator: 'AccountId32',
+    revoked: 'bool',
+  },
+})
+
+/**
+ * Computes the storage keys of the `statements`, `entries` and `revocationList` entries of a statement.
+ *
+ * @remarks
+ * The keys are derived locally from the pallet and storage names and the storage hashers of the `statement` pallet
+ * (`Blake2_128Concat` for `statements`, `Twox64Concat` + `Blake2_128Concat` for the double maps), so that an offline
+ * verifier does not have to trust keys supplied with the bundle.
+ *
+ * @param stmtUri - The URI of the statement element, in the form `stmt:cord:<identifier>:<digest>`.
+ * @returns The storage keys of the statement details, its entry and its revocation status.
+ *
+ * @internal
+ */
+export function getStatementStorageKeys(stmtUri: StatementUri): {
+  statement: Uint8Array
+  entry: Uint8Array
+  revocation: Uint8Array
+} {
+  const { identifier, digest } = uriToStatementIdAndDigest(stmtUri)
+  const encodedId = compactAddLength(stringToU8a(identifier))
+  const encodedDigest = Crypto.coToUInt8(digest)
+
+  const storagePrefix = (item: string) =>
+    u8aConcat(xxhashAsU8a('Statement', 128), xxhashAsU8a(item, 128))
+  const blake2128Concat = (data: Uint8Array) =>
+    u8aConcat(blake2AsU8a(data, 128), data)
+  const twox64Concat = (data: Uint8Array) =>
+    u8aConcat(xxhashAsU8a(data, 64), data)
+
+  return {
+    statement: u8aConcat(
+      storagePrefix('Statements'),
+      blake2128Concat(encodedId)
+    ),
+    entry: u8aConcat(
+      storagePrefix('Entries'),
+      twox64Concat(encodedId),
+      blake2128Concat(encodedDigest)
+    ),
+    revocation: u8aConcat(
+      storagePrefix('RevocationList'),
+      twox64Concat(encodedId),
+      blake2128Concat(encodedDigest)
+    ),
+  }
+}
+
+/**
+ * Computes the data signed by the exporter of a verification bundle.
+ *
+ * @param bundle - The bundle, without its signature.
+ * @returns The bytes of the hash over the bundle contents.
+ *
+ * @internal
+ */
+function getBundleSigningData(
+  bundle: Omit<IStatementVerificationBundle, 'signature'>
+): Uint8Array {
+  return Crypto.coToUInt8(
+    Crypto.hashObjectAsHexStr({
+      uri: bundle.uri,
+      blockHash: bundle.blockHash,
+      blockNumber: bundle.blockNumber,
+      statement: bundle.statement ?? '',
+      entry: bundle.entry ?? '',
+      revocation: bundle.revocation ?? '',
+      proof: bundle.proof,
+    })
+  )
+}
+
+/**
+ * Exports a signed verification bundle of a statement at the finalized head of the chain.
+ *
+ * @remarks
+ * The storage proof is requested with `state_getReadProof` for the `statements`, `entries` and `revocationList`
+ * keys of the statement, and the values are read back from the proof so that they are consistent with it. The
+ * bundle is then signed with the `assertionMethod` key of `signerUri`.
+ *
+ * @param stmtUri - The URI of the statement element to export.
+ * @param signerUri - The DID URI of the exporter signing the bundle.
+ * @param signCallback - The callback signing the bundle with the exporter DID.
+ * @returns A promise that resolves to the signed verification bundle.
+ *
+ * @example
+ * ```typescript
+ * const bundle = await exportVerificationBundle(
+ *   'stmt:cord:example_uri:digest',
+ *   'did:cord:exporter_uri',
+ *   exporterKeys.signCallback
+ * );
+ * fs.writeFileSync('bundle.json', JSON.stringify(bundle));
+ * ```
+ *
+ * @throws {SDKErrors.InvalidIdentifierError} If the statement URI is not a statement element URI.
+ * @throws {SDKErrors.StatementError} If the statement is not anchored at the finalized head.
+ */
+export async function exportVerificationBundle(
+  stmtUri: StatementUri,
+  signerUri: DidUri,
+  signCallback: SignCallback
+): Promise<IStatementVerificationBundle> {
+  const api = ConfigService.get('api')
+  const keys = getStatementStorageKeys(stmtUri)
+
+  const blockHash = await api.rpc.chain.getFinalizedHead()
+  const header = await api.rpc.chain.getHeader(blockHash)
+  const { proof } = await api.rpc.state.getReadProof(
+    [keys.statement, keys.entry, keys.revocation],
+    blockHash
+  )
+  const stateRoot = header.stateRoot.toU8a()
+  const nodes = proof.map((node) => node.toHex())
+
+  const read = (key: Uint8Array): HexString | null => {
+    const value = TrieProof.readProofValue(stateRoot, nodes, key)
+    return value ? Crypto.u8aToHex(value) : null
+  }
+
+  const bundle = {
+    uri: stmtUri,
+    blockHash: blockHash.toHex(),
+    blockNumber: header.number.toNumber(),
+    statement: read(keys.statement),
+    entry: read(keys.entry),
+    revocation: read(keys.revocation),
+    proof: nodes,
+  }
+  if (!bundle.statement || !bundle.entry) {
+    throw new SDKErrors.StatementError(
+      `Statement "${stmtUri}" is not anchored at finalized block "${bundle.blockHash}".`
+    )
+  }
+
+  const signature = await signCallback({
+    data: getBundleSigningData(bundle),
+    did: signerUri,
+    keyRelationship: 'assertionMethod',
+  })
+
+  return { ...bundle, signature: Did.signatureToJson(signature) }
+}
+
+/**
+ * Decodes the statement status held by a verification bundle.
+ *
+ * @param bundle - The verification bundle, whose values have been checked against its proof.
+ * @returns The status of the statement, or `null` if the bundle does not hold its details or entry.
+ *
+ * @internal
+ */
+function decodeBundleStatus(
+  bundle: IStatementVerificationBundle
+): IStatementStatus | null {
+  if (!bundle.statement || !bundle.entry) {
+    return null
+  }
+  const { identifier, digest } = uriToStatementIdAndDigest(bundle.uri)
+
+  const details = decodeStatementDetailsfromChain(
+    offlineRegistry.createType<Option<PalletStatementStatementDetails>>(
+      'Option<PalletStatementStatementDetails>',
+      offlineRegistry.createType(
+        'PalletStatementStatementDetails',
+        bundle.statement
+      )
+    ),
+    identifier
+  )
+  const creator = offlineRegistry.createType<AccountId32>(
+    'AccountId32',
+    bundle.entry
+  )
+  const revoked = bundle.revocation
+    ? offlineRegistry
+        .createType<PalletStatementStatementEntryStatus>(
+          'PalletStatementStatementEntryStatus',
+          bundle.revocation
+        )
+        .revoked.valueOf()
+    : false
+
+  return {
+    uri: details.uri,
+    digest,
+    spaceUri: details.spaceUri,
+    creatorUri: Did.fromChain(creator),
+    schemaUri: details.schemaUri,
+    revoked,
+  }
+}
+
+/**
+ * Verifies a verification bundle against a trusted block header, without any network access.
+ *
+ * @remarks
+ * The bundle must be taken at the block of `trustedHeader`, and each of its storage values (or their absence) must be
+ * proven by its storage proof against the state root of that header. The storage keys are derived from the statement
+ * URI, not taken from the bundle. The statement status is then decoded from the proven values and compared with the
+ * expected properties, like `verifyAgainstProperties` does with the live chain state.
+ *
+ * The exporter signature is only checked when `didResolveKey` is given, as resolving the exporter DID requires
+ * either a node or a locally cached DID document.
+ *
+ * @param bundle - The verification bundle, as exported by `exportVerificationBundle`.
+ * @param trustedHeader - The SCALE-encoded header of the block the bundle was taken at.
+ * @param options - (Optional) The expected properties of the statement and verification options.
+ * @param options.creatorUri - The expected DID URI of the statement's creator.
+ * @param options.spaceUri - The expected URI of the ChainSpace of the statement.
+ * @param options.schemaUri - The expected URI of the schema of the statement.
+ * @param options.signerUri - The DID URI the bundle is expected to be signed by.
+ * @param options.didResolveKey - Resolves the key the bundle was signed with. The signature is not checked if omitted.
+ * @returns A promise that resolves to an object with `isValid` flag and `message`.
+ *
+ * @example
+ * ```typescript
+ * const { isValid, message } = await verifyVerificationBundle(bundle, trustedHeader, {
+ *   creatorUri: 'did:cord:issuer_uri',
+ * });
+ * console.log(isValid, message);
+ * ```
+ */
+export async function verifyVerificationBundle(
+  bundle: IStatementVerificationBundle,
+  trustedHeader: HexString,
+  {
+    creatorUri,
+    spaceUri,
+    schemaUri,
+    signerUri,
+    didResolveKey,
+  }: {
+    creatorUri?: DidUri
+    spaceUri?: SpaceUri
+    schemaUri?: SchemaUri
+    signerUri?: DidUri
+    didResolveKey?: DidResolveKey
+  } = {}
+): Promise<{ isValid: boolean; message: string }> {
+  try {
+    const header = offlineRegistry.createType('Header', trustedHeader)
+    if (
+      header.hash.toHex() !== bundle.blockHash ||
+      header.number.toNumber() !== bundle.blockNumber
+    ) {
+      return {
+        isValid: false,
+        message: 'Bundle was not taken at the trusted block.',
+      }
+    }
+
+    const keys = getStatementStorageKeys(bundle.uri)
+    const stateRoot = header.stateRoot.toU8a()
+    const proven = (['statement', 'entry', 'revocation'] as const).every(
+      (item) =>
+        TrieProof.verifyProofValue(
+          stateRoot,
+          bundle.proof,
+          keys[item],
+          bundle[item]
+        )
+    )
+    if (!proven) {
+      return {
+        isValid: false,
+        message: 'Bundle values are not proven by the trusted header.',
+      }
+    }
+
+    if (didResolveKey) {
+      const { signature, keyUri } = Did.signatureFromJson(bundle.signature)
+      await Did.verifyDidSignature({
+        message: getBundleSigningData(bundle),
+        signature,
+        keyUri,
+        expectedSigner: signerUri,
+        expectedVerificationMethod: 'assertionMethod',
+        didResolveKey,
+      })
+    }
+
+    const { digest } = uriToStatementIdAndDigest(bundle.uri)
+    return checkStatementStatus(
+      decodeBundleStatus(bundle),
+      bundle.uri,
+      digest,
+      creatorUri,
+      spaceUri,
+      schemaUri
+    )
+  } catch (error) {
+    return {
+      isValid: false,
+      message: `Error verifying bundle: ${error}`,
+    }
+  }
+}
@@ -10,10 +10,14 @@
  *
  * Key functionalities of the `Statement/Chain` submodule include:
  * - `dispatchRegisterToChain`: Submits a new statement registration request to the blockchain.
+ * - `dispatchRegisterBatchToChain`: Anchors many statement digests through batched registration requests.
  * - `dispatchUpdateToChain`: Handles the submission of statement updates to the blockchain.
  * - `dispatchRevokeToChain`: Manages the revocation of statements on the blockchain.
  * - `dispatchRestoreToChain`: Facilitates the restoration of previously revoked statements.
+ * - `dispatchAddPresentationToChain` / `dispatchRemovePresentationToChain`: Link or unlink presentations of a statement.
+ * - `estimateRegisterFee` and the other `estimate*Fee` functions: Estimate the fee of a dispatch without submitting it.
  * - `fetchStatementDetailsfromChain`: Retrieves the current status of a statement from the blockchain.
+ * - `fetchPresentationsFromChain`: Lists the presentations linked to a statement.
  *
  * This submodule plays a pivotal role in maintaining the integrity, authenticity, and traceability of statements
  * on the CORD blockchain, ensuring that they are managed in a decentralized and transparent manner.
@@ -55,6 +59,9 @@ import type {
   StatementUri,
   SchemaUri,
   IStatementEntry,
+  IStatementBatchResult,
+  IStatementPresentationEntry,
+  IStatementPresentationDetails,
   HexString,
   SubmittableExtrinsic,
 } from '@cord.network/types'
@@ -64,11 +71,15 @@ import {
   buildStatementUri,
   identifierToUri,
   uriToStatementIdAndDigest,
+  elementUriToStatementUri,
 } from '@cord.network/identifier'
-import type { PalletStatementStatementDetails } from '@cord.network/augment-api'
+import type {
+  PalletStatementStatementDetails,
+  PalletStatementStatementPresentationDetails,
+} from '@cord.network/augment-api'
 import { DecoderUtils, SDKErrors } from '@cord.network/utils'
 import { Chain } from '@cord.network/network'
-import { blake2AsHex, H256 } from '@cord.network/types'
+import { blake2AsHex, H256, PresentationTypeOf } from '@cord.network/types'
 
 /**
  * Checks if a statement is stored on the CORD blockchain.
@@ -180,6 +191,7 @@ export function getUriForStatement(
  * @param authorAccount - The blockchain account used to sign and submit the transaction.
  * @param authorizationUri - The URI of the authorization used for the statement.
  * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.DispatchOptions`.
  * @returns The element URI of the registered statement.
  *
  * @throws {SDKErrors.CordDispatchError} - Thrown when there is an error during the dispatch process,
@@ -209,17 +221,20 @@ export async function dispatchRegisterToChain(
   creatorUri: DidUri,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<StatementUri> {
-  try {
-    const tx = await prepareExtrinsicToRegister(
-      stmtEntry,
-      creatorUri,
-      authorAccount,
-      authorizationUri,
-      signCallback
-    )
+  const tx = await prepareExtrinsicToRegister(
+    stmtEntry,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
 
+  await Chain.assertCanPay(tx, authorAccount.address, options)
+
+  try {
     await Chain.signAndSubmitTx(tx, authorAccount)
 
     return stmtEntry.elementUri
@@ -298,6 +313,415 @@ export async function prepareExtrinsicToRegister(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchRegisterToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param stmtEntry - The statement entry object.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateRegisterFee(
+  stmtEntry: IStatementEntry,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareExtrinsicToRegister(
+    stmtEntry,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * Computes how many statement digests can be anchored with a single `registerBatch` call.
+ *
+ * @remarks
+ * The limit is the lower of the runtime's `maxDigestsPerBatch` constant and the number of
+ * single-digest batches that fit into a block, as reported by `Chain.getMaxBatchable`.
+ *
+ * @param digest - A sample digest used to build the weight query extrinsic.
+ * @param authorizationId - The authorization identifier used for the batch.
+ * @param schemaId - The optional schema identifier used for the batch.
+ * @returns The maximum number of digests to include in one batch call.
+ *
+ * @internal
+ */
+async function getMaxDigestsPerBatch(
+  digest: HexString,
+  authorizationId: AuthorizationId,
+  schemaId: string | null
+): Promise<number> {
+  const api = ConfigService.get('api')
+  const maxDigests = api.consts.statement.maxDigestsPerBatch.toNumber()
+
+  const sampleTx = api.tx.statement.registerBatch(
+    [digest],
+    authorizationId,
+    schemaId
+  )
+  const maxBatchable = await Chain.getMaxBatchable(sampleTx)
+
+  return Math.max(1, Math.min(maxDigests, maxBatchable))
+}
+
+/**
+ * This function prepares and returns a SubmittableExtrinsic for registering a batch of statements
+ * on the blockchain with a single `registerBatch` call.
+ *
+ * @remarks
+ * All entries of a batch share the authorization and the schema of the call, so they must belong to
+ * the same space and reference the same schema (or none). The function does not split the entries;
+ * use `dispatchRegisterBatchToChain` to anchor an arbitrary number of entries.
+ *
+ * @param stmtEntries - The statement entries to be registered in this batch.
+ * @param creatorUri - The DID URI of the creator of the statements, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statements.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @returns A promise that resolves to the DID-authorized `SubmittableExtrinsic`.
+ *
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the entries cannot be batched together or the
+ *         extrinsic cannot be authorized.
+ *
+ * @example
+ * ```typescript
+ * const tx = await prepareExtrinsicToRegisterBatch(
+ *   [stmtEntry1, stmtEntry2],
+ *   creatorUri,
+ *   authorAccount,
+ *   authorizationUri,
+ *   signCallback
+ * );
+ * await Chain.signAndSubmitTx(tx, authorAccount);
+ * ```
+ */
+export async function prepareExtrinsicToRegisterBatch(
+  stmtEntries: IStatementEntry[],
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+
+    if (stmtEntries.length === 0) {
+      throw new SDKErrors.InvalidInputError(
+        'Cannot build a statement batch with no entries'
+      )
+    }
+
+    const [{ spaceUri, schemaUri }] = stmtEntries
+    const mismatch = stmtEntries.find(
+      (entry) => entry.spaceUri !== spaceUri || entry.schemaUri !== schemaUri
+    )
+    if (mismatch) {
+      throw new SDKErrors.InvalidInputError(
+        `All statements of a batch must share the same space and schema\nIdentifier: ${mismatch.elementUri}`
+      )
+    }
+
+    const schemaId = schemaUri ? uriToIdentifier(schemaUri) : null
+
+    const tx = api.tx.statement.registerBatch(
+      stmtEntries.map((entry) => entry.digest),
+      authorizationId,
+      schemaId
+    )
+
+    const extrinsic = await Did.authorizeTx(
+      creatorUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+
+    return extrinsic
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error returning extrinsic: "${error}".`
+    )
+  }
+}
+
+interface RegisterBatchPlan {
+  results: IStatementBatchResult[]
+  /**
+   * The entries of every `registerBatch` call, as indices into the list of entries.
+   */
+  chunks: number[][]
+}
+
+/**
+ * Plans the `registerBatch` calls for a list of statement entries: skips the entries already anchored in the
+ * space, groups the others by schema and splits the groups into chunks of at most `maxDigestsPerBatch` entries.
+ *
+ * @param stmtEntries - The statement entries. All entries must belong to the same space.
+ * @param authorizationUri - The URI of the authorization used for the statements.
+ * @returns A result for every entry, with the `error` set for the anchored ones, and the chunks as lists of entry
+ *          indices.
+ */
+async function planRegisterBatches(
+  stmtEntries: IStatementEntry[],
+  authorizationUri: AuthorizationUri
+): Promise<RegisterBatchPlan> {
+  const api = ConfigService.get('api')
+  const results: IStatementBatchResult[] = stmtEntries.map(({ digest }) => ({
+    digest,
+  }))
+  if (stmtEntries.length === 0) {
+    return { results, chunks: [] }
+  }
+
+  const { spaceUri } = stmtEntries[0]
+  if (stmtEntries.some((entry) => entry.spaceUri !== spaceUri)) {
+    throw new SDKErrors.InvalidInputError(
+      'All statements of a batch dispatch must belong to the same space'
+    )
+  }
+
+  const space = uriToIdentifier(spaceUri)
+  const lookups = await api.query.statement.identifierLookup.multi(
+    stmtEntries.map((entry) => [entry.digest, space])
+  )
+
+  const batches = new Map<string, number[]>()
+  stmtEntries.forEach((entry, index) => {
+    if (!lookups[index].isNone) {
+      results[index].error = 'The statement is already anchored in the chain'
+      return
+    }
+    const key = entry.schemaUri ?? ''
+    batches.set(key, [...(batches.get(key) ?? []), index])
+  })
+
+  const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+  const chunks = await Promise.all(
+    [...batches.entries()].map(async ([schemaUri, indices]) => {
+      const size = await getMaxDigestsPerBatch(
+        stmtEntries[indices[0]].digest,
+        authorizationId,
+        schemaUri ? uriToIdentifier(schemaUri) : null
+      )
+      return Array.from({ length: Math.ceil(indices.length / size) }, (_, i) =>
+        indices.slice(i * size, (i + 1) * size)
+      )
+    })
+  )
+
+  return { results, chunks: chunks.flat() }
+}
+
+/**
+ * Dispatches a list of statement entries to the blockchain using the `registerBatch` extrinsic.
+ *
+ * @remarks
+ * The entries are grouped by schema and split into batches that fit into a block, bounded by the
+ * runtime's `maxDigestsPerBatch` constant. Each batch is DID-authorized by the creator and submitted
+ * in sequence. Entries whose digest is already anchored in the space are not sent again.
+ * The `RegisterBatch` event emitted for each batch reports the indices of the digests that the
+ * runtime rejected, which is used to build a result for every entry. With `options.checkBalance`, a batch whose
+ * fee is not covered by the free balance of the author account is not submitted, and its entries fail with the
+ * `InsufficientBalanceError`.
+ *
+ * @param stmtEntries - The statement entries to be registered. All entries must belong to the same space.
+ * @param creatorUri - The DID URI of the creator of the statements, used to authorize the transactions.
+ * @param authorAccount - The blockchain account used to sign and submit the transactions.
+ * @param authorizationUri - The URI of the authorization used for the statements.
+ * @param signCallback - A callback function that handles the signing of the transactions.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise resolving to one `IStatementBatchResult` per input entry, in input order. A successful
+ *          entry carries its `elementUri`, a failed entry carries the `error` that prevented its registration.
+ *
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the input is invalid or the chain state cannot be queried.
+ *
+ * @example
+ * ```typescript
+ * const results = await dispatchRegisterBatchToChain(
+ *   stmtEntries,
+ *   creatorUri,
+ *   authorAccount,
+ *   authorizationUri,
+ *   signCallback
+ * );
+ * results
+ *   .filter((result) => result.error)
+ *   .forEach((result) => console.error(`${result.digest}: ${result.error}`));
+ * ```
+ */
+export async function dispatchRegisterBatchToChain(
+  stmtEntries: IStatementEntry[],
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<IStatementBatchResult[]> {
+  const api = ConfigService.get('api')
+  let plan: RegisterBatchPlan
+  try {
+    plan = await planRegisterBatches(stmtEntries, authorizationUri)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+  const { results, chunks } = plan
+
+  const dispatchChunk = async (chunk: number[]): Promise<void> => {
+    try {
+      const tx = await prepareExtrinsicToRegisterBatch(
+        chunk.map((index) => stmtEntries[index]),
+        creatorUri,
+        authorAccount,
+        authorizationUri,
+        signCallback
+      )
+      await Chain.assertCanPay(tx, authorAccount.address, options)
+      const result = await Chain.signAndSubmitTx(tx, authorAccount)
+
+      let failedIndices: number[] | undefined
+      result.events.forEach(({ event }) => {
+        if (api.events.statement.RegisterBatch.is(event)) {
+          failedIndices = event.data.indices.map((index) => index.toNumber())
+        }
+      })
+      if (!failedIndices) {
+        throw new SDKErrors.StatementError(
+          'No RegisterBatch event found for the submitted batch'
+        )
+      }
+
+      const failed = new Set(failedIndices)
+      chunk.forEach((entryIndex, batchIndex) => {
+        if (failed.has(batchIndex)) {
+          results[entryIndex].error =
+            'The statement was rejected by the runtime'
+        } else {
+          results[entryIndex].elementUri = stmtEntries[entryIndex].elementUri
+        }
+      })
+    } catch (error) {
+      chunk.forEach((entryIndex) => {
+        results[entryIndex].error = `Error dispatching to chain: "${error}".`
+      })
+    }
+  }
+
+  // one batch at a time, as each is authorized with the next DID transaction counter of the creator
+  await chunks.reduce(
+    (previous, chunk) => previous.then(() => dispatchChunk(chunk)),
+    Promise.resolve()
+  )
+
+  return results
+}
+
+/**
+ * Estimates the fees of [[dispatchRegisterBatchToChain]], building the same DID-authorized `registerBatch`
+ * extrinsics without submitting them. Entries already anchored in the space are left out, as the dispatch does.
+ *
+ * @remarks
+ * With `options.checkBalance`, the free balance of the author account has to cover the fees of all extrinsics.
+ *
+ * @param stmtEntries - The statement entries to be registered. All entries must belong to the same space.
+ * @param creatorUri - The DID URI of the creator of the statements, used to authorize the transactions.
+ * @param authorAccount - The blockchain account that would sign and submit the transactions.
+ * @param authorizationUri - The URI of the authorization used for the statements.
+ * @param signCallback - A callback function that handles the signing of the transactions.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown of every extrinsic the dispatch would submit, see `Chain.estimateTxFee`.
+ */
+export async function estimateRegisterBatchFee(
+  stmtEntries: IStatementEntry[],
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate[]> {
+  const { tip, checkBalance = false } = options
+  const { chunks } = await planRegisterBatches(stmtEntries, authorizationUri)
+  const estimates = await Promise.all(
+    chunks.map(async (chunk) => {
+      const tx = await prepareExtrinsicToRegisterBatch(
+        chunk.map((index) => stmtEntries[index]),
+        creatorUri,
+        authorAccount,
+        authorizationUri,
+        signCallback
+      )
+      return Chain.estimateTxFee(tx, authorAccount.address, { tip })
+    })
+  )
+
+  if (checkBalance && estimates.length > 0) {
+    await Chain.checkFreeBalance(
+      authorAccount.address,
+      estimates
+        .slice(1)
+        .reduce((sum, { total }) => sum.add(total), estimates[0].total)
+    )
+  }
+  return estimates
+}
+
+/**
+ * This function prepares and returns a SubmittableExtrinsic for updating a statement on the blockchain.
+ *
+ * @param stmtEntry - The statement entry object with the new digest of the statement.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @returns A promise that resolves to the DID-authorized `SubmittableExtrinsic`.
+ *
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be constructed or authorized.
+ */
+export async function prepareExtrinsicToUpdate(
+  stmtEntry: IStatementEntry,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+
+    const stmtIdDigest = uriToStatementIdAndDigest(stmtEntry.elementUri)
+    const tx = api.tx.statement.update(
+      stmtIdDigest.identifier,
+      stmtEntry.digest,
+      authorizationId
+    )
+
+    const extrinsic = await Did.authorizeTx(
+      creatorUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+
+    return extrinsic
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error returning extrinsic: "${error}".`
+    )
+  }
+}
+
 /**
  * Dispatches a statement update transaction to the CORD blockchain.
  *
@@ -315,6 +739,7 @@ export async function prepareExtrinsicToRegister(
  * @param authorAccount - The blockchain account used to sign and submit the transaction.
  * @param authorizationUri - The URI of the authorization used for the statement.
  * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.DispatchOptions`.
  * @returns The element URI of the updated statement.
  *
  * @throws {SDKErrors.CordDispatchError} - Thrown when there is an error during the dispatch process,
@@ -344,32 +769,26 @@ export async function dispatchUpdateToChain(
   creatorUri: DidUri,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<StatementUri> {
-  try {
-    const api = ConfigService.get('api')
-    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+  const exists = await isStatementStored(stmtEntry.digest, stmtEntry.spaceUri)
 
-    const exists = await isStatementStored(stmtEntry.digest, stmtEntry.spaceUri)
+  if (exists) {
+    return stmtEntry.elementUri
+  }
 
-    if (exists) {
-      return stmtEntry.elementUri
-    }
+  const extrinsic = await prepareExtrinsicToUpdate(
+    stmtEntry,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
 
-    const stmtIdDigest = uriToStatementIdAndDigest(stmtEntry.elementUri)
-    const tx = api.tx.statement.update(
-      stmtIdDigest.identifier,
-      stmtEntry.digest,
-      authorizationId
-    )
-
-    const extrinsic = await Did.authorizeTx(
-      creatorUri,
-      tx,
-      signCallback,
-      authorAccount.address
-    )
+  await Chain.assertCanPay(extrinsic, authorAccount.address, options)
 
+  try {
     await Chain.signAndSubmitTx(extrinsic, authorAccount)
 
     return stmtEntry.elementUri
@@ -380,6 +799,35 @@ export async function dispatchUpdateToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchUpdateToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param stmtEntry - The statement entry object.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateUpdateFee(
+  stmtEntry: IStatementEntry,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareExtrinsicToUpdate(
+    stmtEntry,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
 /**
  * This function dispatches a revocation transaction to a blockchain network after preparing
  * the necessary extrinsic data.
@@ -404,23 +852,27 @@ export async function dispatchUpdateToChain(
  * `dispatchRevokeToChain` function is a callback function that is used to sign the extrinsic before
  * submitting it to the chain. This callback function typically takes care of signing the transaction
  * using the private key of the account associated with the author of the statement.
+ * @param options - See `Chain.DispatchOptions`.
  */
 export async function dispatchRevokeToChain(
   statementUri: StatementUri,
   creatorUri: DidUri,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<void> {
-  try {
-    const tx = await prepareExtrinsicToRevoke(
-      statementUri,
-      creatorUri,
-      authorAccount,
-      authorizationUri,
-      signCallback
-    )
+  const tx = await prepareExtrinsicToRevoke(
+    statementUri,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(tx, authorAccount.address, options)
 
+  try {
     await Chain.signAndSubmitTx(tx, authorAccount)
   } catch (error) {
     throw new SDKErrors.CordDispatchError(
@@ -496,6 +948,78 @@ export async function prepareExtrinsicToRevoke(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchRevokeToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param statementUri - The URI of the statement.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateRevokeFee(
+  statementUri: StatementUri,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareExtrinsicToRevoke(
+    statementUri,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * This function prepares and returns a SubmittableExtrinsic for restoring a revoked statement on the blockchain.
+ *
+ * @param statementUri - The URI of the statement to be restored.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @returns A promise that resolves to the DID-authorized `SubmittableExtrinsic`.
+ *
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be constructed or authorized.
+ */
+export async function prepareExtrinsicToRestore(
+  statementUri: StatementUri,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+
+    const stmtIdDigest = uriToStatementIdAndDigest(statementUri)
+    const stmtId = stmtIdDigest.identifier
+
+    const tx = api.tx.statement.restore(stmtId, authorizationId)
+
+    const extrinsic = await Did.authorizeTx(
+      creatorUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+
+    return extrinsic
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error returning extrinsic: "${error}".`
+    )
+  }
+}
+
 /**
  * Dispatches a statement restoration transaction to the CORD blockchain.
  *
@@ -510,6 +1034,7 @@ export async function prepareExtrinsicToRevoke(
  * @param authorAccount - The blockchain account used to sign and submit the transaction.
  * @param authorizationUri - The URI of the authorization used for the statement.
  * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.DispatchOptions`.
  * @returns A promise that resolves once the transaction is successfully processed.
  *
  * @throws {SDKErrors.CordDispatchError} - Thrown when there is an error during the dispatch process,
@@ -537,16 +1062,235 @@ export async function dispatchRestoreToChain(
   creatorUri: DidUri,
   authorAccount: CordKeyringPair,
   authorizationUri: AuthorizationUri,
-  signCallback: SignExtrinsicCallback
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
 ): Promise<void> {
+  const tx = await prepareExtrinsicToRestore(
+    statementUri,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(tx, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(tx, authorAccount)
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+}
+
+/**
+ * Estimates the fee of [[dispatchRestoreToChain]], building the same DID-authorized extrinsic without submitting it.
+ *
+ * @param statementUri - The URI of the statement.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateRestoreFee(
+  statementUri: StatementUri,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareExtrinsicToRestore(
+    statementUri,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * This function prepares and returns a SubmittableExtrinsic for linking a presentation to a statement on
+ * the blockchain.
+ *
+ * @remarks
+ * The presentation digest and type are anchored against the statement identifier through the
+ * `addPresentation` extrinsic. The transaction is authorized by the creator's DID.
+ *
+ * @param presentationEntry - The presentation entry built with `buildFromPresentationProperties`.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @returns A promise that resolves to the DID-authorized `SubmittableExtrinsic`.
+ *
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be constructed or authorized.
+ */
+export async function prepareExtrinsicToAddPresentation(
+  presentationEntry: IStatementPresentationEntry,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
   try {
     const api = ConfigService.get('api')
     const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+    const { identifier } = uriToStatementIdAndDigest(
+      presentationEntry.elementUri
+    )
 
-    const stmtIdDigest = uriToStatementIdAndDigest(statementUri)
-    const stmtId = stmtIdDigest.identifier
+    const tx = api.tx.statement.addPresentation(
+      identifier,
+      presentationEntry.presentationDigest,
+      presentationEntry.presentationType,
+      authorizationId
+    )
 
-    const tx = api.tx.statement.restore(stmtId, authorizationId)
+    const extrinsic = await Did.authorizeTx(
+      creatorUri,
+      tx,
+      signCallback,
+      authorAccount.address
+    )
+
+    return extrinsic
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error returning extrinsic: "${error}".`
+    )
+  }
+}
+
+/**
+ * Dispatches a presentation linking transaction to the CORD blockchain.
+ *
+ * @remarks
+ * This function anchors the digest of a presentation (e.g. a PDF certificate rendered from the statement)
+ * against an existing statement. The transaction is authorized by the creator and signed by the provided
+ * author account.
+ *
+ * @param presentationEntry - The presentation entry built with `buildFromPresentationProperties`.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise that resolves to the element URI of the statement the presentation was linked to.
+ *
+ * @throws {SDKErrors.CordDispatchError} - Thrown when there is an error during the dispatch process.
+ *
+ * @example
+ * ```typescript
+ * const presentationEntry = Statement.buildFromPresentationProperties(
+ *   statementUri,
+ *   fileBuffer,
+ *   'application/pdf'
+ * );
+ * await dispatchAddPresentationToChain(
+ *   presentationEntry,
+ *   creatorUri,
+ *   authorAccount,
+ *   authorizationUri,
+ *   signCallback
+ * );
+ * ```
+ */
+export async function dispatchAddPresentationToChain(
+  presentationEntry: IStatementPresentationEntry,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<StatementUri> {
+  const tx = await prepareExtrinsicToAddPresentation(
+    presentationEntry,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(tx, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(tx, authorAccount)
+
+    return presentationEntry.elementUri
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error dispatching to chain: "${error}".`
+    )
+  }
+}
+
+/**
+ * Estimates the fee of [[dispatchAddPresentationToChain]], building the same DID-authorized extrinsic
+ * without submitting it.
+ *
+ * @param presentationEntry - The presentation entry built with `buildFromPresentationProperties`.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateAddPresentationFee(
+  presentationEntry: IStatementPresentationEntry,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareExtrinsicToAddPresentation(
+    presentationEntry,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
+/**
+ * This function prepares and returns a SubmittableExtrinsic for unlinking a presentation from a statement on
+ * the blockchain.
+ *
+ * @param statementUri - The element URI of the statement the presentation is linked to.
+ * @param presentationDigest - The digest of the presentation to be removed.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @returns A promise that resolves to the DID-authorized `SubmittableExtrinsic`.
+ *
+ * @throws {SDKErrors.CordDispatchError} - Thrown when the extrinsic cannot be constructed or authorized.
+ */
+export async function prepareExtrinsicToRemovePresentation(
+  statementUri: StatementUri,
+  presentationDigest: HexString,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback
+): Promise<SubmittableExtrinsic> {
+  try {
+    const api = ConfigService.get('api')
+    const authorizationId: AuthorizationId = uriToIdentifier(authorizationUri)
+    const { identifier } = uriToStatementIdAndDigest(statementUri)
+
+    const tx = api.tx.statement.removePresentation(
+      identifier,
+      presentationDigest,
+      authorizationId
+    )
 
     const extrinsic = await Did.authorizeTx(
       creatorUri,
@@ -555,7 +1299,62 @@ export async function dispatchRestoreToChain(
       authorAccount.address
     )
 
-    await Chain.signAndSubmitTx(extrinsic, authorAccount)
+    return extrinsic
+  } catch (error) {
+    throw new SDKErrors.CordDispatchError(
+      `Error returning extrinsic: "${error}".`
+    )
+  }
+}
+
+/**
+ * Dispatches a presentation removal transaction to the CORD blockchain.
+ *
+ * @param statementUri - The element URI of the statement the presentation is linked to.
+ * @param presentationDigest - The digest of the presentation to be removed.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account used to sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.DispatchOptions`.
+ * @returns A promise that resolves once the transaction is successfully processed.
+ *
+ * @throws {SDKErrors.CordDispatchError} - Thrown when there is an error during the dispatch process.
+ *
+ * @example
+ * ```typescript
+ * await dispatchRemovePresentationToChain(
+ *   statementUri,
+ *   presentationEntry.presentationDigest,
+ *   creatorUri,
+ *   authorAccount,
+ *   authorizationUri,
+ *   signCallback
+ * );
+ * ```
+ */
+export async function dispatchRemovePresentationToChain(
+  statementUri: StatementUri,
+  presentationDigest: HexString,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.DispatchOptions = {}
+): Promise<void> {
+  const tx = await prepareExtrinsicToRemovePresentation(
+    statementUri,
+    presentationDigest,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+
+  await Chain.assertCanPay(tx, authorAccount.address, options)
+
+  try {
+    await Chain.signAndSubmitTx(tx, authorAccount)
   } catch (error) {
     throw new SDKErrors.CordDispatchError(
       `Error dispatching to chain: "${error}".`
@@ -563,6 +1362,39 @@ export async function dispatchRestoreToChain(
   }
 }
 
+/**
+ * Estimates the fee of [[dispatchRemovePresentationToChain]], building the same DID-authorized extrinsic
+ * without submitting it.
+ *
+ * @param statementUri - The URI of the statement.
+ * @param presentationDigest - The digest of the presentation to be removed.
+ * @param creatorUri - The DID URI of the creator of the statement, used to authorize the transaction.
+ * @param authorAccount - The blockchain account that would sign and submit the transaction.
+ * @param authorizationUri - The URI of the authorization used for the statement.
+ * @param signCallback - A callback function that handles the signing of the transaction.
+ * @param options - See `Chain.TxFeeOptions`.
+ * @returns The fee breakdown, see `Chain.estimateTxFee`.
+ */
+export async function estimateRemovePresentationFee(
+  statementUri: StatementUri,
+  presentationDigest: HexString,
+  creatorUri: DidUri,
+  authorAccount: CordKeyringPair,
+  authorizationUri: AuthorizationUri,
+  signCallback: SignExtrinsicCallback,
+  options: Chain.TxFeeOptions = {}
+): Promise<Chain.TxFeeEstimate> {
+  const tx = await prepareExtrinsicToRemovePresentation(
+    statementUri,
+    presentationDigest,
+    creatorUri,
+    authorAccount,
+    authorizationUri,
+    signCallback
+  )
+  return Chain.estimateTxFee(tx, authorAccount.address, options)
+}
+
 /**
  * Decodes statement details from their blockchain-encoded format.
  *
@@ -739,3 +1571,79 @@ export async function fetchStatementDetailsfromChain(
 
   return statementStatus
 }
+
+/**
+ * Decodes presentation details from their blockchain-encoded format.
+ *
+ * @param encoded - The encoded presentation details, retrieved directly from the blockchain.
+ * @param identifier - The identifier of the statement the presentation is linked to.
+ * @param presentationDigest - The digest of the presentation, taken from the storage key.
+ * @returns An `IStatementPresentationDetails` object containing the decoded details of the presentation.
+ *
+ * @internal
+ */
+export function decodePresentationDetailsfromChain(
+  encoded: PalletStatementStatementPresentationDetails,
+  identifier: string,
+  presentationDigest: HexString
+): IStatementPresentationDetails {
+  const chainType = encoded.presentationType.type.toLowerCase()
+  const presentationType =
+    Object.values(PresentationTypeOf).find(
+      (type) => type.toLowerCase() === chainType
+    ) ?? PresentationTypeOf.other
+
+  return {
+    uri: identifierToUri(identifier) as StatementUri,
+    digest: encoded.digest.toHex(),
+    presentationDigest,
+    presentationType,
+    creatorUri: Did.fromChain(encoded.creator),
+    spaceUri: identifierToUri(
+      DecoderUtils.hexToString(encoded.space.toString())
+    ) as SpaceUri,
+  }
+}
+
+/**
+ * Fetches all presentations linked to a statement from the CORD blockchain.
+ *
+ * @remarks
+ * This function iterates the `presentations` storage of the statement pallet for the given statement
+ * identifier and decodes every entry found.
+ *
+ * @param stmtUri - The URI of the statement whose presentations are being fetched. Both the statement URI
+ *        and the element URI (including the digest) are accepted.
+ * @returns A promise that resolves to the list of presentations linked to the statement. The list is empty
+ *          if no presentation has been added.
+ *
+ * @example
+ * ```typescript
+ * const presentations = await fetchPresentationsFromChain('stmt:cord:example_uri');
+ * presentations.forEach((presentation) => {
+ *   console.log(presentation.presentationType, presentation.presentationDigest);
+ * });
+ * ```
+ */
+export async function fetchPresentationsFromChain(
+  stmtUri: StatementUri
+): Promise<IStatementPresentationDetails[]> {
+  const api = ConfigService.get('api')
+  const identifier = uriToIdentifier(
+    stmtUri.split(':').length === 4
+      ? elementUriToStatementUri(stmtUri)
+      : stmtUri
+  )
+
+  const entries = await api.query.statement.presentations.entries(identifier)
+
+  return entries
+    .filter(([, encoded]) => encoded.isSome)
+    .map(([key, encoded]) =>
+      decodePresentationDetailsfromChain(
+        encoded.unwrap(),
+        identifier,
+        key.args[1].toHex()
+      )
+    )
+}
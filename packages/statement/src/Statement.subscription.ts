@@ -0,0 +1,422 @@
+/**
+ * @packageDocumentation
+ * @module Statement/Subscription
+ *
+ * The `Statement/Subscription` submodule follows the lifecycle of statements as it is finalized on the CORD
+ * blockchain, instead of polling `isStatementStored` or `fetchStatementDetailsfromChain`. The `statement` pallet
+ * emits `Register`, `RegisterBatch`, `Update`, `Revoke`, `Restore`, `Remove` and `PartialRemoval` events; these are
+ * read from every finalized block and decoded into `IStatementEvent` objects, which carry the status of the statement
+ * as of that block together with the block hash and number.
+ *
+ * Key functionalities include:
+ * - `fetchStatementEventsAtBlock`: Decodes the statement events of a single block.
+ * - `subscribe`: Delivers the statement events of every finalized block, optionally filtered, to a handler.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = await subscribe(
+ *   { spaceUri: 'space:cord:example_uri' },
+ *   (event) => console.log(event.action, event.uri, event.blockNumber),
+ *   { fromBlock: lastSeenBlock, onError: (error) => console.error(error) }
+ * );
+ * // later
+ * unsubscribe();
+ * ```
+ */
+
+import type { EventRecord } from '@polkadot/types/interfaces'
+import type { AnyTuple, CallBase } from '@polkadot/types/types'
+
+import type {
+  AccountId32,
+  Bytes,
+  H256,
+  HexString,
+  IStatementEvent,
+  IStatementEventFilter,
+  IStatementStatus,
+  SpaceUri,
+} from '@cord.network/types'
+import { StatementEventTypeOf } from '@cord.network/types'
+import { ConfigService } from '@cord.network/config'
+import * as Did from '@cord.network/did'
+import {
+  identifierToUri,
+  updateStatementUri,
+  uriToStatementIdAndDigest,
+} from '@cord.network/identifier'
+import { DecoderUtils } from '@cord.network/utils'
+import {
+  decodeStatementDetailsfromChain,
+  getUriForStatement,
+} from './Statement.chain.js'
+
+const STATEMENT_EVENT_TYPES = Object.values(StatementEventTypeOf) as string[]
+
+/**
+ * Reads the status of a statement from the state of a block.
+ *
+ * @param blockHash - The hash of the block whose state is read.
+ * @param identifier - The identifier of the statement.
+ * @param digest - (Optional) The digest of the statement entry. Defaults to the latest digest of the statement.
+ * @returns The details, creator and revocation state of the entry, or `null` if the statement is not stored.
+ *
+ * @internal
+ */
+async function readStatementStatusAt(
+  blockHash: HexString,
+  identifier: string,
+  digest?: HexString
+): Promise<IStatementStatus | null> {
+  const api = ConfigService.get('api')
+  const apiAt = await api.at(blockHash)
+
+  const encodedDetails = await apiAt.query.statement.statements(identifier)
+  if (encodedDetails.isNone) {
+    return null
+  }
+  const details = decodeStatementDetailsfromChain(encodedDetails, identifier)
+  const entryDigest = digest ?? details.digest
+
+  const [entry, revocation] = await Promise.all([
+    apiAt.query.statement.entries(identifier, entryDigest),
+    apiAt.query.statement.revocationList(identifier, entryDigest),
+  ])
+  if (entry.isNone) {
+    return null
+  }
+
+  return {
+    uri: updateStatementUri(details.uri, entryDigest),
+    digest: entryDigest,
+    spaceUri: details.spaceUri,
+    creatorUri: Did.fromChain(entry.unwrap()),
+    schemaUri: details.schemaUri,
+    revoked: revocation.isSome ? revocation.unwrap().revoked.valueOf() : false,
+  }
+}
+
+/**
+ * The digests and authorization of a `registerBatch` call.
+ */
+interface RegisterBatchCall {
+  digests: HexString[]
+  authorization: Bytes
+}
+
+/**
+ * Collects the `registerBatch` calls of a call, looking into DID-authorized calls and `utility` batches.
+ *
+ * @param call - The call of an extrinsic.
+ * @returns The `registerBatch` calls, in the order they are dispatched.
+ *
+ * @internal
+ */
+function findRegisterBatchCalls(call: CallBase<AnyTuple>): RegisterBatchCall[] {
+  const api = ConfigService.get('api')
+  if (api.tx.statement.registerBatch.is(call)) {
+    const [digests, authorization] = call.args
+    return [{ digests: digests.map((digest) => digest.toHex()), authorization }]
+  }
+  if (api.tx.did.submitDidCall.is(call)) {
+    return findRegisterBatchCalls(call.args[0].call)
+  }
+  if (
+    api.tx.utility.batch.is(call) ||
+    api.tx.utility.batchAll.is(call) ||
+    api.tx.utility.forceBatch.is(call)
+  ) {
+    return call.args[0].flatMap(findRegisterBatchCalls)
+  }
+  return []
+}
+
+/**
+ * Pairs the `RegisterBatch` events of a block with the `registerBatch` calls that emitted them, as the events only
+ * report the indices of the rejected digests.
+ *
+ * @param blockHash - The hash of the block.
+ * @param records - The statement events of the block.
+ * @returns The call of every `RegisterBatch` event that could be paired with one.
+ *
+ * @internal
+ */
+async function getRegisterBatchCalls(
+  blockHash: HexString,
+  records: EventRecord[]
+): Promise<Map<EventRecord, RegisterBatchCall>> {
+  const api = ConfigService.get('api')
+  const calls = new Map<EventRecord, RegisterBatchCall>()
+  const eventsByExtrinsic = new Map<number, EventRecord[]>()
+  records.forEach((record) => {
+    if (
+      !record.phase.isApplyExtrinsic ||
+      !api.events.statement.RegisterBatch.is(record.event)
+    ) {
+      return
+    }
+    const index = record.phase.asApplyExtrinsic.toNumber()
+    eventsByExtrinsic.set(index, [
+      ...(eventsByExtrinsic.get(index) ?? []),
+      record,
+    ])
+  })
+  if (eventsByExtrinsic.size === 0) {
+    return calls
+  }
+
+  const { block } = await api.rpc.chain.getBlock(blockHash)
+  eventsByExtrinsic.forEach((events, index) => {
+    const batchCalls = findRegisterBatchCalls(block.extrinsics[index].method)
+    // a call failing within a `utility` batch emits no event, so the remaining ones cannot be paired by position
+    if (batchCalls.length !== events.length) {
+      return
+    }
+    events.forEach((record, position) =>
+      calls.set(record, batchCalls[position])
+    )
+  })
+  return calls
+}
+
+/**
+ * Fetches and decodes the statement events emitted in a block.
+ *
+ * @remarks
+ * The status of each statement is read from the state of the block the event was emitted in. For `Remove` and
+ * `PartialRemoval` events the statement is no longer (fully) stored at that block, so its status is read from the
+ * parent block instead. The `revoked` flag is `true` for a `Revoke` event and `false` for a `Restore` event, even if
+ * the statement was restored or revoked again later in the same block.
+ * A `RegisterBatch` event is decoded into a `Register` event for every digest of the `registerBatch` call that was
+ * not rejected, in the order of the digests. The digests are read from the call in the block, within DID-authorized
+ * calls and `utility` batches. If one of several `registerBatch` calls of an extrinsic failed, the events of that
+ * extrinsic cannot be told apart and are skipped.
+ * Events of statements whose details cannot be read are skipped.
+ *
+ * @param blockNumber - The number of the block.
+ * @returns A promise that resolves to the statement events of the block, in the order they were emitted.
+ *
+ * @example
+ * ```typescript
+ * const events = await fetchStatementEventsAtBlock(1024);
+ * events.forEach(({ action, uri }) => console.log(action, uri));
+ * ```
+ */
+export async function fetchStatementEventsAtBlock(
+  blockNumber: number
+): Promise<IStatementEvent[]> {
+  const api = ConfigService.get('api')
+  const blockHash = (await api.rpc.chain.getBlockHash(blockNumber)).toHex()
+  const apiAt = await api.at(blockHash)
+  const records = await apiAt.query.system.events()
+
+  const statementEvents = records.filter(
+    ({ event }) =>
+      event.section === 'statement' &&
+      (STATEMENT_EVENT_TYPES.includes(event.method) ||
+        api.events.statement.RegisterBatch.is(event))
+  )
+  if (statementEvents.length === 0) {
+    return []
+  }
+  const [{ parentHash }, registerBatchCalls] = await Promise.all([
+    api.rpc.chain.getHeader(blockHash),
+    getRegisterBatchCalls(blockHash, statementEvents),
+  ])
+
+  async function decodeRegisterBatch(
+    record: EventRecord
+  ): Promise<IStatementEvent[]> {
+    const batchCall = registerBatchCalls.get(record)
+    if (!batchCall || !api.events.statement.RegisterBatch.is(record.event)) {
+      return []
+    }
+    const { indices, author } = record.event.data
+    const authorization = await apiAt.query.chainSpace.authorizations(
+      batchCall.authorization
+    )
+    if (authorization.isNone) {
+      return []
+    }
+    const spaceUri = identifierToUri(
+      DecoderUtils.hexToString(authorization.unwrap().spaceId.toString())
+    ) as SpaceUri
+    const creatorUri = Did.fromChain(author)
+    const rejected = new Set(indices.map((index) => index.toNumber()))
+
+    const statuses = await Promise.all(
+      batchCall.digests
+        .filter((_, index) => !rejected.has(index))
+        .map((digest) =>
+          readStatementStatusAt(
+            blockHash,
+            uriToStatementIdAndDigest(
+              getUriForStatement(digest, spaceUri, creatorUri)
+            ).identifier,
+            digest
+          )
+        )
+    )
+    return statuses
+      .filter((status): status is IStatementStatus => status !== null)
+      .map((status) => ({
+        ...status,
+        action: StatementEventTypeOf.register,
+        authorUri: creatorUri,
+        blockHash,
+        blockNumber,
+      }))
+  }
+
+  const decoded = await Promise.all(
+    statementEvents.map(async (record): Promise<IStatementEvent[]> => {
+      const { event } = record
+      if (api.events.statement.RegisterBatch.is(event)) {
+        return decodeRegisterBatch(record)
+      }
+      const action = event.method as StatementEventTypeOf
+      const identifier = DecoderUtils.hexToString(event.data[0].toString())
+      const author = event.data[event.data.length - 1] as AccountId32
+      const digest =
+        action === StatementEventTypeOf.register ||
+        action === StatementEventTypeOf.update
+          ? (event.data[1] as H256).toHex()
+          : undefined
+      const removed =
+        action === StatementEventTypeOf.remove ||
+        action === StatementEventTypeOf.partialRemoval
+
+      const status = await readStatementStatusAt(
+        removed ? parentHash.toHex() : blockHash,
+        identifier,
+        digest
+      )
+      if (status === null) {
+        return []
+      }
+
+      const statementEvent: IStatementEvent = {
+        ...status,
+        action,
+        authorUri: Did.fromChain(author),
+        blockHash,
+        blockNumber,
+      }
+      if (action === StatementEventTypeOf.revoke) {
+        statementEvent.revoked = true
+      } else if (action === StatementEventTypeOf.restore) {
+        statementEvent.revoked = false
+      }
+      return [statementEvent]
+    })
+  )
+
+  return decoded.flat()
+}
+
+/**
+ * Checks whether a statement event matches a subscription filter.
+ *
+ * @param statementEvent - The decoded statement event.
+ * @param filter - The filter; properties that are not set match any value.
+ * @returns True if the event matches every property set in the filter.
+ *
+ * @internal
+ */
+function matchesFilter(
+  statementEvent: IStatementEvent,
+  { spaceUri, creatorUri, schemaUri }: IStatementEventFilter
+): boolean {
+  return (
+    (spaceUri === undefined || statementEvent.spaceUri === spaceUri) &&
+    (creatorUri === undefined || statementEvent.creatorUri === creatorUri) &&
+    (schemaUri === undefined || statementEvent.schemaUri === schemaUri)
+  )
+}
+
+/**
+ * Subscribes to the lifecycle events of statements in finalized blocks.
+ *
+ * @remarks
+ * Every finalized block is scanned for `statement` pallet events, which are decoded with
+ * `fetchStatementEventsAtBlock`, filtered, and passed to the handler one at a time, in block order. The next block
+ * is only scanned once the handler has settled for all events of the current one.
+ *
+ * The subscription keeps track of the next block to scan, so blocks finalized while the connection to the node was
+ * lost are caught up on as soon as the next finalized head arrives. To resume after the process itself stopped, store
+ * the `blockNumber` of the last handled event and pass it as `fromBlock`; blocks are scanned from there up to the
+ * finalized head before new blocks are followed. Events of that block which were already handled are delivered again.
+ *
+ * If fetching a block or the handler fails, `onError` is called and the block is scanned again on the next finalized
+ * head, so events may be delivered more than once.
+ *
+ * @param filter - Only events of statements matching all of the given space, creator and schema are delivered.
+ * @param handler - Called with each matching statement event.
+ * @param options - Subscription options.
+ * @param options.fromBlock - (Optional) The first block to scan. Defaults to the finalized head at the time of
+ *        subscribing.
+ * @param options.onError - Called when a block cannot be processed. The subscription goes on after it returns.
+ * @returns A promise that resolves to a function ending the subscription.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = await subscribe(
+ *   { creatorUri: 'did:cord:creator_uri' },
+ *   async ({ action, uri, revoked, blockNumber }) => {
+ *     await db.saveStatus(uri, { action, revoked });
+ *     await db.saveCheckpoint(blockNumber);
+ *   },
+ *   { fromBlock: await db.loadCheckpoint(), onError: (error) => logger.warn(error) }
+ * );
+ * ```
+ */
+export async function subscribe(
+  filter: IStatementEventFilter,
+  handler: (statementEvent: IStatementEvent) => void | Promise<void>,
+  {
+    fromBlock,
+    onError,
+  }: {
+    fromBlock?: number
+    onError: (error: unknown) => void
+  }
+): Promise<() => void> {
+  const api = ConfigService.get('api')
+  let nextBlock = fromBlock
+  let active = true
+  let processing = Promise.resolve()
+
+  async function processUntil(finalizedBlock: number): Promise<void> {
+    nextBlock = nextBlock ?? finalizedBlock
+    if (!active || nextBlock > finalizedBlock) {
+      return
+    }
+    const statementEvents = await fetchStatementEventsAtBlock(nextBlock)
+    await statementEvents
+      .filter((statementEvent) => matchesFilter(statementEvent, filter))
+      .reduce(
+        (previous, statementEvent) =>
+          previous.then(() => (active ? handler(statementEvent) : undefined)),
+        Promise.resolve()
+      )
+    if (!active) {
+      return
+    }
+    nextBlock += 1
+    await processUntil(finalizedBlock)
+  }
+
+  const unsubscribeHeads = await api.rpc.chain.subscribeFinalizedHeads(
+    (header) => {
+      const finalizedBlock = header.number.toNumber()
+      processing = processing
+        .then(() => processUntil(finalizedBlock))
+        .catch(onError)
+    }
+  )
+
+  return () => {
+    active = false
+    unsubscribeHeads()
+  }
+}
@@ -10,7 +10,10 @@
  * Key functionalities include:
  * - `buildFromProperties`: Creates a new statement entry on the blockchain with specified properties like digest, space URI, and creator URI. It's instrumental in generating a new blockchain record or claim.
  * - `buildFromUpdateProperties`: Updates an existing statement entry with new properties, ensuring that the statements remain up-to-date and relevant.
+ * - `buildFromPresentationProperties`: Links a presentation (e.g. a PDF or image rendering of the statement) to an existing statement entry.
  * - `verifyAgainstProperties`: Asynchronously verifies the properties of a statement against provided parameters, crucial for validating the integrity and authenticity of statement entries.
+ * - `exportVerificationBundle` / `verifyVerificationBundle`: Export the proven on-chain state of a statement and verify it offline (see `Statement/Bundle`).
+ * - `subscribe`: Follows the registration, update, revocation, restoration and removal of statements in finalized blocks (see `Statement/Subscription`).
  *
  * These features are vital in ensuring that statements on the CORD blockchain are created, updated, and verified efficiently, maintaining their relevance and reliability in various applications.
  *
@@ -29,6 +32,8 @@
 
 import type {
   IStatementEntry,
+  IStatementStatus,
+  IStatementPresentationEntry,
   HexString,
   SchemaUri,
   SpaceUri,
@@ -36,8 +41,13 @@ import type {
   StatementUri,
   PartialStatementEntry,
 } from '@cord.network/types'
-import { DataUtils, SDKErrors } from '@cord.network/utils'
-import { checkIdentifier, updateStatementUri } from '@cord.network/identifier'
+import { PresentationTypeOf } from '@cord.network/types'
+import { Crypto, DataUtils, SDKErrors } from '@cord.network/utils'
+import {
+  checkIdentifier,
+  updateStatementUri,
+  uriToStatementIdAndDigest,
+} from '@cord.network/identifier'
 import {
   getUriForStatement,
   fetchStatementDetailsfromChain,
@@ -193,6 +203,96 @@ export function buildFromUpdateProperties(
   return statement
 }
 
+const PRESENTATION_MIME_TYPES: Record<string, PresentationTypeOf> = {
+  'application/pdf': PresentationTypeOf.pdf,
+  'image/jpeg': PresentationTypeOf.jpeg,
+  'image/png': PresentationTypeOf.png,
+  'image/gif': PresentationTypeOf.gif,
+  'text/plain': PresentationTypeOf.txt,
+  'image/svg+xml': PresentationTypeOf.svg,
+  'application/json': PresentationTypeOf.json,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    PresentationTypeOf.docx,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet':
+    PresentationTypeOf.xlsx,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation':
+    PresentationTypeOf.pptx,
+  'audio/mpeg': PresentationTypeOf.mp3,
+  'video/mp4': PresentationTypeOf.mp4,
+  'application/xml': PresentationTypeOf.xml,
+  'text/xml': PresentationTypeOf.xml,
+}
+
+/**
+ * Maps a MIME type to the presentation type understood by the statement pallet.
+ *
+ * @remarks
+ * Parameters of the MIME type (e.g. `; charset=utf-8`) are ignored. MIME types without a
+ * matching chain representation are mapped to `PresentationTypeOf.other`.
+ *
+ * @param mimeType - The MIME type of the presentation file, e.g. `application/pdf`.
+ * @returns The corresponding `PresentationTypeOf` value.
+ *
+ * @example
+ * ```typescript
+ * const presentationType = presentationTypeFromMimeType('image/jpeg');
+ * console.log(presentationType); // 'JPEG'
+ * ```
+ */
+export function presentationTypeFromMimeType(
+  mimeType: string
+): PresentationTypeOf {
+  const [essence] = mimeType.toLowerCase().split(';')
+  return PRESENTATION_MIME_TYPES[essence.trim()] ?? PresentationTypeOf.other
+}
+
+/**
+ * Constructs an `IStatementPresentationEntry` object that links a presentation to an existing statement.
+ *
+ * @remarks
+ * A presentation is a rendered form of the statement, such as a PDF certificate or an image. Only its digest is
+ * anchored on chain. The function accepts either the raw file content, which is hashed with blake2b-256, or an
+ * already computed 256-bit digest.
+ *
+ * @param stmtUri - The element URI of the statement the presentation belongs to.
+ * @param presentation - The file content as a `Uint8Array`, or the hexadecimal digest of the file.
+ * @param mimeType - The MIME type of the presentation, mapped to the chain representation with `presentationTypeFromMimeType`.
+ * @returns A fully constructed `IStatementPresentationEntry` object.
+ *
+ * @example
+ * ```typescript
+ * const fileBuffer = fs.readFileSync('certificate.pdf');
+ * const presentationEntry = buildFromPresentationProperties(
+ *   'stmt:cord:example_uri:digest',
+ *   fileBuffer,
+ *   'application/pdf'
+ * );
+ * console.log('Presentation digest:', presentationEntry.presentationDigest);
+ * ```
+ *
+ * @throws {SDKErrors.InvalidIdentifierError} If `stmtUri` is not a valid statement element URI.
+ * @throws {Error} From `DataUtils.verifyIsHex` if the provided digest is not a valid 256-bit hexadecimal string.
+ */
+export function buildFromPresentationProperties(
+  stmtUri: StatementUri,
+  presentation: Uint8Array | HexString,
+  mimeType: string
+): IStatementPresentationEntry {
+  uriToStatementIdAndDigest(stmtUri)
+
+  const presentationDigest =
+    typeof presentation === 'string'
+      ? presentation
+      : Crypto.hashStr(presentation)
+  DataUtils.verifyIsHex(presentationDigest, 256)
+
+  return {
+    elementUri: stmtUri,
+    presentationDigest,
+    presentationType: presentationTypeFromMimeType(mimeType),
+  }
+}
+
 /**
  * Custom Type Guard to determine input being of type IStatement using the StatementUtils errorCheck.
  *
@@ -208,6 +308,86 @@ export function isIStatement(input: unknown): input is IStatementEntry {
   return true
 }
 
+/**
+ * Compares the status of a statement with the expected properties.
+ *
+ * @remarks
+ * This is the comparison shared by `verifyAgainstProperties`, which reads the status from the chain, and
+ * `verifyVerificationBundle`, which reads it from a verification bundle.
+ *
+ * @param statementStatus - The status of the statement, or `null` if it was not found.
+ * @param stmtUri - The URI of the statement.
+ * @param digest - The expected digest of the statement.
+ * @param creator - (Optional) The expected DID URI of the statement's creator.
+ * @param spaceuri - (Optional) The expected URI of the ChainSpace of the statement.
+ * @param schemaUri - (Optional) The expected URI of the schema of the statement.
+ * @returns An object with `isValid` flag and `message`, as returned by `verifyAgainstProperties`.
+ *
+ * @internal
+ */
+export function checkStatementStatus(
+  statementStatus: IStatementStatus | null,
+  stmtUri: StatementUri,
+  digest: HexString,
+  creator?: DidUri,
+  spaceuri?: SpaceUri,
+  schemaUri?: SchemaUri
+): { isValid: boolean; message: string } {
+  if (!statementStatus) {
+    return {
+      isValid: false,
+      message: `Statement details for "${digest}" not found.`,
+    }
+  }
+
+  if (digest !== statementStatus.digest) {
+    return {
+      isValid: false,
+      message: 'Digest does not match with Statement Digest.',
+    }
+  }
+
+  if (statementStatus?.revoked) {
+    return {
+      isValid: false,
+      message: `Statement "${stmtUri}" Revoked.`,
+    }
+  }
+
+  if (creator) {
+    if (creator !== statementStatus.creatorUri) {
+      return {
+        isValid: false,
+        message: 'Statement and Digest creator does not match.',
+      }
+    }
+  }
+
+  if (spaceuri) {
+    if (spaceuri !== statementStatus.spaceUri) {
+      return {
+        isValid: false,
+        message: 'Statement and Digest space details does not match.',
+      }
+    }
+  }
+
+  if (schemaUri) {
+    if (schemaUri !== statementStatus.schemaUri) {
+      return {
+        isValid: false,
+        message: 'Statement and Digest schema details does not match.',
+      }
+    }
+  }
+
+  return {
+    isValid: true,
+    message:
+      'Digest properties provided are valid and matches the statement details.',
+  }
+}
+
 /**
  * Verifies a statement's properties against provided parameters.
  *
@@ -252,59 +432,14 @@ export async function verifyAgainstProperties(
   try {
     const statementStatus = await fetchStatementDetailsfromChain(stmtUri)
 
-    if (!statementStatus) {
-      return {
-        isValid: false,
-        message: `Statement details for "${digest}" not found.`,
-      }
-    }
-
-    if (digest !== statementStatus.digest) {
-      return {
-        isValid: false,
-        message: 'Digest does not match with Statement Digest.',
-      }
-    }
-
-    if (statementStatus?.revoked) {
-      return {
-        isValid: false,
-        message: `Statement "${stmtUri}" Revoked.`,
-      }
-    }
-
-    if (creator) {
-      if (creator !== statementStatus.creatorUri) {
-        return {
-          isValid: false,
-          message: 'Statement and Digest creator does not match.',
-        }
-      }
-    }
-
-    if (spaceuri) {
-      if (spaceuri !== statementStatus.spaceUri) {
-        return {
-          isValid: false,
-          message: 'Statement and Digest space details does not match.',
-        }
-      }
-    }
-
-    if (schemaUri) {
-      if (schemaUri !== statementStatus.schemaUri) {
-        return {
-          isValid: false,
-          message: 'Statement and Digest schema details does not match.',
-        }
-      }
-    }
-
-    return {
-      isValid: true,
-      message:
-        'Digest properties provided are valid and matches the statement details.',
-    }
+    return checkStatementStatus(
+      statementStatus,
+      stmtUri,
+      digest,
+      creator,
+      spaceuri,
+      schemaUri
+    )
   } catch (error) {
     if (error instanceof Error) {
       return {
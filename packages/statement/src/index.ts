@@ -1,2 +1,4 @@
 export * from './Statement.js'
 export * from './Statement.chain.js'
+export * from './Statement.bundle.js'
+export * from './Statement.subscription.js'
@@ -53,4 +53,6 @@ export interface ISpaceAuthorizationDetails {
   uri: SpaceUri
   delegateUri: DidUri
   permission: PermissionType[]
+  authorizationUri: AuthorizationUri
+  delegatorUri: DidUri
 }
@@ -139,3 +139,34 @@ export interface DecryptResponseData {
 export interface DecryptCallback {
   (requestData: DecryptRequestData): Promise<DecryptResponseData>
 }
+
+export interface KeyAgreementRequestData {
+  /**
+   * The other party's public key to be used for x25519 Diffie-Hellman key agreement.
+   */
+  peerPublicKey: Uint8Array
+  /**
+   * The did key uri of the own `keyAgreement` key to be used.
+   */
+  keyUri: DidResourceUri
+}
+
+export interface KeyAgreementResponseData {
+  /**
+   * The raw x25519 shared secret.
+   */
+  sharedSecret: Uint8Array
+}
+
+/**
+ * Uses stored key material to compute an x25519 shared secret with another party.
+ *
+ * Unlike [[EncryptCallback]] and [[DecryptCallback]], which encrypt with a fixed algorithm, this exposes the shared
+ * secret itself, as needed by key wrapping algorithms like the ECDH-ES and ECDH-1PU of DIDComm v2 envelopes.
+ *
+ * @param requestData [[KeyAgreementRequestData]] containing the own key uri and the public key of the other party.
+ * @returns A Promise resolving to [[KeyAgreementResponseData]] containing the shared secret or rejecting if the key is unknown.
+ */
+export interface KeyAgreementCallback {
+  (requestData: KeyAgreementRequestData): Promise<KeyAgreementResponseData>
+}
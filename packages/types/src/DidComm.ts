@@ -0,0 +1,91 @@
+/**
+ * @packageDocumentation
+ * @module IDidComm
+ */
+import type { DidResourceUri } from './DidDocument.js'
+
+export interface DidCommAttachment {
+  id?: string
+  description?: string
+  filename?: string
+  media_type?: string
+  format?: string
+  data: {
+    base64?: string
+    json?: unknown
+    links?: string[]
+    hash?: string
+  }
+}
+
+/**
+ * The DID of a DIDComm peer, which does not need to be a CORD DID.
+ */
+export type DidCommPeerUri = `did:${string}`
+
+/**
+ * A plaintext DIDComm v2 message (https://identity.foundation/didcomm-messaging/spec/v2.0/#plaintext-message-structure).
+ */
+export interface DidCommMessage {
+  typ?: string
+  id: string
+  /**
+   * The URI of the protocol message type.
+   */
+  type: string
+  from?: DidCommPeerUri
+  to?: DidCommPeerUri[]
+  /**
+   * The id of the thread the message belongs to.
+   */
+  thid?: string
+  /**
+   * The id of the parent thread.
+   */
+  pthid?: string
+  /**
+   * The creation time, in seconds since the epoch.
+   */
+  created_time?: number
+  /**
+   * The expiration time, in seconds since the epoch.
+   */
+  expires_time?: number
+  body: Record<string, unknown>
+  attachments?: DidCommAttachment[]
+}
+
+export interface DidCommRecipient {
+  header: { kid: DidResourceUri }
+  encrypted_key: string
+}
+
+/**
+ * An encrypted DIDComm v2 message, a JWE in general JSON serialization.
+ */
+export interface DidCommEncryptedMessage {
+  protected: string
+  recipients: DidCommRecipient[]
+  iv: string
+  ciphertext: string
+  tag: string
+}
+
+export interface DidCommUnpackMetadata {
+  /**
+   * Whether the sender is authenticated, i.e., the message was authcrypted.
+   */
+  authenticated: boolean
+  /**
+   * The `keyAgreement` key of the sender, if the message was authcrypted.
+   */
+  senderKeyUri?: DidResourceUri
+  /**
+   * The `keyAgreement` key of the receiver the message was decrypted with.
+   */
+  recipientKeyUri: DidResourceUri
+  /**
+   * All keys the message was encrypted for.
+   */
+  encryptedTo: DidResourceUri[]
+}
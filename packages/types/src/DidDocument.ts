@@ -151,6 +151,29 @@ export interface DidDocument {
   service?: DidServiceEndpoint[]
 }
 
+/**
+ * A change to the keys or service endpoints of a DID stored on chain.
+ */
+export type DidUpdate =
+  | { action: 'setAuthenticationKey'; key: NewDidVerificationKey }
+  | { action: 'setAssertionKey'; key: NewDidVerificationKey }
+  | { action: 'removeAssertionKey' }
+  | { action: 'setDelegationKey'; key: NewDidVerificationKey }
+  | { action: 'removeDelegationKey' }
+  | { action: 'addKeyAgreementKey'; key: NewDidEncryptionKey }
+  | { action: 'removeKeyAgreementKey'; id: UriFragment }
+  | { action: 'addService'; service: DidServiceEndpoint }
+  | { action: 'removeService'; id: UriFragment }
+
+/**
+ * The registration of a DID name, as stored by the `didName` pallet.
+ */
+export interface DidNameOwnership {
+  name: string
+  owner: DidUri
+  registeredAt: number
+}
+
 export interface DidKeyRecord {
   [key: string]: DidKey
 }
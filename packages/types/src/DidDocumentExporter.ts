@@ -12,6 +12,23 @@ export type ConformingDidDocumentKeyType =
   | 'Sr25519VerificationKey2020'
   | 'EcdsaSecp256k1VerificationKey2019'
   | 'X25519KeyAgreementKey2019'
+  | 'JsonWebKey2020'
+  | 'Multikey'
+
+/**
+ * The encoding of the public keys in an exported DID Document.
+ * - `base58`: `publicKeyBase58` with a key type specific to the algorithm.
+ * - `multibase`: `publicKeyMultibase` with the `Multikey` type.
+ * - `jwk`: `publicKeyJwk` with the `JsonWebKey2020` type.
+ */
+export type DidKeyFormat = 'base58' | 'multibase' | 'jwk'
+
+/**
+ * A public key in JSON Web Key format (RFC 7517), for OKP (RFC 8037) and secp256k1 (RFC 8812) keys.
+ */
+export type DidPublicKeyJwk =
+  | { kty: 'OKP'; crv: 'Ed25519' | 'X25519'; x: string }
+  | { kty: 'EC'; crv: 'secp256k1'; x: string; y: string }
 
 export const verificationKeyTypesMap: Record<
   VerificationKeyType,
@@ -44,9 +61,18 @@ export type ConformingDidKey = {
    */
   controller: DidUri
   /**
-   * The base58-encoded public component of the key.
+   * The base58-encoded public component of the key, for the `base58` key format.
+   */
+  publicKeyBase58?: string
+  /**
+   * The multibase-encoded public component of the key, prefixed with its multicodec type, for the `multibase` key
+   * format.
+   */
+  publicKeyMultibase?: string
+  /**
+   * The public component of the key as JSON Web Key, for the `jwk` key format.
    */
-  publicKeyBase58: string
+  publicKeyJwk?: DidPublicKeyJwk
   /**
    * The key type signalling the intended signing/encryption algorithm for the use of this key.
    */
@@ -71,7 +97,7 @@ export type ConformingDidDocument = {
   verificationMethod: ConformingDidKey[]
   authentication: [ConformingDidKey['id']]
   assertionMethod?: [ConformingDidKey['id']]
-  keyAgreement?: [ConformingDidKey['id']]
+  keyAgreement?: Array<ConformingDidKey['id']>
   capabilityDelegation?: [ConformingDidKey['id']]
   service?: ConformingDidServiceEndpoint[]
   alsoKnownAs?: string
@@ -86,8 +112,14 @@ export type JsonLDDidDocument = ConformingDidDocument & { '@context': string[] }
  * DID Resolution Metadata returned by the DID `resolve` function as described by DID specifications (https://www.w3.org/TR/did-core/#did-resolution-metadata).
  */
 export interface DidResolutionMetadata {
-  error?: 'notFound' | 'invalidDid'
+  error?:
+    | 'notFound'
+    | 'invalidDid'
+    | 'invalidDidUrl'
+    | 'representationNotSupported'
+    | 'internalError'
   errorMessage?: string
+  contentType?: string
 }
 
 /**
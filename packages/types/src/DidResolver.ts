@@ -69,3 +69,43 @@ export type DidResolveKey = (
   didUri: DidResourceUri,
   expectedVerificationMethod?: KeyRelationship
 ) => Promise<ResolvedDidKey>
+
+/**
+ * Resolves a DID URI identifying a service endpoint of a DID.
+ *
+ * @param serviceUri A DID URI identifying a service endpoint through the DID document.
+ * @returns A promise of a [[ResolvedDidServiceEndpoint]] object representing the service endpoint.
+ */
+export type DidResolveService = (
+  serviceUri: DidResourceUri
+) => Promise<ResolvedDidServiceEndpoint>
+
+/**
+ * A DID resolution result stored by a caching DID resolver.
+ */
+export type DidResolutionCacheEntry = {
+  /**
+   * The resolution result; `null` if the DID could not be resolved.
+   */
+  result: DidResolutionResult | null
+  /**
+   * The time in milliseconds since the epoch after which the entry is stale.
+   */
+  expiresAt: number
+}
+
+/**
+ * The storage backend of a caching DID resolver. Its functions may return promises, so that external stores can be
+ * plugged in.
+ */
+export interface DidResolutionCache {
+  get: (
+    did: DidUri
+  ) =>
+    | Promise<DidResolutionCacheEntry | undefined>
+    | DidResolutionCacheEntry
+    | undefined
+  set: (did: DidUri, entry: DidResolutionCacheEntry) => Promise<void> | void
+  delete: (did: DidUri) => Promise<void> | void
+  clear: () => Promise<void> | void
+}
@@ -0,0 +1,43 @@
+/**
+ * @packageDocumentation
+ * @module IDocument
+ */
+import type { SignCallback } from './CryptoCallbacks.js'
+import type { DidSignature, DidUri } from './DidDocument.js'
+import type { HexString } from './Imported.js'
+import type { SchemaUri } from './Schema.js'
+import type { SpaceUri } from './ChainSpace.js'
+import type { StatementUri } from './Statement.js'
+
+export type IContents = Record<string, any>
+
+export interface IContent {
+  schemaUri: SchemaUri
+  contents: IContents
+  holderUri: DidUri
+  issuerUri: DidUri
+}
+
+export type ContentNonceMap = Record<HexString, string>
+
+export interface IDocument {
+  elementUri: StatementUri
+  content: IContent
+  spaceUri: SpaceUri
+  contentHashes: HexString[]
+  contentNonceMap: ContentNonceMap
+  digest: HexString
+  createdAt: string
+  issuerSignature: DidSignature
+}
+
+export interface IDocumentPresentation extends IDocument {
+  holderSignature: DidSignature & { challenge?: string }
+}
+
+export interface PresentationOptions {
+  document: IDocument
+  signCallback: SignCallback
+  selectedAttributes?: string[]
+  challenge?: string
+}
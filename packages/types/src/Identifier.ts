@@ -0,0 +1,47 @@
+/**
+ * @packageDocumentation
+ * @module IIdentifier
+ */
+
+export enum IdentifierTypeOf {
+  asset = 'Asset',
+  auth = 'Auth',
+  chainSpace = 'ChainSpace',
+  did = 'Did',
+  rating = 'Rating',
+  statement = 'Statement',
+  schema = 'Schema',
+}
+
+export enum IdentifierActionOf {
+  archive = 'Archive',
+  authorization = 'Authorization',
+  capacity = 'Capacity',
+  councilRevoke = 'CouncilRevoke',
+  councilRestore = 'CouncilRestore',
+  deauthorization = 'Deauthorization',
+  approved = 'Approved',
+  genesis = 'Genesis',
+  update = 'Update',
+  revoke = 'Revoke',
+  restore = 'Restore',
+  remove = 'Remove',
+  partialRemove = 'PartialRemove',
+  presentationAdded = 'PresentationAdded',
+  presentationRemoved = 'PresentationRemoved',
+  rotate = 'Rotate',
+  usage = 'Usage',
+  transfer = 'Transfer',
+  debit = 'Debit',
+  credit = 'Credit',
+  issue = 'Issue',
+}
+
+export interface IIdentifierEvent {
+  uri: string
+  identifierType: IdentifierTypeOf
+  action: IdentifierActionOf
+  blockNumber: number
+  extrinsicIndex: number
+  timestamp?: number
+}
@@ -1,4 +1,5 @@
 import type { CordKeyringPair, CordEncryptionKeypair } from './Address'
+import type { VerificationKeyType } from './DidDocument'
 
 export interface ICordKeyPair {
   authentication: CordKeyringPair
@@ -7,3 +8,26 @@ export interface ICordKeyPair {
   capabilityDelegation: CordKeyringPair
 }
 
+/**
+ * How a DID key is derived from a mnemonic.
+ */
+export interface DidKeyDerivation {
+  /**
+   * The key type. For the key agreement key, the type of the key the x25519 key is derived from.
+   */
+  type: VerificationKeyType
+  /**
+   * The derivation path, for example `//did//authentication//0`.
+   */
+  path: string
+}
+
+/**
+ * How each key of a DID is derived from a mnemonic.
+ */
+export interface DidKeyLayout {
+  authentication: DidKeyDerivation
+  assertionMethod: DidKeyDerivation
+  capabilityDelegation: DidKeyDerivation
+  keyAgreement: DidKeyDerivation
+}
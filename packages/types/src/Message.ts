@@ -0,0 +1,134 @@
+/**
+ * @packageDocumentation
+ * @module IMessage
+ */
+import type { DidResourceUri, DidUri } from './DidDocument.js'
+import type { IDocumentPresentation } from './Document.js'
+import type { HexString } from './Imported.js'
+import type { SchemaId } from './Schema.js'
+import type { RatingTypeOf } from './Score.js'
+
+export type MessageBodyType =
+  | 'error'
+  | 'request-credential-document'
+  | 'submit-credential-document'
+  | 'request-rating'
+
+interface IMessageBodyBase<Type extends MessageBodyType, Content> {
+  type: Type
+  content: Content
+}
+
+export interface IErrorContent {
+  /**
+   * The name of the error, for example the name of the SDK error raised while processing a message.
+   */
+  name?: string
+  /**
+   * A human readable description of the error.
+   */
+  message?: string
+}
+
+export type IError = IMessageBodyBase<'error', IErrorContent>
+
+export interface IRequestCredentialContent {
+  schemas: Array<{
+    schemaId: SchemaId
+    trustedIssuers?: DidUri[]
+    requiredProperties?: string[]
+  }>
+  /**
+   * The challenge the holder has to sign in the presentations submitted in response.
+   */
+  challenge?: string
+}
+
+export type IRequestCredential = IMessageBodyBase<
+  'request-credential-document',
+  IRequestCredentialContent
+>
+
+export type ISubmitCredentialDocument = IMessageBodyBase<
+  'submit-credential-document',
+  IDocumentPresentation[]
+>
+
+export interface IRequestRatingContent {
+  entityId: string
+  ratingType: RatingTypeOf
+  /**
+   * The identifier of the transaction the rating is requested for.
+   */
+  referenceId?: string
+}
+
+export type IRequestRating = IMessageBodyBase<
+  'request-rating',
+  IRequestRatingContent
+>
+
+export type MessageBody =
+  | IError
+  | IRequestCredential
+  | ISubmitCredentialDocument
+  | IRequestRating
+
+/**
+ * A message exchanged between two DIDs.
+ */
+export interface IMessage {
+  body: MessageBody
+  /**
+   * A unique identifier of the message.
+   */
+  messageId: string
+  /**
+   * The time the message was created, in milliseconds since the epoch.
+   */
+  createdAt: number
+  sender: DidUri
+  receiver: DidUri
+  /**
+   * A random value identifying the message for replay protection.
+   */
+  nonce: HexString
+  /**
+   * The `messageId` of the message this message responds to.
+   */
+  inReplyTo?: IMessage['messageId']
+}
+
+/**
+ * A message encrypted for the `keyAgreement` key of its receiver.
+ */
+export interface IEncryptedMessage {
+  /**
+   * The `keyAgreement` key of the receiver the message is encrypted for.
+   */
+  receiverKeyUri: DidResourceUri
+  /**
+   * The `keyAgreement` key of the sender used for the encryption.
+   */
+  senderKeyUri: DidResourceUri
+  ciphertext: HexString
+  /**
+   * The random nonce generated during encryption.
+   */
+  nonce: HexString
+}
+
+/**
+ * Keeps track of the nonces of received messages, to reject messages that are received again.
+ */
+export interface MessageNonceStore {
+  /**
+   * Checks whether a message with the nonce was received before.
+   */
+  has: (nonce: HexString) => Promise<boolean> | boolean
+  /**
+   * Stores the nonce of a received message; it can be forgotten once `expiresAt`, in milliseconds since the epoch,
+   * has passed, as older messages are rejected anyway.
+   */
+  add: (nonce: HexString, expiresAt: number) => Promise<void> | void
+}
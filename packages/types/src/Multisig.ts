@@ -0,0 +1,46 @@
+import type { BN } from '@polkadot/util'
+import type { HexString } from './Imported.js'
+import type { CordAddress } from './Address.js'
+
+/**
+ * An account controlled by a threshold of signatories through the `multisig` pallet.
+ */
+export interface MultisigAccount {
+  /**
+   * The address derived from the signatories and the threshold.
+   */
+  address: CordAddress
+  /**
+   * The signatories, sorted as required by the `multisig` pallet.
+   */
+  signatories: CordAddress[]
+  /**
+   * The number of signatories that have to approve a call.
+   */
+  threshold: number
+}
+
+/**
+ * The block height and extrinsic index at which a multisig operation was opened.
+ */
+export interface MultisigTimepoint {
+  height: number
+  index: number
+}
+
+/**
+ * An open multisig operation, waiting for more approvals.
+ */
+export interface PendingMultisig {
+  callHash: HexString
+  /**
+   * The timepoint to pass with every further approval or cancellation.
+   */
+  when: MultisigTimepoint
+  /**
+   * The amount reserved from the depositor while the operation is open.
+   */
+  deposit: BN
+  depositor: CordAddress
+  approvals: CordAddress[]
+}
@@ -0,0 +1,76 @@
+import type { SignerPayloadJSON } from '@polkadot/types/types'
+import type { HexString } from './Imported.js'
+import type {
+  DidUri,
+  VerificationKeyRelationship,
+  VerificationKeyType,
+} from './DidDocument.js'
+
+/**
+ * The DID authorization of a call, to be signed with a DID key on an offline machine.
+ */
+export interface OfflineDidAuthorization {
+  did: DidUri
+  keyRelationship: VerificationKeyRelationship
+  /**
+   * The DID transaction counter the call is authorized with, as a decimal string.
+   */
+  txCounter: string
+  /**
+   * The block number the authorization refers to.
+   */
+  blockNumber: number
+  /**
+   * The SCALE-encoded `DidAuthorizedCallOperation`, the data signed with the DID key.
+   */
+  operation: HexString
+  /**
+   * The call index of `did.submitDidCall` followed by the operation: the encoded call up to the signature.
+   */
+  callPrefix: HexString
+  /**
+   * The index of every key type in the DID signature enum of the runtime.
+   */
+  signatureIndexes: Partial<Record<VerificationKeyType, number>>
+}
+
+/**
+ * Everything needed to sign a transaction without access to the chain.
+ */
+export interface OfflineTxPayload {
+  /**
+   * The signer payload, as also handed to browser extensions. For a DID-authorized call, `method` is the call
+   * wrapped with a placeholder signature, replaced by the actual call once the DID key has signed.
+   */
+  payload: SignerPayloadJSON
+  /**
+   * The encoded signed extensions that follow the call in the data signed by the account.
+   */
+  extra: HexString
+  /**
+   * The blake2 hash of the runtime metadata the payload was built with.
+   */
+  metadataHash: HexString
+  /**
+   * The last block in which the transaction can be included.
+   */
+  validUntil: number
+  /**
+   * Present if the call has to be DID-authorized before the account signs the transaction.
+   */
+  didAuthorization?: OfflineDidAuthorization
+}
+
+/**
+ * The outcome of signing an [[OfflineTxPayload]], to be taken back to an online machine.
+ */
+export interface OfflineTxSignature {
+  /**
+   * The encoded call that was signed, including the DID signature if any.
+   */
+  method: HexString
+  /**
+   * The account signature, prefixed with the signature type.
+   */
+  signature: HexString
+}
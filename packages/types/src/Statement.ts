@@ -3,7 +3,7 @@
  * @module IStatement
  */
 import type { SchemaUri } from './Schema.js'
-import { DidUri } from './DidDocument.js'
+import { DidSignature, DidUri } from './DidDocument.js'
 import { HexString } from './Imported.js'
 import { SpaceUri } from './ChainSpace.js'
 
@@ -38,3 +38,74 @@ export interface IStatementStatus {
   schemaUri?: string | undefined
   revoked: boolean
 }
+
+export interface IStatementBatchResult {
+  digest: StatementDigest
+  elementUri?: StatementUri
+  error?: string
+}
+
+export enum PresentationTypeOf {
+  other = 'Other',
+  pdf = 'PDF',
+  jpeg = 'JPEG',
+  png = 'PNG',
+  gif = 'GIF',
+  txt = 'TXT',
+  svg = 'SVG',
+  json = 'JSON',
+  docx = 'DOCX',
+  xlsx = 'XLSX',
+  pptx = 'PPTX',
+  mp3 = 'MP3',
+  mp4 = 'MP4',
+  xml = 'XML',
+}
+
+export interface IStatementPresentationEntry {
+  elementUri: StatementUri
+  presentationDigest: HexString
+  presentationType: PresentationTypeOf
+}
+
+export interface IStatementPresentationDetails {
+  uri: StatementUri
+  digest: StatementDigest
+  presentationDigest: HexString
+  presentationType: PresentationTypeOf
+  creatorUri: DidUri
+  spaceUri: SpaceUri
+}
+
+export interface IStatementVerificationBundle {
+  uri: StatementUri
+  blockHash: HexString
+  blockNumber: number
+  statement: HexString | null
+  entry: HexString | null
+  revocation: HexString | null
+  proof: HexString[]
+  signature: DidSignature
+}
+
+export enum StatementEventTypeOf {
+  register = 'Register',
+  update = 'Update',
+  revoke = 'Revoke',
+  restore = 'Restore',
+  remove = 'Remove',
+  partialRemoval = 'PartialRemoval',
+}
+
+export interface IStatementEvent extends IStatementStatus {
+  action: StatementEventTypeOf
+  authorUri: DidUri
+  blockHash: HexString
+  blockNumber: number
+}
+
+export interface IStatementEventFilter {
+  spaceUri?: SpaceUri
+  creatorUri?: DidUri
+  schemaUri?: SchemaUri
+}
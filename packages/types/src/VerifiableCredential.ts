@@ -0,0 +1,65 @@
+import type { ContentNonceMap, IContents } from './Document.js'
+import type { DidResourceUri, DidUri } from './DidDocument.js'
+import type { HexString } from './Imported.js'
+import type { SchemaUri } from './Schema.js'
+import type { SpaceUri } from './ChainSpace.js'
+import type { StatementUri } from './Statement.js'
+
+export const CORD_CREDENTIAL_TYPE = 'CordCredential'
+export const CORD_STATUS_TYPE = 'CordStatementStatus'
+export const CORD_PROOF_TYPE = 'CordStatementProof'
+
+/**
+ * Points at the statement a credential is anchored as, whose revocation state is the status of the credential.
+ */
+export type CordCredentialStatus = {
+  /**
+   * The URI of the statement, in the form of stmt:cord:<identifier>:<digest>.
+   */
+  id: StatementUri
+  type: typeof CORD_STATUS_TYPE
+  /**
+   * The URI of the chain space the statement is registered in.
+   */
+  spaceUri: SpaceUri
+}
+
+/**
+ * The issuer proof of a credential: the issuer signature over the root digest, together with the salted claim
+ * hashes and the nonces of the disclosed claims needed to recompute it.
+ */
+export type CordCredentialProof = {
+  type: typeof CORD_PROOF_TYPE
+  created: string
+  proofPurpose: 'assertionMethod'
+  /**
+   * The full URI of the issuer key used for signing, in the form of <did>#<key_id>.
+   */
+  verificationMethod: DidResourceUri
+  /**
+   * The multibase (base58btc) encoded signature.
+   */
+  proofValue: string
+  digest: HexString
+  contentHashes: HexString[]
+  contentNonceMap: ContentNonceMap
+}
+
+/**
+ * A CORD document represented as a Verifiable Credential according to the
+ * [W3C Verifiable Credentials Data Model 2.0](https://www.w3.org/TR/vc-data-model-2.0/).
+ */
+export type CordVerifiableCredential = {
+  '@context': string[]
+  id: StatementUri
+  type: ['VerifiableCredential', typeof CORD_CREDENTIAL_TYPE]
+  issuer: DidUri
+  validFrom: string
+  credentialSubject: IContents & { id: DidUri }
+  credentialSchema: {
+    id: SchemaUri
+    type: 'JsonSchema'
+  }
+  credentialStatus: CordCredentialStatus
+  proof: CordCredentialProof
+}
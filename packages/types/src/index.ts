@@ -7,17 +7,24 @@ export * as SubscriptionPromise from './SubscriptionPromise.js'
 export * from './Address.js'
 export * from './Balance.js'
 export * from './CryptoCallbacks.js'
+export * from './DidComm.js'
 export * from './DidDocument.js'
 export * from './DidResolver.js'
+export * from './Document.js'
 export * from './DidDocumentExporter.js'
+export * from './Identifier.js'
 export * from './Identity.js'
 export * from './meta.js'
+export * from './Message.js'
+export * from './Multisig.js'
+export * from './OfflineTx.js'
 export * from './PublicIdentity.js'
 export * from './Schema.js'
 export * from './SchemaMetadata.js'
 export * from './Score.js'
 export * from './ChainSpace.js'
 export * from './Statement.js'
+export * from './VerifiableCredential.js'
 export * from './Weight.js'
 export * from './Imported.js'
 export * from './Keys.js'
@@ -28,6 +28,7 @@ import {
   mnemonicGenerate,
   mnemonicToMiniSecret,
 } from '@cord.network/types'
+import { base64Decode, base64Encode } from '@polkadot/util-crypto'
 import nacl from 'tweetnacl'
 import { v4 as uuid } from 'uuid'
 import jsonabc from './jsonabc.js'
@@ -282,6 +283,44 @@ export function decryptAsymmetricAsStr(
   return result !== false ? u8aToString(result) : false
 }
 
+/**
+ * X25519 Diffie-Hellman key agreement, as used by key wrapping algorithms such as ECDH-ES and ECDH-1PU.
+ *
+ * @param secretKey The own x25519 secret key.
+ * @param publicKey The x25519 public key of the other party.
+ * @returns The raw shared secret.
+ */
+export function x25519Agreement(
+  secretKey: Uint8Array,
+  publicKey: Uint8Array
+): Uint8Array {
+  return nacl.scalarMult(secretKey, publicKey)
+}
+
+/**
+ * Encodes bytes as unpadded base64url, the encoding used by JSON Web Keys and JSON Web Encryption.
+ *
+ * @param data The bytes to encode.
+ * @returns The base64url string.
+ */
+export function base64UrlEncode(data: Uint8Array): string {
+  return base64Encode(data)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Decodes an unpadded base64url string.
+ *
+ * @param data The base64url string.
+ * @returns The decoded bytes.
+ */
+export function base64UrlDecode(data: string): Uint8Array {
+  const base64 = data.replace(/-/g, '+').replace(/_/g, '/')
+  return base64Decode(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+}
+
 /**
  * Signature of hashing function accepted by [[hashStatements]].
  *
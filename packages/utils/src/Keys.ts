@@ -10,19 +10,21 @@ import {
 } from '@polkadot/util-crypto'
 
 import { makeEncryptionKeypairFromSeed } from './Crypto';
-import { CordKeyringPair, ICordKeyPair } from '@cord.network/types';
+import { CordKeyringPair, DidKeyLayout, ICordKeyPair, VerificationKeyType } from '@cord.network/types';
 
 /**
  * It takes a mnemonic and returns a keypair that can be used for encryption
  * @param {string} mnemonic - The mnemonic that was generated in the previous step.
+ * @param type - The type of the key the encryption key is derived from.
+ * @param derivationPath - The derivation path, defaults to '//did//keyAgreement//0'.
  * @returns A keypair for encryption.
  */
-function generateKeyAgreement(mnemonic: string, type: string) {
+function generateKeyAgreement(mnemonic: string, type: string, derivationPath = '//did//keyAgreement//0') {
     let secretKeyPair = ed25519PairFromSeed(mnemonicToMiniSecret(mnemonic));
     if (type === 'sr25519') {
 	secretKeyPair = sr25519PairFromSeed(mnemonicToMiniSecret(mnemonic))
     }
-    const { path } = keyExtractPath('//did//keyAgreement//0')
+    const { path } = keyExtractPath(derivationPath)
     const { secretKey } = keyFromPath(secretKeyPair, path, type === 'ed25519' ? 'ed25519' : (type === 'sr25519' ? 'sr25519' : 'ecdsa'))
     return makeEncryptionKeypairFromSeed(blake2AsU8a(secretKey))
 }
@@ -73,3 +75,51 @@ export function generateKeypairs(mnemonic: string, keytype?: string): ICordKeyPa
 	capabilityDelegation: capabilityDelegation,
     }
 }
+
+/**
+ * Returns the key layout used by `generateKeypairs`: every key of the given type, derived at
+ * `//did//<relationship>//0`.
+ *
+ * @param keytype - The type of all keys, defaults to 'ed25519'.
+ * @returns The key layout.
+ */
+export function getDefaultKeyLayout(
+  keytype: VerificationKeyType = 'ed25519'
+): DidKeyLayout {
+  return {
+    authentication: { type: keytype, path: '//did//authentication//0' },
+    assertionMethod: { type: keytype, path: '//did//assertion//0' },
+    capabilityDelegation: { type: keytype, path: '//did//delegation//0' },
+    keyAgreement: { type: keytype, path: '//did//keyAgreement//0' },
+  }
+}
+
+/**
+ * Derives the four DID keypairs from a mnemonic, with a key type and derivation path per key relationship.
+ * With `getDefaultKeyLayout(keytype)` as layout, the keypairs are the same as the ones of `generateKeypairs`.
+ *
+ * @param mnemonic - The mnemonic the keypairs are derived from.
+ * @param layout - The key type and derivation path of each key.
+ * @returns An object with 4 keyring pairs.
+ */
+export function generateKeypairsFromLayout(
+  mnemonic: string,
+  layout: DidKeyLayout
+): ICordKeyPair {
+  const deriveKeypair = ({ type, path }: DidKeyLayout['authentication']) => {
+    const keyring = new Keyring({ ss58Format: 29, type })
+    const account = keyring.addFromMnemonic(mnemonic)
+    return { ...account.derive(path), type } as CordKeyringPair
+  }
+
+  return {
+    authentication: deriveKeypair(layout.authentication),
+    keyAgreement: generateKeyAgreement(
+      mnemonic,
+      layout.keyAgreement.type,
+      layout.keyAgreement.path
+    ),
+    assertionMethod: deriveKeypair(layout.assertionMethod),
+    capabilityDelegation: deriveKeypair(layout.capabilityDelegation),
+  }
+}
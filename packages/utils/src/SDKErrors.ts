@@ -110,6 +110,8 @@ export class DidResolveUpgradedDidError extends SDKError {}
 
 export class DidDeactivatedError extends SDKError {}
 
+export class DidNameError extends SDKError {}
+
 export class AddressTypeError extends SDKError {}
 
 export class SignatureMalformedError extends SDKError {}
@@ -123,8 +125,13 @@ export class ChainSpaceMissingError extends SDKError {}
 export class AuthorizationMissingError extends SDKError {}
 export class DocumentContentMalformed extends SDKError {}
 export class CordDispatchError extends SDKError {}
+export class MultisigError extends SDKError {}
+export class BatchError extends SDKError {}
+export class OfflineTxError extends SDKError {}
+export class TxDuplicateError extends SDKError {}
 export class CordFetchError extends SDKError {}
 export class CordQueryError extends SDKError {}
+export class StorageProofError extends SDKError {}
 export class InvalidPermissionError extends SDKError {}
 
 export class RootHashUnverifiableError extends SDKError {}
@@ -145,6 +152,8 @@ export class IssuerMissingError extends SDKError {}
 
 export class CredentialUnverifiableError extends SDKError {}
 
+export class CredentialExporterError extends SDKError {}
+
 export class CreatorMissingError extends SDKError {}
 export class RegistryInputMalformedError extends SDKError {}
 export class DelegateMissingError extends SDKError {}
@@ -164,6 +173,8 @@ export class IdentityMismatchError extends SDKError {
   }
 }
 export class UnknownMessageBodyTypeError extends SDKError {}
+export class MessageBodyMalformedError extends SDKError {}
+export class MessageReplayError extends SDKError {}
 
 export class InvalidDidFormatError extends SDKError {
   constructor(did: string, options?: ErrorOptions) {
@@ -253,3 +264,11 @@ export class InvalidAssetType extends SDKError {}
 export class InvalidAssetStatus extends SDKError {}
 
 export class DuplicateStatementError extends SDKError {}
+
+export class InsufficientBalanceError extends SDKError {
+  constructor(address: string, fee: string, free: string) {
+    super(
+      `Account ${address} can not pay the fee of ${fee}, its free balance is ${free}`
+    )
+  }
+}
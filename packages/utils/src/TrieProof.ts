@@ -0,0 +1,322 @@
+/**
+ * Verification of storage read proofs, as returned by the `state_getReadProof` RPC of a Substrate node.
+ *
+ * A read proof is the set of trie nodes visited when looking up a list of keys in the state of a block. Checking a
+ * proof only requires the state root of that block, taken from a trusted header, so storage values can be verified
+ * without a connection to a node.
+ *
+ * @packageDocumentation
+ * @module TrieProof
+ */
+
+import { compactFromU8a, u8aEq, u8aToHex, u8aToU8a } from '@polkadot/util'
+import { blake2AsU8a } from '@polkadot/util-crypto'
+import type { HexString } from '@polkadot/util/types'
+
+import * as SDKErrors from './SDKErrors.js'
+
+const HASH_LENGTH = 32
+
+type NodeHandle = { hash: Uint8Array } | { inline: Uint8Array }
+
+type ValueHandle = { inline: Uint8Array } | { hash: Uint8Array }
+
+type DecodedNode =
+  | { type: 'empty' }
+  | { type: 'leaf'; partial: number[]; value: ValueHandle }
+  | {
+      type: 'branch'
+      partial: number[]
+      value?: ValueHandle
+      children: Array<NodeHandle | undefined>
+    }
+
+/**
+ * Reads the size encoded in a node header (`decode_size` of the Substrate trie codec).
+ *
+ * @param first The first header byte.
+ * @param data The encoded node.
+ * @param prefixBits The number of bits of the first byte used by the node type prefix.
+ * @returns The size and the offset of the first byte after the header.
+ */
+function decodeHeaderSize(
+  first: number,
+  data: Uint8Array,
+  prefixBits: number
+): [number, number] {
+  // eslint-disable-next-line no-bitwise
+  const maxValue = 0xff >> prefixBits
+  // eslint-disable-next-line no-bitwise
+  let size = first & maxValue
+  let offset = 1
+  if (size < maxValue) {
+    return [size, offset]
+  }
+  for (;;) {
+    const next = data[offset]
+    if (next === undefined) {
+      throw new SDKErrors.StorageProofError('Truncated trie node header')
+    }
+    offset += 1
+    size += next
+    if (next < 0xff) {
+      return [size, offset]
+    }
+  }
+}
+
+/**
+ * Reads the partial key of a node as nibbles.
+ *
+ * @param data The encoded node.
+ * @param offset The offset of the partial key.
+ * @param nibbleCount The number of nibbles in the partial key.
+ * @returns The nibbles and the offset of the first byte after the partial key.
+ */
+function decodePartial(
+  data: Uint8Array,
+  offset: number,
+  nibbleCount: number
+): [number[], number] {
+  const byteLength = Math.ceil(nibbleCount / 2)
+  const bytes = data.subarray(offset, offset + byteLength)
+  if (bytes.length !== byteLength) {
+    throw new SDKErrors.StorageProofError('Truncated trie node partial key')
+  }
+  // eslint-disable-next-line no-bitwise
+  const nibbles = Array.from(bytes).flatMap((byte) => [byte >> 4, byte & 0x0f])
+  if (nibbleCount % 2 === 1) {
+    if (nibbles[0] !== 0) {
+      throw new SDKErrors.StorageProofError('Bad trie node partial padding')
+    }
+    nibbles.shift()
+  }
+  return [nibbles, offset + byteLength]
+}
+
+/**
+ * Reads a SCALE length-prefixed byte string.
+ *
+ * @param data The encoded node.
+ * @param offset The offset of the compact length prefix.
+ * @returns The bytes and the offset of the first byte after them.
+ */
+function decodeBytes(data: Uint8Array, offset: number): [Uint8Array, number] {
+  const [prefixLength, length] = compactFromU8a(data.subarray(offset))
+  const start = offset + prefixLength
+  const end = start + length.toNumber()
+  if (end > data.length) {
+    throw new SDKErrors.StorageProofError('Truncated trie node value')
+  }
+  return [data.subarray(start, end), end]
+}
+
+/**
+ * Reads a value hash of a state version 1 node.
+ *
+ * @param data The encoded node.
+ * @param offset The offset of the hash.
+ * @returns The hash and the offset of the first byte after it.
+ */
+function decodeHash(data: Uint8Array, offset: number): [Uint8Array, number] {
+  const hash = data.subarray(offset, offset + HASH_LENGTH)
+  if (hash.length !== HASH_LENGTH) {
+    throw new SDKErrors.StorageProofError('Truncated trie node value hash')
+  }
+  return [hash, offset + HASH_LENGTH]
+}
+
+/**
+ * Decodes a trie node encoded with the Substrate trie codec, for both state versions 0 and 1.
+ *
+ * @param data The encoded node.
+ * @returns The decoded node.
+ */
+function decodeNode(data: Uint8Array): DecodedNode {
+  const first = data[0]
+  if (first === undefined || first === 0x00) {
+    return { type: 'empty' }
+  }
+
+  // eslint-disable-next-line no-bitwise
+  const prefix = first >> 6
+  let kind: 'leaf' | 'branch'
+  let valueKind: 'none' | 'inline' | 'hash'
+  let prefixBits = 2
+  if (prefix === 0b01) {
+    kind = 'leaf'
+    valueKind = 'inline'
+  } else if (prefix === 0b10) {
+    kind = 'branch'
+    valueKind = 'none'
+  } else if (prefix === 0b11) {
+    kind = 'branch'
+    valueKind = 'inline'
+    // eslint-disable-next-line no-bitwise
+  } else if (first >> 5 === 0b001) {
+    kind = 'leaf'
+    valueKind = 'hash'
+    prefixBits = 3
+    // eslint-disable-next-line no-bitwise
+  } else if (first >> 4 === 0b0001) {
+    kind = 'branch'
+    valueKind = 'hash'
+    prefixBits = 4
+  } else {
+    throw new SDKErrors.StorageProofError(
+      `Unknown trie node header "${u8aToHex(data.subarray(0, 1))}"`
+    )
+  }
+
+  const [nibbleCount, headerEnd] = decodeHeaderSize(first, data, prefixBits)
+  const [partial, partialEnd] = decodePartial(data, headerEnd, nibbleCount)
+  let offset = partialEnd
+
+  let bitmap = 0
+  if (kind === 'branch') {
+    // eslint-disable-next-line no-bitwise
+    bitmap = data[offset] | (data[offset + 1] << 8)
+    offset += 2
+  }
+
+  let value: ValueHandle | undefined
+  if (valueKind === 'inline') {
+    const [inline, valueEnd] = decodeBytes(data, offset)
+    value = { inline }
+    offset = valueEnd
+  } else if (valueKind === 'hash') {
+    const [hash, valueEnd] = decodeHash(data, offset)
+    value = { hash }
+    offset = valueEnd
+  }
+
+  if (kind === 'leaf') {
+    return { type: 'leaf', partial, value: value as ValueHandle }
+  }
+
+  const children: Array<NodeHandle | undefined> = []
+  for (let index = 0; index < 16; index += 1) {
+    // eslint-disable-next-line no-bitwise
+    if ((bitmap & (1 << index)) !== 0) {
+      const [child, childEnd] = decodeBytes(data, offset)
+      children.push(
+        child.length === HASH_LENGTH ? { hash: child } : { inline: child }
+      )
+      offset = childEnd
+    } else {
+      children.push(undefined)
+    }
+  }
+  return { type: 'branch', partial, value, children }
+}
+
+/**
+ * Checks whether the nibbles of `key` starting at `offset` begin with `partial`.
+ *
+ * @param key The nibbles of the looked up key.
+ * @param offset The offset into the key.
+ * @param partial The partial key of a node.
+ * @returns True if the partial key matches.
+ */
+function matchesPartial(
+  key: number[],
+  offset: number,
+  partial: number[]
+): boolean {
+  return (
+    key.length - offset >= partial.length &&
+    partial.every((nibble, index) => key[offset + index] === nibble)
+  )
+}
+
+/**
+ * Looks up the value of a storage key in a read proof.
+ *
+ * The proof is checked against the given state root while walking the trie: every node visited must be part of the
+ * proof and hash to the reference held by its parent. A key that is proven not to exist yields `null`.
+ *
+ * @param stateRoot The state root of the block the proof was generated at, taken from a trusted header.
+ * @param proof The encoded trie nodes, as returned by `state_getReadProof`.
+ * @param key The full storage key to look up.
+ * @returns The storage value, or `null` if the proof shows the key is not set.
+ */
+export function readProofValue(
+  stateRoot: HexString | Uint8Array,
+  proof: Array<HexString | Uint8Array>,
+  key: HexString | Uint8Array
+): Uint8Array | null {
+  const nodes = new Map<HexString, Uint8Array>()
+  proof.forEach((item) => {
+    const encoded = u8aToU8a(item)
+    nodes.set(u8aToHex(blake2AsU8a(encoded, 256)), encoded)
+  })
+
+  function lookup(hash: Uint8Array): Uint8Array {
+    const encoded = nodes.get(u8aToHex(hash))
+    if (!encoded) {
+      throw new SDKErrors.StorageProofError(
+        `Trie node "${u8aToHex(hash)}" is missing from the proof`
+      )
+    }
+    return encoded
+  }
+
+  function resolveValue(value: ValueHandle): Uint8Array {
+    return 'inline' in value ? value.inline : lookup(value.hash)
+  }
+
+  const nibbles = Array.from(u8aToU8a(key)).flatMap((byte) => [
+    // eslint-disable-next-line no-bitwise
+    byte >> 4,
+    // eslint-disable-next-line no-bitwise
+    byte & 0x0f,
+  ])
+  let node = decodeNode(lookup(u8aToU8a(stateRoot)))
+  let offset = 0
+
+  for (;;) {
+    if (
+      node.type === 'empty' ||
+      !matchesPartial(nibbles, offset, node.partial)
+    ) {
+      return null
+    }
+    offset += node.partial.length
+
+    if (node.type === 'leaf') {
+      return offset === nibbles.length ? resolveValue(node.value) : null
+    }
+    if (offset === nibbles.length) {
+      return node.value ? resolveValue(node.value) : null
+    }
+
+    const child = node.children[nibbles[offset]]
+    if (!child) {
+      return null
+    }
+    offset += 1
+    node = decodeNode('inline' in child ? child.inline : lookup(child.hash))
+  }
+}
+
+/**
+ * Checks that a storage value is proven by a read proof.
+ *
+ * @param stateRoot The state root of the block the proof was generated at, taken from a trusted header.
+ * @param proof The encoded trie nodes, as returned by `state_getReadProof`.
+ * @param key The full storage key.
+ * @param value The expected storage value, or `null` if the key is expected not to be set.
+ * @returns True if the proof holds exactly `value` under `key`.
+ */
+export function verifyProofValue(
+  stateRoot: HexString | Uint8Array,
+  proof: Array<HexString | Uint8Array>,
+  key: HexString | Uint8Array,
+  value: HexString | Uint8Array | null
+): boolean {
+  const proven = readProofValue(stateRoot, proof, key)
+  if (proven === null || value === null) {
+    return proven === value
+  }
+  return u8aEq(proven, u8aToU8a(value))
+}
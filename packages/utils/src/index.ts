@@ -7,6 +7,7 @@ export * as UUID from './UUID.js'
 export * as DataUtils from './DataUtils.js'
 export * as DecoderUtils from './Decode.js'
 export * as SDKErrors from './SDKErrors.js'
+export * as TrieProof from './TrieProof.js'
 export * as JsonSchema from './json-schema/index.js'
 export { ss58Format } from './ss58Format.js'
 export { Keyring } from '@polkadot/keyring'